@@ -1,17 +1,41 @@
 import { Canvas } from '@react-three/fiber'
-import { OrbitControls, Stats } from '@react-three/drei'
+import { Stats } from '@react-three/drei'
 import { Suspense, useRef, useEffect, useState } from 'react'
 import { useAudioAnalyzer } from './hooks/useAudioAnalyzer'
 import { useConfigStore } from './store/configStore'
 import { VisualizationRenderer } from './scenes/VisualizationRenderer'
 import { ConfigPanel } from './components/ConfigPanel'
+import { CameraRig } from './components/CameraRig'
+import { Goniometer } from './components/Goniometer'
+import { exportTimeline, importTimeline } from './utils/timelineFormat'
+import { getFeatureOutput } from './features'
+
+// Décalage de phase par appui (en beats)
+const PHASE_NUDGE = 1 / 32
+
+const tempoButtonStyle = {
+  flex: 1,
+  padding: '4px',
+  background: '#333',
+  border: '1px solid #555',
+  borderRadius: '4px',
+  color: 'white',
+  cursor: 'pointer',
+  fontSize: '11px'
+}
 
 function App() {
   const audioRef = useRef<HTMLAudioElement>(null)
   const [audioElement, setAudioElement] = useState<HTMLAudioElement | undefined>(undefined)
-  const { audioData, audioContext, sourceType, switchAudioSource } = useAudioAnalyzer(audioElement)
+  const {
+    audioData, liveFrame, lookahead, audioContext, sourceType, stereoAnalysers, switchAudioSource, timeline, preAnalysis, analyzeFile, loadTimeline,
+    noiseProfile, isCalibrating, calibrateNoise, tempoCommand, setTrack, setTempoOctave
+  } = useAudioAnalyzer(audioElement)
   const { global: globalConfig } = useConfigStore()
   const currentUrlRef = useRef<string | null>(null)
+  const [trackName, setTrackName] = useState<string | undefined>(undefined)
+  const [bpmInput, setBpmInput] = useState('')
+  const tempoLocked = audioData.rhythmicFeatures.tempoSource === 'locked'
 
   // Effet pour initialiser l'élément audio quand la ref est prête
   useEffect(() => {
@@ -40,6 +64,26 @@ function App() {
     return () => clearTimeout(timer);
   }, []); // Se lance une seule fois au montage
 
+  // Raccourcis clavier de la grille de tempo : T tap, R resync sur le "un", L verrou, ←/→ décalage de phase, A auto
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      if (e.repeat || target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') return
+
+      switch (e.key.toLowerCase()) {
+        case 't': tempoCommand({ type: 'tap' }); break
+        case 'r': tempoCommand({ type: 'resync' }); break
+        case 'l': tempoCommand({ type: 'lock', locked: !tempoLocked }); break
+        case 'a': tempoCommand({ type: 'reset' }); break
+        case 'arrowleft': tempoCommand({ type: 'nudge', beats: -PHASE_NUDGE }); break
+        case 'arrowright': tempoCommand({ type: 'nudge', beats: PHASE_NUDGE }); break
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [tempoCommand, tempoLocked]);
+
   // Add logging for BPM detection and harmony analysis
   useEffect(() => {
     if (audioData.rhythmicFeatures.bpm > 0) {
@@ -87,6 +131,12 @@ function App() {
       const url = URL.createObjectURL(file)
       currentUrlRef.current = url
       audioRef.current.src = url
+      setTrackName(file.name)
+      // Octave du tempo (x2 / ÷2) déjà choisie pour ce morceau
+      setTrack(`${file.name}:${file.size}`)
+
+      // Pré-analyse complète du fichier (tempo, tonalité, features image par image)
+      analyzeFile(file)
 
       // Assurer que le contexte est prêt pour la lecture
       if (audioContext && audioContext.state === 'suspended') {
@@ -95,6 +145,33 @@ function App() {
     }
   }
 
+  const handleTimelineImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const { timeline: imported, metadata } = await importTimeline(file)
+      loadTimeline(imported)
+      console.log('📂 Timeline importée:', metadata.title ?? file.name, `(${imported.frames.length} frames)`)
+    } catch (error) {
+      console.error('❌ Import de timeline impossible:', error)
+      alert(`Impossible de lire ce fichier de timeline: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  const handleTimelineExport = (format: 'json' | 'binary') => {
+    if (!timeline) return
+
+    const file = exportTimeline(timeline, format, trackName)
+    const url = URL.createObjectURL(file)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = file.name
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -140,17 +217,10 @@ function App() {
             <ambientLight intensity={0.5} />
             <pointLight position={[10, 10, 10]} />
 
-            <VisualizationRenderer audioData={audioData} />
-
-            <OrbitControls
-                enableDamping
-                dampingFactor={0.05}
-                enableZoom={true}
-                enablePan={false}
-                maxPolarAngle={Math.PI / 2.2}
-                minPolarAngle={Math.PI / 6}
-                autoRotate={false}
-            />
+            {/* Le rendu 3D lit la dernière trame dans useFrame : seul le HUD suit l'état React */}
+            <VisualizationRenderer liveFrame={liveFrame} />
+
+            <CameraRig liveFrame={liveFrame} />
             <Stats />
           </Suspense>
         </Canvas>
@@ -224,6 +294,39 @@ function App() {
                     onPlay={handlePlay}
                     style={{ width: '200px', marginBottom: '10px' }}
                 />
+                {preAnalysis.status !== 'idle' && (
+                    <div style={{ fontSize: '11px', color: '#aaa', marginBottom: '10px' }}>
+                      {preAnalysis.status === 'analyzing' && `⏳ Pré-analyse: ${Math.round(preAnalysis.progress * 100)}%`}
+                      {preAnalysis.status === 'ready' && '✅ Pré-analyse terminée'}
+                      {preAnalysis.status === 'error' && '⚠️ Pré-analyse impossible, analyse en temps réel'}
+                    </div>
+                )}
+                {/* Sauvegarde / chargement de la timeline d'analyse */}
+                <div style={{ display: 'flex', gap: '5px', alignItems: 'center', marginBottom: '10px', fontSize: '11px' }}>
+                  <button
+                      onClick={() => handleTimelineExport('json')}
+                      disabled={!timeline}
+                      style={{ padding: '4px 8px', background: '#333', border: '1px solid #555', borderRadius: '4px', color: 'white', cursor: timeline ? 'pointer' : 'default', fontSize: '11px' }}
+                  >
+                    💾 JSON
+                  </button>
+                  <button
+                      onClick={() => handleTimelineExport('binary')}
+                      disabled={!timeline}
+                      style={{ padding: '4px 8px', background: '#333', border: '1px solid #555', borderRadius: '4px', color: 'white', cursor: timeline ? 'pointer' : 'default', fontSize: '11px' }}
+                  >
+                    💾 Binaire
+                  </button>
+                  <label style={{ padding: '4px 8px', background: '#333', border: '1px solid #555', borderRadius: '4px', cursor: 'pointer' }}>
+                    📂 Importer
+                    <input
+                        type="file"
+                        accept=".json,.aurasync"
+                        onChange={handleTimelineImport}
+                        style={{ display: 'none' }}
+                    />
+                  </label>
+                </div>
                 {/* Bouton de démarrage d'urgence */}
                 <div>
                   <button
@@ -269,6 +372,29 @@ function App() {
                     animation: 'pulse 1.5s infinite'
                   }}></span>
                 </p>
+                {/* Calibration du silence : le profil de bruit est gardé pour ce micro */}
+                <button
+                    onClick={() => calibrateNoise(3)}
+                    disabled={isCalibrating}
+                    style={{
+                      width: '100%',
+                      marginTop: '8px',
+                      padding: '6px',
+                      background: isCalibrating ? '#555' : '#333',
+                      border: '1px solid #555',
+                      borderRadius: '4px',
+                      color: 'white',
+                      cursor: isCalibrating ? 'wait' : 'pointer',
+                      fontSize: '12px'
+                    }}
+                >
+                  {isCalibrating ? '🔇 Calibration... (silence)' : '🔇 Calibrer le silence'}
+                </button>
+                <p style={{ margin: '5px 0 0 0', fontSize: '11px', color: '#aaa' }}>
+                  {noiseProfile
+                      ? `Profil de bruit du ${new Date(noiseProfile.recordedAt).toLocaleString()}`
+                      : 'Aucun profil de bruit pour ce micro'}
+                </p>
                 <style>
                   {`
                       @keyframes pulse {
@@ -307,6 +433,34 @@ function App() {
             <div>Drop Intensity: {Math.round(audioData.dropIntensity * 100)}%</div>
           </div>
 
+          {/* Loudness (EBU R128) */}
+          <div style={{ marginTop: '10px', fontSize: '12px', borderBottom: '1px solid #333', paddingBottom: '10px' }}>
+            <h3 style={{ margin: '0 0 5px 0', color: '#ffff88' }}>📢 Loudness</h3>
+            {[
+              { label: 'M', value: audioData.loudness.momentary },
+              { label: 'S', value: audioData.loudness.shortTerm },
+              { label: 'I', value: audioData.loudness.integrated },
+            ].map(({ label, value }) => (
+                <div key={label} style={{ display: 'flex', alignItems: 'center', gap: '5px', marginBottom: '2px' }}>
+                  <span style={{ width: '12px' }}>{label}</span>
+                  <div style={{ flex: 1, height: '8px', background: '#222', borderRadius: '2px' }}>
+                    {/* Échelle -60 → 0 LUFS, repère orange à -14 LUFS (streaming) */}
+                    <div style={{
+                      width: `${Math.max(0, Math.min(100, ((value + 60) / 60) * 100))}%`,
+                      height: '100%',
+                      background: value > -9 ? '#ff4444' : value > -14 ? '#ffaa00' : '#00ff00',
+                      borderRadius: '2px'
+                    }} />
+                  </div>
+                  <span style={{ width: '70px', textAlign: 'right' }}>{value.toFixed(1)} LUFS</span>
+                </div>
+            ))}
+            <div>LRA: {audioData.loudness.range.toFixed(1)} LU</div>
+            <div>True Peak: <span style={{ color: audioData.loudness.maxTruePeak > -1 ? '#ff4444' : '#aaa' }}>
+              {audioData.loudness.truePeak.toFixed(1)} dBTP (max {audioData.loudness.maxTruePeak.toFixed(1)})
+            </span></div>
+          </div>
+
           {/* Frequency Bands */}
           <div style={{ marginTop: '10px', fontSize: '12px', borderBottom: '1px solid #333', paddingBottom: '10px' }}>
             <h3 style={{ margin: '0 0 5px 0', color: '#ff8888' }}>🎚️ Frequency Bands</h3>
@@ -315,6 +469,18 @@ function App() {
             <div>Treble: {Math.round(audioData.bands.treble * 100)}% | Dynamic: {Math.round(audioData.dynamicBands.treble * 100)}%</div>
           </div>
 
+          {/* Stereo Image */}
+          <div style={{ marginTop: '10px', fontSize: '12px', borderBottom: '1px solid #333', paddingBottom: '10px' }}>
+            <h3 style={{ margin: '0 0 5px 0', color: '#88ffff' }}>🎧 Stereo Image</h3>
+            <div>L: {Math.round(audioData.stereo.leftLevel * 100)}% | R: {Math.round(audioData.stereo.rightLevel * 100)}%</div>
+            <div>Balance: {audioData.stereo.balance >= 0 ? 'R' : 'L'} {Math.round(Math.abs(audioData.stereo.balance) * 100)}%</div>
+            <div>Width: {Math.round(audioData.stereo.width * 100)}%</div>
+            <div>Correlation: <span style={{
+              color: audioData.stereo.correlation < 0 ? '#ff4444' : audioData.stereo.correlation < 0.3 ? '#ffaa00' : '#00ff00'
+            }}>{audioData.stereo.correlation.toFixed(2)}</span></div>
+            <Goniometer analysers={stereoAnalysers} />
+          </div>
+
           {/* Transients */}
           <div style={{ marginTop: '10px', fontSize: '12px', borderBottom: '1px solid #333', paddingBottom: '10px' }}>
             <h3 style={{ margin: '0 0 5px 0', color: '#ffaa00' }}>⚡ Transients</h3>
@@ -334,6 +500,48 @@ function App() {
             </div>
           </div>
 
+          {/* Song Structure */}
+          <div style={{ marginTop: '10px', fontSize: '12px', borderBottom: '1px solid #333', paddingBottom: '10px' }}>
+            <h3 style={{ margin: '0 0 5px 0', color: '#ff88aa' }}>🧩 Song Structure</h3>
+            <div>Section: <strong>{audioData.structure.section}</strong> #{audioData.structure.sectionIndex}
+              <span style={{ color: '#888' }}> ({audioData.structure.timeInSection.toFixed(1)}s)</span>
+            </div>
+            <div>Level: {audioData.structure.level >= 0 ? '+' : ''}{audioData.structure.level.toFixed(1)} LU</div>
+            <div>Novelty: {Math.round(audioData.structure.novelty * 100)}%</div>
+            {lookahead?.nextSection && lookahead.timeToNextSection !== null && (
+                <div style={{ color: '#ffaa00' }}>
+                  Next: {lookahead.nextSection} in {lookahead.timeToNextSection.toFixed(1)}s
+                </div>
+            )}
+          </div>
+
+          {/* Extra Features (extracteurs enregistrés + Meyda) */}
+          {Object.keys(audioData.extra).length > 0 && (
+              <div style={{ marginTop: '10px', fontSize: '12px', borderBottom: '1px solid #333', paddingBottom: '10px' }}>
+                <h3 style={{ margin: '0 0 5px 0', color: '#aaaaff' }}>🧪 Extra Features</h3>
+                {Object.entries(audioData.extra).map(([name, value]) => {
+                  const output = getFeatureOutput(name)
+                  // Les sorties déclarées ont une plage connue : on les affiche en barre
+                  if (!output) return <div key={name}>{name}: {value.toFixed(3)}</div>
+                  const ratio = output.max > output.min ? (value - output.min) / (output.max - output.min) : 0
+                  return (
+                      <div key={name} style={{ display: 'flex', alignItems: 'center', gap: '5px', marginBottom: '2px' }}>
+                        <span style={{ width: '90px' }}>{output.label}</span>
+                        <div style={{ flex: 1, height: '8px', background: '#222', borderRadius: '2px' }}>
+                          <div style={{
+                            width: `${Math.max(0, Math.min(100, ratio * 100))}%`,
+                            height: '100%',
+                            background: '#aaaaff',
+                            borderRadius: '2px'
+                          }} />
+                        </div>
+                        <span style={{ width: '40px', textAlign: 'right' }}>{value.toFixed(2)}</span>
+                      </div>
+                  )
+                })}
+              </div>
+          )}
+
           {/* Rhythmic Features */}
           <div style={{ marginTop: '10px', fontSize: '12px', borderBottom: '1px solid #333', paddingBottom: '10px' }}>
             <h3 style={{ margin: '0 0 5px 0', color: '#8888ff' }}>🥁 Rhythm Analysis</h3>
@@ -343,8 +551,84 @@ function App() {
             </span>
             </div>
             <div>Beat Phase: {audioData.rhythmicFeatures.beatPhase.toFixed(3)}</div>
+            <div>Bar: <strong>{audioData.rhythmicFeatures.bar}</strong> | Beat {audioData.rhythmicFeatures.beatInBar}/{audioData.rhythmicFeatures.beatsPerBar}
+              <span style={{ color: '#888' }}> ({audioData.rhythmicFeatures.timeSignature}, {audioData.rhythmicFeatures.downbeatConfidence}%)</span>
+            </div>
+            <div>Bar Phase: {audioData.rhythmicFeatures.barPhase.toFixed(3)}</div>
+            <div>Tempo Source: <span style={{
+              color: audioData.rhythmicFeatures.tempoSource === 'detected' ? '#aaa' : '#ffaa00'
+            }}>{audioData.rhythmicFeatures.tempoSource}</span></div>
+
+            {/* Correction manuelle de la grille : suit les mêmes champs que la détection */}
+            <div style={{ display: 'flex', gap: '4px', marginTop: '6px' }}>
+              <button onClick={() => tempoCommand({ type: 'tap' })} style={tempoButtonStyle} title="Tap tempo (T)">Tap</button>
+              <button onClick={() => tempoCommand({ type: 'nudge', beats: -PHASE_NUDGE })} style={tempoButtonStyle} title="Phase en arrière (←)">◀</button>
+              <button onClick={() => tempoCommand({ type: 'nudge', beats: PHASE_NUDGE })} style={tempoButtonStyle} title="Phase en avant (→)">▶</button>
+              <button onClick={() => tempoCommand({ type: 'resync' })} style={tempoButtonStyle} title="Maintenant = le un (R)">Resync</button>
+              <button
+                  onClick={() => tempoCommand({ type: 'lock', locked: !tempoLocked })}
+                  style={{ ...tempoButtonStyle, background: tempoLocked ? '#885500' : '#333' }}
+                  title="Verrouiller le tempo (L)"
+              >
+                {tempoLocked ? '🔒' : '🔓'}
+              </button>
+              <button onClick={() => tempoCommand({ type: 'reset' })} style={tempoButtonStyle} title="Retour à la détection (A)">Auto</button>
+            </div>
+            <form
+                style={{ display: 'flex', gap: '4px', marginTop: '4px' }}
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  const bpm = parseFloat(bpmInput)
+                  if (bpm > 0) tempoCommand({ type: 'setBPM', bpm })
+                }}
+            >
+              <input
+                  type="number"
+                  min={30}
+                  max={300}
+                  step={0.1}
+                  placeholder="BPM"
+                  value={bpmInput}
+                  onChange={(e) => setBpmInput(e.target.value)}
+                  style={{ flex: 1, padding: '3px', background: '#222', border: '1px solid #555', color: 'white', fontSize: '11px' }}
+              />
+              <button type="submit" style={tempoButtonStyle}>Set BPM</button>
+            </form>
+
+            {/* Demi / double tempo : mémorisé pour le morceau en cours */}
+            <div style={{ display: 'flex', alignItems: 'center', gap: '4px', marginTop: '4px' }}>
+              <button
+                  onClick={() => setTempoOctave(audioData.rhythmicFeatures.tempoOctave - 1)}
+                  disabled={audioData.rhythmicFeatures.tempoOctave <= -2}
+                  style={tempoButtonStyle}
+                  title="Demi tempo"
+              >
+                ÷2
+              </button>
+              <button
+                  onClick={() => setTempoOctave(audioData.rhythmicFeatures.tempoOctave + 1)}
+                  disabled={audioData.rhythmicFeatures.tempoOctave >= 2}
+                  style={tempoButtonStyle}
+                  title="Double tempo"
+              >
+                x2
+              </button>
+              {audioData.rhythmicFeatures.tempoOctave !== 0 && (
+                  <span style={{ color: '#ffaa00' }}>
+                    {audioData.rhythmicFeatures.tempoOctave > 0 ? `x${2 ** audioData.rhythmicFeatures.tempoOctave}` : `÷${2 ** -audioData.rhythmicFeatures.tempoOctave}`}
+                  </span>
+              )}
+            </div>
+            <div style={{ color: '#888' }}>Candidates: {audioData.rhythmicFeatures.tempoCandidates
+                .map((bpm, i) => ({ bpm, confidence: audioData.rhythmicFeatures.tempoCandidateConfidences[i] }))
+                .filter(({ bpm }) => bpm > 0)
+                .map(({ bpm, confidence }) => `${bpm.toFixed(1)} (${confidence}%)`)
+                .join(' · ') || '—'}
+            </div>
             <div>Subdivision: {audioData.rhythmicFeatures.subdivision}</div>
             <div>Groove: {Math.round(audioData.rhythmicFeatures.groove)}%</div>
+            <div>Swing: {audioData.rhythmicFeatures.swingRatio.toFixed(2)} ({audioData.rhythmicFeatures.swingSubdivision}ths) · Syncopation: {audioData.rhythmicFeatures.syncopation}%</div>
+            <div>Microtiming: {audioData.rhythmicFeatures.microtiming.toFixed(1)} ms</div>
           </div>
 
           {/* Enhanced Melodic Features - YIN Algorithm */}
@@ -392,6 +676,23 @@ function App() {
               <div>Attack: {Math.round(audioData.timbreProfile.attack * 100)}%</div>
               <div>Complexity: {Math.round(audioData.timbreProfile.harmonicComplexity * 100)}%</div>
             </div>
+            {/* MFCC 1+ (le coefficient 0 ne suit que le niveau) */}
+            <div style={{ marginTop: '5px', fontSize: '11px', fontWeight: 'bold' }}>MFCC:</div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '2px', height: '30px' }}>
+              {audioData.timbreVector.mfcc.slice(1).map((c, i) => (
+                  <div key={i} style={{ flex: 1, height: '100%', position: 'relative', background: '#222' }}>
+                    {/* Barre centrée sur zéro : vers le haut si positif, vers le bas si négatif */}
+                    <div style={{
+                      position: 'absolute',
+                      left: 0,
+                      right: 0,
+                      [c >= 0 ? 'bottom' : 'top']: '50%',
+                      height: `${Math.min(50, Math.abs(c))}%`,
+                      background: c >= 0 ? '#ffaa88' : '#88aaff'
+                    }} />
+                  </div>
+              ))}
+            </div>
             <div style={{ marginTop: '5px' }}>
               Dominant Chroma: {['C','C#','D','D#','E','F','F#','G','G#','A','A#','B'][audioData.timbreProfile.dominantChroma] || 'N/A'}
             </div>
@@ -0,0 +1,83 @@
+import { memo, useEffect, useRef, type ComponentRef, type RefObject } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { useConfigStore } from '../store/configStore';
+import type { LiveAudioFrame } from '../hooks/useAudioAnalyzer';
+
+// Position de départ de la caméra (identique à celle du Canvas)
+const HOME_POSITION = new THREE.Vector3(0, 8, 15);
+
+/**
+ * Caméra pilotée par les réglages globaux :
+ * - orbit  : rotation automatique à `cameraOrbitSpeed` (rad/s), contrôle manuel possible
+ * - follow : la caméra suit la musique (recul sur les basses, balancement sur le beat)
+ * - static : caméra fixe
+ * Avec `bpmSync`, la vitesse d'orbite et le balancement suivent le tempo détecté.
+ * La trame audio est lue dans `useFrame` : la caméra ne se re-rend pas à chaque trame.
+ */
+export const CameraRig = memo(function CameraRig({ liveFrame }: { liveFrame: RefObject<LiveAudioFrame> }) {
+  const { cameraMode, cameraOrbitSpeed, cameraFOV, bpmSync } = useConfigStore((state) => state.global);
+  const camera = useThree((state) => state.camera);
+  const controlsRef = useRef<ComponentRef<typeof OrbitControls>>(null);
+  const followDistance = useRef(HOME_POSITION.length());
+
+  // Le FOV du Canvas n'est lu qu'au montage : on l'applique ici à chaque changement
+  useEffect(() => {
+    if (camera instanceof THREE.PerspectiveCamera) {
+      camera.fov = cameraFOV;
+      camera.updateProjectionMatrix();
+    }
+  }, [camera, cameraFOV]);
+
+  // Retour à la position de départ en mode statique
+  useEffect(() => {
+    if (cameraMode === 'static') {
+      camera.position.copy(HOME_POSITION);
+      camera.lookAt(0, 0, 0);
+    }
+  }, [camera, cameraMode]);
+
+  useFrame((_, delta) => {
+    const { audioData } = liveFrame.current;
+    const { bpm, beatPhase } = audioData.rhythmicFeatures;
+    const tempoFactor = bpmSync && bpm > 0 ? bpm / 120 : 1;
+
+    // OrbitControls : autoRotateSpeed = 1 → un tour en 60 s
+    if (controlsRef.current) {
+      controlsRef.current.autoRotateSpeed = (cameraOrbitSpeed * tempoFactor * 60) / (Math.PI * 2);
+    }
+
+    if (cameraMode !== 'follow') return;
+
+    // Recul progressif sur les basses, retour lent
+    const targetDistance = HOME_POSITION.length() * (1 + audioData.bass * 0.25);
+    followDistance.current += (targetDistance - followDistance.current) * Math.min(1, delta * 4);
+
+    // Orbite lente + balancement vertical calé sur la phase du beat si bpmSync
+    const angle = Math.atan2(camera.position.x, camera.position.z) + cameraOrbitSpeed * tempoFactor * delta;
+    const sway = bpmSync && bpm > 0 ? Math.sin(beatPhase * Math.PI * 2) * 0.5 : 0;
+    const elevation = Math.atan2(HOME_POSITION.y, HOME_POSITION.z);
+
+    camera.position.set(
+      Math.sin(angle) * Math.cos(elevation) * followDistance.current,
+      Math.sin(elevation) * followDistance.current + sway,
+      Math.cos(angle) * Math.cos(elevation) * followDistance.current
+    );
+    camera.lookAt(0, 0, 0);
+  });
+
+  return (
+    <OrbitControls
+      ref={controlsRef}
+      enabled={cameraMode === 'orbit'}
+      enableDamping
+      dampingFactor={0.05}
+      enableZoom={true}
+      enablePan={false}
+      maxPolarAngle={Math.PI / 2.2}
+      minPolarAngle={Math.PI / 6}
+      autoRotate={cameraMode === 'orbit' && cameraOrbitSpeed > 0}
+    />
+  );
+});
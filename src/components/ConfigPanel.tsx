@@ -2,9 +2,16 @@ import React from 'react';
 import { useConfigStore } from '../store/configStore';
 import { scenes, scenesById } from '../scenes';
 import type { SceneSettingControl } from '../scenes/sceneTypes';
+import { DEFAULT_BAND_LAYOUT, type CameraMode, type FrequencyBandDefinition, type ReactivityCurve, type TempoGenre } from '../types/config';
+import { getAudioLinkOptions } from '../utils/audioUtils';
+import { MEYDA_FEATURES } from '../utils/meydaBridge';
 
 export function ConfigPanel() {
   const {
+    global,
+    updateGlobalSettings,
+    audio,
+    updateAudioConfig,
     visualization,
     setVisualization,
     updateVisualizationSettings,
@@ -70,6 +77,32 @@ export function ConfigPanel() {
   };
 
   const currentScene = scenesById[visualization.id];
+  const { bandLayout } = global;
+
+  const updateBand = (index: number, changes: Partial<FrequencyBandDefinition>) => {
+    const bands = bandLayout.bands.map((band, i) => (i === index ? { ...band, ...changes } : band));
+    updateGlobalSettings({ bandLayout: { ...bandLayout, bands } });
+  };
+
+  const removeBand = (index: number) => {
+    const bands = bandLayout.bands.filter((_, i) => i !== index);
+    updateGlobalSettings({ bandLayout: { ...bandLayout, bands } });
+  };
+
+  const addBand = () => {
+    const last = bandLayout.bands[bandLayout.bands.length - 1];
+    const minFrequency = last ? last.maxFrequency : 20;
+    // Ids must stay unique: they are the keys of `customBands` and of `band:<id>` links
+    let n = bandLayout.bands.length + 1;
+    while (bandLayout.bands.some((band) => band.id === `band${n}`)) n++;
+    const band: FrequencyBandDefinition = {
+      id: `band${n}`,
+      label: `Band ${n}`,
+      minFrequency,
+      maxFrequency: Math.min(20000, minFrequency * 2),
+    };
+    updateGlobalSettings({ bandLayout: { ...bandLayout, bands: [...bandLayout.bands, band] } });
+  };
 
   const renderControl = (key: string, control: SceneSettingControl) => {
     const value = visualization.settings[key];
@@ -129,6 +162,23 @@ export function ConfigPanel() {
             </select>
           </div>
         );
+      case 'audioLink':
+        return (
+          <div key={key} style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>{control.label}:</label>
+            <select
+              value={String(value)}
+              onChange={(e) => updateVisualizationSettings({ [key]: e.target.value })}
+              style={selectStyle}
+            >
+              {getAudioLinkOptions(bandLayout).map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        );
       default:
         return null;
     }
@@ -169,7 +219,352 @@ export function ConfigPanel() {
 
       {activeConfigTab === 'global' && (
         <div>
-          {/* Global settings controls here */}
+          {/* Global settings */}
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>Scene Name:</label>
+            <input
+              type="text"
+              value={global.name}
+              onChange={(e) => updateGlobalSettings({ name: e.target.value })}
+              style={inputStyle}
+            />
+          </div>
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>Volume Multiplier:</label>
+            <input
+              type="range"
+              min={0}
+              max={3}
+              step={0.05}
+              value={global.volumeMultiplier}
+              onChange={(e) => updateGlobalSettings({ volumeMultiplier: parseFloat(e.target.value) })}
+              style={inputStyle}
+            />
+            <span style={{ fontSize: '11px', color: '#aaa' }}>{global.volumeMultiplier.toFixed(2)}</span>
+          </div>
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>Reactivity Curve:</label>
+            <select
+              value={global.reactivityCurve}
+              onChange={(e) => updateGlobalSettings({ reactivityCurve: e.target.value as ReactivityCurve })}
+              style={selectStyle}
+            >
+              <option value="linear">Linear</option>
+              <option value="easeOutQuad">Ease Out (Quad)</option>
+              <option value="exponential">Exponential</option>
+            </select>
+          </div>
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>FFT Smoothing:</label>
+            <input
+              type="range"
+              min={0}
+              max={0.95}
+              step={0.05}
+              value={global.fftSmoothing}
+              onChange={(e) => updateGlobalSettings({ fftSmoothing: parseFloat(e.target.value) })}
+              style={inputStyle}
+            />
+            <span style={{ fontSize: '11px', color: '#aaa' }}>{global.fftSmoothing.toFixed(2)}</span>
+          </div>
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>BPM Sync:</label>
+            <select
+              value={String(global.bpmSync)}
+              onChange={(e) => updateGlobalSettings({ bpmSync: e.target.value === 'true' })}
+              style={selectStyle}
+            >
+              <option value="true">Enabled</option>
+              <option value="false">Disabled</option>
+            </select>
+          </div>
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>Camera Mode:</label>
+            <select
+              value={global.cameraMode}
+              onChange={(e) => updateGlobalSettings({ cameraMode: e.target.value as CameraMode })}
+              style={selectStyle}
+            >
+              <option value="orbit">Orbit</option>
+              <option value="follow">Follow</option>
+              <option value="static">Static</option>
+            </select>
+          </div>
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>Camera Orbit Speed:</label>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={global.cameraOrbitSpeed}
+              onChange={(e) => updateGlobalSettings({ cameraOrbitSpeed: parseFloat(e.target.value) })}
+              style={inputStyle}
+            />
+            <span style={{ fontSize: '11px', color: '#aaa' }}>{global.cameraOrbitSpeed.toFixed(2)} rad/s</span>
+          </div>
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>Camera FOV:</label>
+            <input
+              type="range"
+              min={30}
+              max={120}
+              step={1}
+              value={global.cameraFOV}
+              onChange={(e) => updateGlobalSettings({ cameraFOV: parseFloat(e.target.value) })}
+              style={inputStyle}
+            />
+            <span style={{ fontSize: '11px', color: '#aaa' }}>{global.cameraFOV}°</span>
+          </div>
+          <div style={{ marginBottom: '20px' }}>
+            <label style={{ display: 'block', marginBottom: '4px' }}>Background Color:</label>
+            <input
+              type="color"
+              value={global.bgColor}
+              onChange={(e) => updateGlobalSettings({ bgColor: e.target.value })}
+              style={inputStyle}
+            />
+          </div>
+
+          {/* Analyser configuration, applied live */}
+          <div style={{ marginBottom: '20px' }}>
+            <label style={{ display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>Audio Analysis:</label>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '4px' }}>Precision:</label>
+              <select
+                value={audio.precision}
+                onChange={(e) => updateAudioConfig({ precision: e.target.value as 'byte' | 'float' })}
+                style={selectStyle}
+              >
+                <option value="float">Float (dB)</option>
+                <option value="byte">Byte (0-255)</option>
+              </select>
+            </div>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '4px' }}>Capture:</label>
+              <select
+                value={audio.captureMode}
+                onChange={(e) => updateAudioConfig({ captureMode: e.target.value as 'analyser' | 'worklet' })}
+                style={selectStyle}
+              >
+                <option value="worklet">AudioWorklet (fixed hop, float)</option>
+                <option value="analyser">Analyser (per display frame)</option>
+              </select>
+            </div>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '4px' }}>Analysis Thread:</label>
+              <select
+                value={audio.analysisThread}
+                onChange={(e) => updateAudioConfig({ analysisThread: e.target.value as 'main' | 'worker' })}
+                style={selectStyle}
+              >
+                <option value="main">Main thread</option>
+                <option value="worker">Worker{typeof SharedArrayBuffer !== 'undefined' && crossOriginIsolated ? ' (shared memory)' : ''}</option>
+              </select>
+            </div>
+            {audio.captureMode === 'worklet' && (
+              <div style={{ marginBottom: '15px' }}>
+                <label style={{ display: 'block', marginBottom: '4px' }}>Hop Size:</label>
+                <select
+                  value={audio.hopSize}
+                  onChange={(e) => updateAudioConfig({ hopSize: parseInt(e.target.value, 10) })}
+                  style={selectStyle}
+                >
+                  {[256, 512, 1024, 2048].map((size) => (
+                    <option key={size} value={size}>{size} samples</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '4px' }}>FFT Size:</label>
+              <select
+                value={audio.fftSize}
+                onChange={(e) => updateAudioConfig({ fftSize: parseInt(e.target.value, 10) })}
+                style={selectStyle}
+              >
+                {[512, 1024, 2048, 4096, 8192, 16384].map((size) => (
+                  <option key={size} value={size}>{size}</option>
+                ))}
+              </select>
+            </div>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '4px' }}>Min dB:</label>
+              <input
+                type="range"
+                min={-140}
+                max={audio.maxDecibels - 10}
+                step={1}
+                value={audio.minDecibels}
+                onChange={(e) => updateAudioConfig({ minDecibels: parseFloat(e.target.value) })}
+                style={inputStyle}
+              />
+              <span style={{ fontSize: '11px', color: '#aaa' }}>{audio.minDecibels} dB</span>
+            </div>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '4px' }}>Max dB:</label>
+              <input
+                type="range"
+                min={audio.minDecibels + 10}
+                max={0}
+                step={1}
+                value={audio.maxDecibels}
+                onChange={(e) => updateAudioConfig({ maxDecibels: parseFloat(e.target.value) })}
+                style={inputStyle}
+              />
+              <span style={{ fontSize: '11px', color: '#aaa' }}>{audio.maxDecibels} dB</span>
+            </div>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '4px' }}>Rhythm Backend:</label>
+              <select
+                value={audio.rhythmBackend}
+                onChange={(e) => updateAudioConfig({ rhythmBackend: e.target.value as 'autocorrelation' | 'beat-tracker' })}
+                style={selectStyle}
+              >
+                <option value="autocorrelation">Autocorrelation (BPMDetector)</option>
+                <option value="beat-tracker">Beat tracker (RhythmicEngine)</option>
+              </select>
+            </div>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '4px' }}>Min BPM:</label>
+              <input
+                type="range"
+                min={40}
+                max={audio.maxBPM - 20}
+                step={1}
+                value={audio.minBPM}
+                onChange={(e) => updateAudioConfig({ minBPM: parseFloat(e.target.value) })}
+                style={inputStyle}
+              />
+              <span style={{ fontSize: '11px', color: '#aaa' }}>{audio.minBPM} BPM</span>
+            </div>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '4px' }}>Max BPM:</label>
+              <input
+                type="range"
+                min={audio.minBPM + 20}
+                max={240}
+                step={1}
+                value={audio.maxBPM}
+                onChange={(e) => updateAudioConfig({ maxBPM: parseFloat(e.target.value) })}
+                style={inputStyle}
+              />
+              <span style={{ fontSize: '11px', color: '#aaa' }}>{audio.maxBPM} BPM</span>
+            </div>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '4px' }}>Tempo Genre:</label>
+              <select
+                value={audio.tempoGenre}
+                onChange={(e) => updateAudioConfig({ tempoGenre: e.target.value as TempoGenre })}
+                style={selectStyle}
+              >
+                <option value="auto">Auto (~120 BPM)</option>
+                <option value="house">House (~124 BPM)</option>
+                <option value="techno">Techno (~132 BPM)</option>
+                <option value="dnb">Drum &amp; Bass (~174 BPM)</option>
+                <option value="dubstep">Dubstep (~140 BPM)</option>
+                <option value="hiphop">Hip-Hop (~90 BPM)</option>
+              </select>
+            </div>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '4px' }}>Extra Features (Meyda):</label>
+              {MEYDA_FEATURES.map((feature) => (
+                <label key={feature} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px' }}>
+                  <input
+                    type="checkbox"
+                    checked={audio.extraFeatures.includes(feature)}
+                    onChange={(e) => updateAudioConfig({
+                      extraFeatures: e.target.checked
+                        ? [...audio.extraFeatures, feature]
+                        : audio.extraFeatures.filter((name) => name !== feature)
+                    })}
+                  />
+                  {feature}
+                </label>
+              ))}
+            </div>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <input
+                  type="checkbox"
+                  checked={audio.noiseReduction}
+                  onChange={(e) => updateAudioConfig({ noiseReduction: e.target.checked })}
+                />
+                Mic Noise Reduction
+              </label>
+              <span style={{ fontSize: '11px', color: '#aaa' }}>Uses the noise profile recorded with "Calibrer le silence"</span>
+            </div>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ display: 'block', marginBottom: '4px' }}>Noise Gate Threshold:</label>
+              <input
+                type="range"
+                min={0}
+                max={20}
+                step={1}
+                value={audio.noiseGateThreshold}
+                onChange={(e) => updateAudioConfig({ noiseGateThreshold: parseFloat(e.target.value) })}
+                style={inputStyle}
+              />
+              <span style={{ fontSize: '11px', color: '#aaa' }}>{audio.noiseGateThreshold} dB above noise</span>
+            </div>
+          </div>
+
+          {/* Frequency band layout */}
+          <div style={{ marginBottom: '20px' }}>
+            <label style={{ display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>Frequency Bands:</label>
+            {bandLayout.bands.map((band, index) => (
+              <div key={index} style={{ display: 'flex', gap: '4px', alignItems: 'center', marginBottom: '6px' }}>
+                <input
+                  type="text"
+                  value={band.label}
+                  onChange={(e) => updateBand(index, { label: e.target.value })}
+                  style={{ ...inputStyle, width: '90px', marginTop: 0 }}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  max={24000}
+                  value={band.minFrequency}
+                  onChange={(e) => updateBand(index, { minFrequency: parseFloat(e.target.value) || 0 })}
+                  style={{ ...inputStyle, width: '70px', marginTop: 0 }}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  max={24000}
+                  value={band.maxFrequency}
+                  onChange={(e) => updateBand(index, { maxFrequency: parseFloat(e.target.value) || 0 })}
+                  style={{ ...inputStyle, width: '70px', marginTop: 0 }}
+                />
+                <button
+                  onClick={() => removeBand(index)}
+                  style={{ background: 'none', border: 'none', color: '#aaa', cursor: 'pointer', fontSize: '14px' }}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <span style={{ fontSize: '11px', color: '#aaa' }}>Label, min Hz, max Hz</span>
+            <div style={{ display: 'flex', gap: '6px', marginTop: '8px' }}>
+              <button onClick={addBand} style={{ ...selectStyle, width: 'auto', marginTop: 0 }}>
+                + Add Band
+              </button>
+              <button
+                onClick={() => updateGlobalSettings({ bandLayout: DEFAULT_BAND_LAYOUT })}
+                style={{ ...selectStyle, width: 'auto', marginTop: 0 }}
+              >
+                Reset
+              </button>
+            </div>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '10px' }}>
+              <input
+                type="checkbox"
+                checked={bandLayout.aWeighting}
+                onChange={(e) => updateGlobalSettings({ bandLayout: { ...bandLayout, aWeighting: e.target.checked } })}
+              />
+              A-weighting
+            </label>
+          </div>
         </div>
       )}
 
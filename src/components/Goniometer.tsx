@@ -0,0 +1,66 @@
+import { useEffect, useRef } from 'react';
+import type { StereoAnalysers } from '../utils/analyserUtils';
+
+const SIZE = 140;
+
+/**
+ * Goniomètre (vectorscope) : trace les échantillons gauche/droite tournés de 45°.
+ * Un signal mono dessine une ligne verticale, un signal large un nuage,
+ * un signal en opposition de phase une ligne horizontale.
+ * Lit directement les analyseurs stéréo dans sa propre boucle d'animation.
+ */
+export function Goniometer({ analysers }: { analysers: StereoAnalysers | null }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !analysers) return;
+
+    const left = new Float32Array(analysers.left.fftSize);
+    const right = new Float32Array(analysers.right.fftSize);
+    let frameId = 0;
+
+    const draw = () => {
+      // La taille FFT peut changer à chaud depuis le panneau de configuration
+      const length = Math.min(analysers.left.fftSize, analysers.right.fftSize, left.length, right.length);
+      analysers.left.getFloatTimeDomainData(left.subarray(0, length));
+      analysers.right.getFloatTimeDomainData(right.subarray(0, length));
+
+      // Effet de rémanence
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+      ctx.fillRect(0, 0, SIZE, SIZE);
+
+      ctx.strokeStyle = '#333';
+      ctx.beginPath();
+      ctx.moveTo(SIZE / 2, 0);
+      ctx.lineTo(SIZE / 2, SIZE);
+      ctx.moveTo(0, SIZE / 2);
+      ctx.lineTo(SIZE, SIZE / 2);
+      ctx.stroke();
+
+      ctx.fillStyle = '#88ffff';
+      const half = SIZE / 2;
+      for (let i = 0; i < length; i += 2) {
+        // Rotation de 45° : M = (L+R)/√2 vertical, S = (R-L)/√2 horizontal
+        const x = half + ((right[i] - left[i]) * Math.SQRT1_2) * half;
+        const y = half - ((left[i] + right[i]) * Math.SQRT1_2) * half;
+        ctx.fillRect(x, y, 1, 1);
+      }
+
+      frameId = requestAnimationFrame(draw);
+    };
+
+    draw();
+    return () => cancelAnimationFrame(frameId);
+  }, [analysers]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={SIZE}
+      height={SIZE}
+      style={{ background: '#000', borderRadius: '4px', display: 'block', margin: '5px auto 0' }}
+    />
+  );
+}
@@ -0,0 +1,47 @@
+import type { FeatureExtractor } from './featureTypes';
+
+// Voice formants and most of the intelligibility sit in this range
+const VOICE_LOW = 300;
+const VOICE_HIGH = 3400;
+const SMOOTHING = 0.85;
+
+/**
+ * Vocal presence (0-1): share of the spectrum power in the voice range, weighted by
+ * how tonal that range is (1 - spectral flatness), since a voice is harmonic while
+ * hi-hats and noise spread evenly. Smoothed so it follows phrases, not syllables.
+ */
+export const vocalPresenceFeature: FeatureExtractor<{ value: number }> = {
+  id: 'vocalPresence',
+  name: 'Vocal Presence',
+  inputs: ['spectrumDb'],
+  outputs: [{ key: 'vocalPresence', label: 'Vocal Presence', min: 0, max: 1 }],
+  cost: 'low',
+  createState: () => ({ value: 0 }),
+  extract: ({ spectrumDb, sampleRate }, state) => {
+    const binSize = sampleRate / 2 / spectrumDb.length;
+    const low = Math.max(1, Math.floor(VOICE_LOW / binSize));
+    const high = Math.min(spectrumDb.length - 1, Math.ceil(VOICE_HIGH / binSize));
+
+    let total = 0;
+    let voice = 0;
+    let logSum = 0;
+    for (let i = 1; i < spectrumDb.length; i++) {
+      const power = Math.pow(10, spectrumDb[i] / 10);
+      total += power;
+      if (i >= low && i <= high) {
+        voice += power;
+        logSum += Math.log(power + 1e-12);
+      }
+    }
+
+    const count = high - low + 1;
+    const share = total > 0 ? voice / total : 0;
+    // Geometric / arithmetic mean: 1 for flat noise, near 0 for sparse harmonics
+    const flatness = voice > 0 ? Math.exp(logSum / count) / (voice / count) : 1;
+
+    const presence = Math.min(1, share * (1 - flatness) * 1.5);
+    state.value = state.value * SMOOTHING + presence * (1 - SMOOTHING);
+
+    return { vocalPresence: state.value };
+  },
+};
@@ -0,0 +1,67 @@
+/**
+ * Analysis Feature Extractor Types for AuraSync
+ *
+ * A feature extractor is a named analysis routine the engine runs on every frame.
+ * It declares what it reads, what it outputs (with ranges) and how expensive it is;
+ * its outputs are reported in `AudioData.extra` and offered as `extra:<key>` audio
+ * links and HUD entries without touching the rest of the pipeline.
+ *
+ * @module featureTypes
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+/**
+ * Per-frame data an extractor can read. Arrays are shared: never modify them.
+ */
+export interface FeatureInput {
+  /** Spectrum on the engine's 0-255 level scale. */
+  spectrum: Float32Array;
+  /** Spectrum in dB, clamped to the analyser range. */
+  spectrumDb: Float32Array;
+  /** Waveform samples (-1 to 1). */
+  samples: Float32Array;
+  /** Energies of the 40 Mel bands used by the onset function. */
+  melEnergies: Float32Array;
+  /** Sample rate of the audio, in Hz. */
+  sampleRate: number;
+  /** Timestamp of the frame in seconds. */
+  time: number;
+}
+
+/** Name of a `FeatureInput` field. */
+export type FeatureInputName = Exclude<keyof FeatureInput, 'sampleRate' | 'time'>;
+
+/**
+ * One value produced by an extractor.
+ */
+export interface FeatureOutput {
+  /** Key in `AudioData.extra`; must be unique across all extractors. */
+  key: string;
+  /** Label shown in the audio link options and the HUD. */
+  label: string;
+  /** Lowest expected value (maps to 0 when used as an audio link). */
+  min: number;
+  /** Highest expected value (maps to 1 when used as an audio link). */
+  max: number;
+}
+
+/**
+ * A named feature extractor.
+ *
+ * @typeParam State - Private state kept between frames (e.g. the previous value)
+ */
+export interface FeatureExtractor<State = unknown> {
+  id: string;
+  name: string;
+  /** Inputs the extractor reads, for documentation and tooling. */
+  inputs: FeatureInputName[];
+  outputs: FeatureOutput[];
+  /** Rough per-frame cost, to judge what can run in real time. */
+  cost: 'low' | 'medium' | 'high';
+  /** Creates the initial state; called again whenever the engine is reset. */
+  createState?(): State;
+  /** Computes the outputs of one frame, keyed by output key. */
+  extract(input: FeatureInput, state: State): Record<string, number>;
+}
@@ -0,0 +1,28 @@
+import type { FeatureExtractor, FeatureOutput } from './featureTypes';
+import { vocalPresenceFeature } from './VocalPresence';
+
+// Extractors run by the analysis engine on every frame, in this order
+export const features: FeatureExtractor[] = [
+    vocalPresenceFeature,
+];
+
+/**
+ * Adds an extractor at runtime (e.g. from a plugin module).
+ * Running engines pick it up on their next frame.
+ */
+export function registerFeature<State>(extractor: FeatureExtractor<State>): void {
+    if (features.some(feature => feature.id === extractor.id)) {
+        console.warn('⚠️ Feature already registered:', extractor.id);
+        return;
+    }
+    features.push(extractor as FeatureExtractor);
+}
+
+/** Looks up the declaration of an output key (for its label and range). */
+export function getFeatureOutput(key: string): FeatureOutput | undefined {
+    for (const feature of features) {
+        const output = feature.outputs.find(candidate => candidate.key === key);
+        if (output) return output;
+    }
+    return undefined;
+}
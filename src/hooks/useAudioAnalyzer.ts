@@ -1,8 +1,15 @@
 import { useEffect, useRef, useState } from 'react';
-import { BPMDetector } from '../utils/BPMDetector';
-import { YINPitchDetector } from '../utils/YINPitchDetector';
-import { TimbreAnalyzer, type TimbreProfile, type MusicalContext } from '../utils/timbreAnalyzer';
-import { createMelFilterbank, calculateRobustODF, calculateMedian } from '../utils/melFilterbank';
+import type { TimbreProfile, MusicalContext } from '../utils/timbreAnalyzer';
+import { AnalysisEngine, createEmptyAudioData, mergeFrameEvents, type AnalysisFrame } from '../utils/AnalysisEngine';
+import { configureAnalyser, createStereoAnalysers, readAnalyserFrame, readStereoFrame } from '../utils/analyserUtils';
+import type { StereoAnalysers } from '../utils/analyserUtils';
+import type { FeatureTimeline, LookaheadData } from '../utils/FeatureTimeline';
+import { analyzeTrack } from '../utils/offlineAnalyzer';
+import { loadNoiseProfile, saveNoiseProfile, type NoiseProfile } from '../utils/NoiseGate';
+import { WorkletCapture } from '../utils/workletCapture';
+import { AnalysisWorkerClient } from '../utils/analysisWorkerClient';
+import { TempoOverride, loadTempoOctave, saveTempoOctave, type TempoCommand } from '../utils/TempoOverride';
+import { useConfigStore } from '../store/configStore';
 
 // --- Type Definitions ---
 /**
@@ -45,6 +52,19 @@ export interface SpectralFeatures {
   rolloff: number; // Frequency below which 85% of energy is contained (0-1)
 }
 
+/**
+ * Timbre vector: Mel-frequency cepstral coefficients and their time derivatives.
+ * Two sounds at the same pitch (a pad and a lead) have different MFCCs.
+ */
+export interface TimbreVector {
+  /** 13 MFCCs in dB units: [0] follows the level, [1] the spectral tilt, the rest the envelope detail. */
+  mfcc: number[];
+  /** First derivative of each MFCC, per frame. */
+  delta: number[];
+  /** Second derivative of each MFCC, per frame. */
+  deltaDelta: number[];
+}
+
 /**
  * Represents melodic features of the audio.
  */
@@ -73,23 +93,160 @@ export interface RhythmicFeatures {
   beatPhase: number; // 0-1, position within current beat
   /** The detected rhythmic subdivision (1, 2, 4, 8, etc.). */
   subdivision: number; // 1, 2, 4, 8 etc - detected rhythmic subdivision
-  /** A measure of rhythmic stability (0-100). */
-  groove: number; // 0-100, measure of rhythmic stability
+  /** How far the rhythm departs from a rigid grid: swing, syncopation and microtiming combined (0-100). */
+  groove: number; // 0-100, 0 = rigid four-on-the-floor, high = shuffled and syncopated
+  /** Long/short duration ratio of the swung notes: 1 straight, 2 for a triplet shuffle. */
+  swingRatio: number;
+  /** The note level the swing was measured on (8 or 16). */
+  swingSubdivision: number;
+  /** Share of the rhythm on weak positions not resolved on the next strong one (0-100). */
+  syncopation: number; // 0-100
+  /** Mean distance of the onsets to the straight 16th-note grid, in milliseconds. */
+  microtiming: number;
+  /** The position within the current bar (0-1). */
+  barPhase: number; // 0-1, position within current bar
+  /** The beat of the current bar, counting from 1 (the downbeat). */
+  beatInBar: number; // 1..beatsPerBar
+  /** Bars started since tracking began; e.g. `bar % 8 === 0` on a downbeat starts an 8-bar phrase. */
+  bar: number;
+  /** Beats per bar of the inferred meter (4, 3, or 2 dotted-quarter beats in 6/8). */
+  beatsPerBar: number;
+  /** The inferred time signature. */
+  timeSignature: TimeSignature;
+  /** True for the frame where a bar starts (the "one"). */
+  downbeat: boolean;
+  /** The confidence in the downbeat position and meter (0-100). */
+  downbeatConfidence: number; // 0-100
+  /** Where `bpm` and `beatPhase` come from: detection, a manual grid (tap, entry, resync) or the tempo lock. */
+  tempoSource: TempoSource;
+  /** Tempi the detection hesitates between, best first: the detected tempo and its half/double time (0-padded to 4). */
+  tempoCandidates: number[];
+  /** The confidence in each tempo candidate (0-100). */
+  tempoCandidateConfidences: number[]; // 0-100
+  /** Octave correction chosen by the user: -1 is half time (÷2), 1 double time (x2). */
+  tempoOctave: number;
+  /** True for the frame a beat occurs: a beat of the beat tracker, or of the reported grid. */
+  isBeat: boolean;
+  /** The onset detection function value of the frame (Mel spectral flux, 0-1). */
+  onsetStrength: number;
+  /** Times of the last 8 beats in the analysis time base (seconds), most recent last, 0-padded in front. */
+  beatEventTimes: number[];
+  /** The strength of each of these beats (0-1). */
+  beatEventStrengths: number[];
+}
+
+/**
+ * Origin of the reported tempo and beat phase.
+ */
+export type TempoSource = 'detected' | 'manual' | 'locked';
+
+/**
+ * Time signatures recognised by the meter tracker.
+ */
+export type TimeSignature = '4/4' | '3/4' | '6/8';
+
+/**
+ * Analysis of one band of the user-defined band layout.
+ */
+export interface BandAnalysis {
+  /** Average (optionally A-weighted) magnitude in the band (0-1). */
+  energy: number;
+  /** Energy normalized by the band's own adaptive envelope (0-1). */
+  dynamic: number;
+  /** Transient detected in the band. */
+  transient: boolean;
+}
+
+/**
+ * Stereo image of the audio, from the per-channel analysers.
+ * A mono source reports identical channels (width 0, correlation 1, balance 0).
+ */
+export interface StereoFeatures {
+  /** Band energies of the left channel. */
+  left: FrequencyBands;
+  /** Band energies of the right channel. */
+  right: FrequencyBands;
+  /** RMS level of the left channel (0-1). */
+  leftLevel: number;
+  /** RMS level of the right channel (0-1). */
+  rightLevel: number;
+  /** Stereo width (0-1): share of the side (L-R) signal, 0 = mono. */
+  width: number;
+  /** Phase correlation (-1 to 1): 1 = mono, 0 = unrelated, -1 = out of phase. */
+  correlation: number;
+  /** Balance (-1 to 1): -1 = hard left, 0 = centre, 1 = hard right. */
+  balance: number;
+}
+
+/**
+ * Loudness per ITU-R BS.1770 / EBU R128. Levels are in LUFS (LU for ranges),
+ * floored at -70 for silence. Without per-channel data the mono mix counts as one channel.
+ */
+export interface LoudnessFeatures {
+  /** Momentary loudness (400 ms window), in LUFS. */
+  momentary: number;
+  /** Short-term loudness (3 s window), in LUFS. */
+  shortTerm: number;
+  /** Gated integrated loudness since the start of the measurement, in LUFS. */
+  integrated: number;
+  /** Loudness range (LRA), in LU. */
+  range: number;
+  /** True peak of the current frame, in dBTP. */
+  truePeak: number;
+  /** Highest true peak since the start of the measurement, in dBTP. */
+  maxTruePeak: number;
+  /** Momentary loudness relative to the integrated loudness, in LU (0 until measured). */
+  relative: number;
+}
+
+/** Structural section of a song. */
+export type SongSection = 'intro' | 'buildup' | 'drop' | 'breakdown' | 'outro';
+
+/**
+ * Current position in the song structure.
+ * Live, boundaries are found a few seconds late and `outro` is never reported;
+ * from a pre-analysed timeline they are exact.
+ */
+export interface StructureFeatures {
+  /** Label of the current section. */
+  section: SongSection;
+  /** Index of the current section, incremented at every boundary (compare it to detect changes). */
+  sectionIndex: number;
+  /** Seconds since the start of the current section. */
+  timeInSection: number;
+  /** Loudness of the section relative to the track average, in LU. */
+  level: number;
+  /** Structural novelty (0-1): how much the music is changing right now. */
+  novelty: number;
 }
 
 export interface AudioData {
   frequencies: Uint8Array;
+  /** Spectrum in dB, clamped to the analyser's [minDecibels, maxDecibels] range. */
+  spectrumDb: Float32Array;
   waveform: Uint8Array;
   volume: number;
   bands: FrequencyBands;
   dynamicBands: FrequencyBands;
   transients: Transients;
+  /** Broadcast loudness (momentary/short-term/integrated LUFS, LRA, true peak). */
+  loudness: LoudnessFeatures;
+  /** Song structure (section label and boundaries). */
+  structure: StructureFeatures;
+  /** Stereo image (per-channel bands, width, correlation, balance). */
+  stereo: StereoFeatures;
+  /** Extra features enabled by name in `AudioConfig.extraFeatures` (Meyda), keyed by feature name. */
+  extra: Record<string, number>;
+  /** Bands of the configured `BandLayout`, keyed by band id. */
+  customBands: Record<string, BandAnalysis>;
   energy: number;
   dropIntensity: number;
   spectralFeatures: SpectralFeatures;
   melodicFeatures: MelodicFeatures;
   rhythmicFeatures: RhythmicFeatures;
   timbreProfile: TimbreProfile;
+  /** MFCCs with deltas, for timbre comparison. */
+  timbreVector: TimbreVector;
   musicalContext: MusicalContext;
   bass: number;
   mids: number;
@@ -101,108 +258,40 @@ export interface AudioData {
 // --- Audio Source Types ---
 export type AudioSourceType = 'file' | 'microphone' | 'none';
 
-// --- Configuration ---
-const ENVELOPE_CONFIG = {
-  minDecay: 0.002,
-  maxDecay: 0.001,
-  minThreshold: 0.02,
-  adaptiveRate: 0.1,
-};
-
-const DROP_CONFIG = {
-  decay: 0.95,
-  threshold: 0.5,
-  cooldown: 500,
-};
-
-const TRANSIENT_CONFIG = {
-  bass: { threshold: 0.08, multiplier: 1.8, decay: 0.85 },     // Reduced from 0.12
-  mid: { threshold: 0.07, multiplier: 2.0, decay: 0.9 },      // Reduced from 0.10
-  treble: { threshold: 0.06, multiplier: 2.2, decay: 0.92 },  // Reduced from 0.08
-  overall: { threshold: 0.12, multiplier: 1.7, decay: 0.88 }, // Reduced from 0.15
-};
-
-// Musical note frequencies (A4 = 440Hz)
-const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-const A4_FREQ = 440;
-const A4_MIDI = 69;
-
-// Perceptual weighting curve (A-weighting approximation)
-const A_WEIGHTING = (freq: number): number => {
-  const f2 = freq * freq;
-  const f4 = f2 * f2;
-  return (12194 * 12194 * f4) /
-      ((f2 + 20.6 * 20.6) * Math.sqrt((f2 + 107.7 * 107.7) * (f2 + 737.9 * 737.9)) * (f2 + 12194 * 12194));
-};
-
-// Convert frequency to musical note
-const frequencyToNote = (freq: number): { note: string; cents: number } => {
-  if (freq <= 0) return { note: 'N/A', cents: 0 };
-
-  const midiNumber = 12 * Math.log2(freq / A4_FREQ) + A4_MIDI;
-  const roundedMidi = Math.round(midiNumber);
-  const cents = (midiNumber - roundedMidi) * 100;
-
-  const octave = Math.floor(roundedMidi / 12) - 1;
-  const noteIndex = roundedMidi % 12;
+/**
+ * Latest analysis frame, updated every frame without a React render.
+ * Read it from the render loop (`useFrame`); `audioData` state is only a throttled copy for the HUD.
+ */
+export interface LiveAudioFrame {
+  audioData: AudioData;
+  /** Upcoming events, only while a pre-analysed file is playing. */
+  lookahead?: LookaheadData;
+}
+
+/** Minimum delay between two HUD refreshes (ms): ~15 React renders per second. */
+const HUD_UPDATE_INTERVAL = 1000 / 15;
 
-  return {
-    note: `${NOTE_NAMES[noteIndex]}${octave}`,
-    cents: Math.round(cents)
-  };
-};
+/**
+ * State of the offline pre-analysis of the loaded file.
+ */
+export interface PreAnalysisState {
+  status: 'idle' | 'analyzing' | 'ready' | 'error';
+  /** Progress of the analysis (0-1). */
+  progress: number;
+}
 
 export function useAudioAnalyzer(audioSource?: HTMLAudioElement) {
-  const [audioData, setAudioData] = useState<AudioData>({
-    frequencies: new Uint8Array(512),
-    waveform: new Uint8Array(512),
-    volume: 0,
-    bands: { bass: 0, mid: 0, treble: 0 },
-    dynamicBands: { bass: 0, mid: 0, treble: 0 },
-    transients: { bass: false, mid: false, treble: false, overall: false },
-    energy: 0,
-    dropIntensity: 0,
-    spectralFeatures: { centroid: 0, spread: 0, flux: 0, rolloff: 0 },
-    melodicFeatures: {
-      dominantFrequency: 0,
-      dominantNote: 'N/A',
-      noteConfidence: 0,
-      harmonicContent: 0,
-      pitchClass: new Array(12).fill(0)
-    },
-    rhythmicFeatures: {
-      bpm: 0,
-      bpmConfidence: 0,
-      beatPhase: 0,
-      subdivision: 1,
-      groove: 0
-    },
-    timbreProfile: {
-      brightness: 0,
-      warmth: 0,
-      richness: 0,
-      clarity: 0,
-      attack: 0,
-      dominantChroma: 0,
-      harmonicComplexity: 0
-    },
-    musicalContext: {
-      notePresent: false,
-      noteStability: 0,
-      key: 'C',
-      mode: 'unknown',
-      tension: 0
-    },
-    bass: 0,
-    mids: 0,
-    treble: 0,
-    beat: false,
-    smoothedVolume: 0,
-  });
+  const [audioData, setAudioData] = useState<AudioData>(createEmptyAudioData);
+  // Dernière trame, lue par la boucle de rendu sans passer par React
+  const liveFrameRef = useRef<LiveAudioFrame>({ audioData });
+  const lastHudUpdateRef = useRef(0);
 
   const [sourceType, setSourceType] = useState<AudioSourceType>('none');
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
+  // Analyseurs gauche/droite (après séparation des canaux)
+  const stereoAnalysersRef = useRef<StereoAnalysers | null>(null);
+  const [stereoAnalysers, setStereoAnalysers] = useState<StereoAnalysers | null>(null);
   const animationRef = useRef<number>(0);
 
   // --- NOUVEAU: Refs pour la gestion des sources avec GainNodes ---
@@ -212,438 +301,270 @@ export function useAudioAnalyzer(audioSource?: HTMLAudioElement) {
   const micGainNodeRef = useRef<GainNode | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
 
-  // --- Analysis state refs ---
-  const prevBandsRef = useRef<FrequencyBands>({ bass: 0, mid: 0, treble: 0 });
-  const prevFrequenciesRef = useRef<Float32Array>(new Float32Array(512));
-  const transientStateRef = useRef({
-    bass: { value: 0, history: new Array(10).fill(0) },
-    mid: { value: 0, history: new Array(10).fill(0) },
-    treble: { value: 0, history: new Array(10).fill(0) },
-    overall: { value: 0, history: new Array(10).fill(0) },
-  });
-  const bandEnvelopeRef = useRef({
-    bass: { min: 0.1, max: 0.2 },
-    mid: { min: 0.1, max: 0.2 },
-    treble: { min: 0.1, max: 0.2 },
-  });
-  const energyEnvelopeRef = useRef({ min: 0.1, max: 0.2 });
-  const prevNormalizedEnergyRef = useRef(0);
-  const dropIntensityRef = useRef(0);
-  const lastDropTimeRef = useRef(0);
-
-  // NEW: YIN Pitch Detector for superior fundamental frequency detection
-  const yinDetectorRef = useRef<YINPitchDetector | null>(null);
-
-  // NEW: Timbre Analyzer for advanced musical analysis
-  const timbreAnalyzerRef = useRef<TimbreAnalyzer | null>(null);
-
-  // NOUVEAU: Refs pour le BPM Detector basé sur l'autocorrélation
-  const bpmDetectorRef = useRef(new BPMDetector());
-  const odfHistoryRef = useRef<number[]>([]); // Historique de l'ODF pour l'ACF
-  const lastBeatTimeRef = useRef(0);
-  const ODF_SAMPLE_RATE = 43; // Réduit de 45 à 43 Hz pour exactement 256 samples = 5.95 secondes
-  const ODF_HISTORY_SIZE = 256; // Environ 5.6 secondes d'historique
-
-  // FIXED: Store real sample rate from AudioContext
-  const realSampleRateRef = useRef<number>(44100); // Default fallback
-
-  // NEW: Chromagram smoothing
-  const chromaSmoothingRef = useRef<number[]>(new Array(12).fill(0));
-  const CHROMA_SMOOTHING = 0.85; // Smoothing factor
-
-  // NEW: Mel filterbank for robust ODF
-  const melFilterbankRef = useRef<number[][] | null>(null);
-  const prevMelEnergiesRef = useRef<Float32Array | null>(null);
-  const MEL_BANDS = 40; // Number of Mel bands for ODF calculation
-
-  // --- Enhanced Analysis Functions ---
-
-  const calculateBands = (frequencies: Uint8Array, sampleRate: number): FrequencyBands => {
-    const nyquist = sampleRate / 2;
-    const binSize = nyquist / frequencies.length;
-
-    const bassEnd = Math.floor(250 / binSize);
-    const midEnd = Math.floor(4000 / binSize);
-
-    let bass = 0, mid = 0, treble = 0;
-    let bassWeight = 0, midWeight = 0, trebleWeight = 0;
-
-    for (let i = 1; i < frequencies.length; i++) {
-      const freq = i * binSize;
-      const magnitude = frequencies[i] / 255;
-
-      const weight = A_WEIGHTING(freq);
-      const weightedMagnitude = magnitude * weight;
-
-      if (i <= bassEnd) {
-        bass += weightedMagnitude;
-        bassWeight += weight;
-      } else if (i <= midEnd) {
-        mid += weightedMagnitude;
-        midWeight += weight;
-      } else if (freq < nyquist - binSize) {
-        treble += weightedMagnitude;
-        trebleWeight += weight;
-      }
-    }
+  // --- Analysis engine (shared with the store and the worker) ---
+  const engineRef = useRef<AnalysisEngine | null>(null);
 
-    return {
-      bass: bassWeight > 0 ? bass / bassWeight : 0,
-      mid: midWeight > 0 ? mid / midWeight : 0,
-      treble: trebleWeight > 0 ? treble / trebleWeight : 0,
-    };
-  };
-
-  const calculateSpectralFeatures = (frequencies: Uint8Array, sampleRate: number): SpectralFeatures => {
-    const nyquist = sampleRate / 2;
-    const binSize = nyquist / frequencies.length;
-
-    let totalEnergy = 0;
-    let centroidSum = 0;
-
-    // NEW: Initialize Mel filterbank if not already done
-    if (!melFilterbankRef.current) {
-      melFilterbankRef.current = createMelFilterbank(frequencies.length * 2, MEL_BANDS, sampleRate);
-      prevMelEnergiesRef.current = new Float32Array(MEL_BANDS).fill(0);
-      console.log('🎵 Mel Filterbank initialized with', MEL_BANDS, 'bands for robust ODF');
-    }
+  // --- Capture AudioWorklet : trames à pas fixe, analysées dès leur arrivée ---
+  const captureRef = useRef<WorkletCapture | null>(null);
+  // Dernier résultat du worklet pas encore affiché (la boucle rAF ne fait que l'afficher)
+  const pendingDataRef = useRef<AudioData | null>(null);
+  const captureStateRef = useRef<'idle' | 'starting' | 'unavailable'>('idle');
 
-    // Calculate spectral centroid, spread, and rolloff
-    for (let i = 1; i < frequencies.length - 1; i++) {
-      const magnitude = frequencies[i] / 255;
-      const freq = i * binSize;
+  // --- Analyse dans un worker (résultats lus en mémoire partagée) ---
+  const workerClientRef = useRef<AnalysisWorkerClient | null>(null);
 
-      totalEnergy += magnitude;
-      centroidSum += magnitude * freq;
-    }
+  // --- Découpage en bandes défini par l'utilisateur ---
+  const bandLayout = useConfigStore((state) => state.global.bandLayout);
+  const bandLayoutRef = useRef(bandLayout);
 
-    const centroid = totalEnergy > 0 ? (centroidSum / totalEnergy) / nyquist : 0;
+  useEffect(() => {
+    bandLayoutRef.current = bandLayout;
+    engineRef.current?.setBandLayout(bandLayout);
+    workerClientRef.current?.configure({ bandLayout });
+  }, [bandLayout]);
 
-    let cumulativeEnergy = 0;
-    let rolloff = 0;
-    for (let i = 1; i < frequencies.length - 1; i++) {
-      cumulativeEnergy += frequencies[i] / 255;
-      if (cumulativeEnergy >= totalEnergy * 0.85) {
-        rolloff = (i * binSize) / nyquist;
-        break;
-      }
-    }
+  // --- Configuration de l'analyseur (modifiable à chaud) ---
+  const audioConfig = useConfigStore((state) => state.audio);
+  const audioConfigRef = useRef(audioConfig);
 
-    let spreadSum = 0;
-    if (totalEnergy > 0) {
-      const centroidHz = centroid * nyquist;
-      for (let i = 1; i < frequencies.length - 1; i++) {
-        const magnitude = frequencies[i] / 255;
-        const freq = i * binSize;
-        spreadSum += magnitude * Math.pow(freq - centroidHz, 2);
-      }
-    }
-    const spread = totalEnergy > 0 ? Math.sqrt(spreadSum / totalEnergy) / nyquist : 0;
-
-    // NEW: Calculate robust multi-band ODF instead of simple spectral flux
-    let flux = 0;
-    if (melFilterbankRef.current && prevMelEnergiesRef.current) {
-      flux = calculateRobustODF(
-          frequencies,
-          prevMelEnergiesRef.current,
-          melFilterbankRef.current,
-          MEL_BANDS
-      );
-    } else {
-      // Fallback to old method if filterbank not ready
-      const spectralChanges: number[] = [];
-      for (let i = 1; i < frequencies.length - 1; i++) {
-        const magnitude = frequencies[i] / 255;
-        const prevMag = prevFrequenciesRef.current[i];
-        const change = magnitude - prevMag;
-        if (change > 0) {
-          spectralChanges.push(change);
-        }
-      }
-      flux = calculateMedian(spectralChanges);
-    }
+  useEffect(() => {
+    audioConfigRef.current = audioConfig;
+    if (analyserRef.current) configureAnalyser(analyserRef.current, audioConfig);
+    if (stereoAnalysersRef.current) {
+      configureAnalyser(stereoAnalysersRef.current.left, audioConfig);
+      configureAnalyser(stereoAnalysersRef.current.right, audioConfig);
+    }
+    // Le moteur reconstruit le banc de filtres Mel et les buffers YIN
+    engineRef.current?.setAudioConfig(audioConfig);
+    workerClientRef.current?.configure({ audioConfig });
+    // Les changements de mode de capture et de thread sont appliqués par la boucle d'analyse
+    captureRef.current?.configure(audioConfig);
+  }, [audioConfig]);
+
+  // --- Pré-analyse hors ligne du fichier chargé ---
+  // La boucle d'analyse est une closure créée une seule fois : elle lit la source,
+  // le type de source et la timeline via des refs pour toujours voir les valeurs à jour.
+  const [timeline, setTimeline] = useState<FeatureTimeline | null>(null);
+  const [preAnalysis, setPreAnalysis] = useState<PreAnalysisState>({ status: 'idle', progress: 0 });
+  const [lookahead, setLookahead] = useState<LookaheadData | undefined>(undefined);
+  const hasLookaheadRef = useRef(false);
+  const timelineRef = useRef<FeatureTimeline | null>(null);
+  // Position de lecture au rendu précédent : les battements passés depuis sont signalés une fois
+  const timelineTimeRef = useRef<number | undefined>(undefined);
+  const analysisIdRef = useRef(0);
+  const audioSourceRef = useRef<HTMLAudioElement | undefined>(audioSource);
+  const sourceTypeRef = useRef<AudioSourceType>('none');
 
-    // Update frequency history for potential fallback
-    for (let i = 0; i < frequencies.length; i++) {
-      prevFrequenciesRef.current[i] = frequencies[i] / 255;
-    }
+  useEffect(() => {
+    audioSourceRef.current = audioSource;
+  }, [audioSource]);
 
-    return {
-      centroid: Math.min(1, centroid),
-      spread: Math.min(1, spread),
-      flux: Math.min(1, flux * 10), // Scale for better dynamic range
-      rolloff: Math.min(1, rolloff),
-    };
+  useEffect(() => {
+    sourceTypeRef.current = sourceType;
+  }, [sourceType]);
+
+  // --- Profil de bruit du micro (calibration du silence, un profil par périphérique) ---
+  const [noiseProfile, setNoiseProfile] = useState<NoiseProfile | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const noiseProfileRef = useRef<NoiseProfile | null>(null);
+  const micDeviceIdRef = useRef<string | null>(null);
+
+  const applyNoiseProfile = (profile: NoiseProfile | null) => {
+    noiseProfileRef.current = profile;
+    setNoiseProfile(profile);
+    engineRef.current?.setNoiseProfile(profile);
+    workerClientRef.current?.configure({ noiseProfile: profile });
   };
 
-  // YIN-based melodic analysis with robust chromagram
-  const calculateMelodicFeatures = (
-      waveform: Uint8Array,
-      frequencies: Uint8Array,
-      sampleRate: number
-  ): MelodicFeatures => {
-    // Initialize YIN detector with improved settings
-    if (!yinDetectorRef.current) {
-      yinDetectorRef.current = new YINPitchDetector(sampleRate, 4096, 0.15); // Larger buffer, higher threshold
+  // Enregistre le bruit ambiant pendant `duration` secondes : la salle doit être silencieuse
+  const calibrateNoise = async (duration = 3) => {
+    const engine = engineRef.current;
+    if (!engine || sourceTypeRef.current !== 'microphone') {
+      console.warn('⚠️ La calibration du bruit nécessite le microphone actif.');
+      return;
     }
-
-    // Convert waveform for YIN algorithm with better normalization
-    const float32Waveform = new Float32Array(waveform.length);
-    let maxValue = 0;
-
-    // First pass: find max value for proper normalization
-    for (let i = 0; i < waveform.length; i++) {
-      const sample = Math.abs((waveform[i] - 128) / 128);
-      if (sample > maxValue) maxValue = sample;
+    if (workerClientRef.current) {
+      console.warn('⚠️ La calibration du bruit se fait avec l\'analyse sur le thread principal.');
+      return;
     }
 
-    // Second pass: normalize properly
-    const normalizationFactor = maxValue > 0 ? 1 / maxValue : 1;
-    for (let i = 0; i < waveform.length; i++) {
-      float32Waveform[i] = ((waveform[i] - 128) / 128) * normalizationFactor;
+    setIsCalibrating(true);
+    console.log(`🔇 Calibration du bruit ambiant (${duration} s)...`);
+    try {
+      const profile = await engine.calibrateNoise(duration);
+      if (micDeviceIdRef.current) saveNoiseProfile(micDeviceIdRef.current, profile);
+      applyNoiseProfile(profile);
+      console.log('✅ Profil de bruit enregistré pour ce périphérique.');
+    } catch (error) {
+      // Source changée, capture arrêtée ou plus de trames : le profil précédent reste actif
+      console.warn('⚠️ Calibration du bruit interrompue:', error);
+    } finally {
+      setIsCalibrating(false);
     }
+  };
 
-    // YIN pitch detection
-    const pitchResult = yinDetectorRef.current.detectPitch(float32Waveform);
-    let dominantFreq = pitchResult.frequency;
-    let noteConfidence = pitchResult.probability;
-
-    // FALLBACK: If YIN fails, use spectral peak detection
-    if (dominantFreq <= 0 || noteConfidence < 0.3) {
-      const nyquist = sampleRate / 2;
-      const binSize = nyquist / frequencies.length;
-
-      let maxMagnitude = 0;
-      let maxBin = 0;
-
-      // Focus on melodic range (80Hz - 1000Hz)
-      const minBin = Math.floor(80 / binSize);
-      const maxBinLimit = Math.floor(1000 / binSize);
-
-      for (let i = minBin; i < Math.min(maxBinLimit, frequencies.length); i++) {
-        if (frequencies[i] > maxMagnitude) {
-          maxMagnitude = frequencies[i];
-          maxBin = i;
-        }
-      }
-
-      if (maxMagnitude > 30) { // Minimum threshold for detection
-        // Parabolic interpolation for better accuracy
-        if (maxBin > 0 && maxBin < frequencies.length - 1) {
-          const y1 = frequencies[maxBin - 1];
-          const y2 = frequencies[maxBin];
-          const y3 = frequencies[maxBin + 1];
-
-          const x0 = (y3 - y1) / (2 * (2 * y2 - y1 - y3));
-          dominantFreq = (maxBin + x0) * binSize;
-        } else {
-          dominantFreq = maxBin * binSize;
-        }
-
-        noteConfidence = Math.min(0.8, maxMagnitude / 255); // Cap confidence from spectral method
-      }
+  const getEngine = () => {
+    if (!engineRef.current) {
+      engineRef.current = new AnalysisEngine();
+      engineRef.current.setBandLayout(bandLayoutRef.current);
+      engineRef.current.setAudioConfig(audioConfigRef.current);
+      engineRef.current.setNoiseProfile(noiseProfileRef.current);
     }
+    return engineRef.current;
+  };
 
-    const { note } = frequencyToNote(dominantFreq);
-
-    // Robust chromagram calculation with temporal smoothing
-    const chroma = new Array(12).fill(0);
-    const nyquist = sampleRate / 2;
-    const binSize = nyquist / frequencies.length;
-
-    // Map spectrum to pitch classes with proper weighting
-    for (let i = 1; i < frequencies.length; i++) {
-      const freq = i * binSize;
-      const magnitude = frequencies[i] / 255;
-
-      if (freq < 80 || freq > 4000) continue;
-
-      // Find closest MIDI note
-      const midiNote = 12 * Math.log2(freq / 440) + 69;
-      const pitchClass = ((Math.round(midiNote) % 12) + 12) % 12;
-
-      // Weight by magnitude and perceptual importance
-      const weight = magnitude * A_WEIGHTING(freq);
-
-      // Distribute energy to neighboring pitch classes for robustness
-      chroma[pitchClass] += weight * 0.7;
-      chroma[(pitchClass + 11) % 12] += weight * 0.15;
-      chroma[(pitchClass + 1) % 12] += weight * 0.15;
+  // --- Correction manuelle de la grille (tap tempo, BPM, décalage de phase, resync, verrou) ---
+  // Appliquée par le moteur qui analyse, sur sa prochaine trame. Les trames pré-analysées ne
+  // passent pas par le moteur : elles ont leur propre correction, sur le temps de lecture.
+  const timelineTempoRef = useRef(new TempoOverride());
+  const timelinePhaseRef = useRef(0);
+
+  // Un tap est daté à l'appel (dans le gestionnaire d'événement), dans la base de temps des
+  // trames : les trames sont trop espacées pour dater les taps à leur arrivée
+  const stampTap = (command: TempoCommand, time: number): TempoCommand =>
+      command.type === 'tap' && command.at === undefined ? { ...command, at: time } : command;
+
+  const tempoCommand = (command: TempoCommand) => {
+    // L'octave vaut pour les deux grilles, le reste pour celle qui est jouée
+    const element = audioSourceRef.current;
+    if (command.type === 'octave' || (timelineRef.current && sourceTypeRef.current === 'file' && element)) {
+      timelineTempoRef.current.command(stampTap(command, element?.currentTime ?? 0));
+      if (command.type !== 'octave') return;
+    }
+    // Trames du worklet en temps du contexte, celles de l'analyseur en performance.now()
+    const context = audioContextRef.current;
+    const stamped = stampTap(command, captureRef.current && context ? context.currentTime : performance.now() / 1000);
+    if (workerClientRef.current) {
+      workerClientRef.current.configure({ tempoCommand: stamped });
+    } else {
+      getEngine().tempoCommand(stamped);
     }
+  };
 
-    // Normalize
-    const chromaSum = chroma.reduce((a, b) => a + b, 0);
-    if (chromaSum > 0) {
-      for (let i = 0; i < 12; i++) {
-        chroma[i] /= chromaSum;
-      }
-    }
+  // --- Octave du tempo (x2 / ÷2), mémorisée par morceau ---
+  const trackIdRef = useRef<string | null>(null);
+  const tempoOctaveRef = useRef(0);
 
-    // Apply temporal smoothing
-    for (let i = 0; i < 12; i++) {
-      chromaSmoothingRef.current[i] = chromaSmoothingRef.current[i] * CHROMA_SMOOTHING +
-          chroma[i] * (1 - CHROMA_SMOOTHING);
-      chroma[i] = chromaSmoothingRef.current[i];
-    }
+  const applyTempoOctave = (octave: number) => {
+    tempoOctaveRef.current = octave;
+    tempoCommand({ type: 'octave', octave });
+  };
 
-    // Calculate harmonic content - FIXED
-    let harmonicContent = 0;
-    if (dominantFreq > 0 && frequencies.length > 0) {
-      const fundamentalBin = Math.floor(dominantFreq / binSize);
-      let fundamentalEnergy = 0;
-      let harmonicEnergy = 0;
-
-      // Get fundamental energy (average over 3 bins for robustness)
-      for (let i = -1; i <= 1; i++) {
-        const bin = fundamentalBin + i;
-        if (bin >= 0 && bin < frequencies.length) {
-          fundamentalEnergy += frequencies[bin] / 255;
-        }
-      }
-      fundamentalEnergy /= 3;
-
-      // Sum harmonic energies
-      for (let harmonic = 2; harmonic <= 6; harmonic++) {
-        const harmonicBin = Math.floor((dominantFreq * harmonic) / binSize);
-        if (harmonicBin < frequencies.length) {
-          // Average over neighboring bins
-          let energy = 0;
-          for (let i = -1; i <= 1; i++) {
-            const bin = harmonicBin + i;
-            if (bin >= 0 && bin < frequencies.length) {
-              energy += frequencies[bin] / 255;
-            }
-          }
-          harmonicEnergy += energy / 3;
-        }
-      }
+  // Nouveau fichier : reprend l'octave choisie la dernière fois pour ce morceau
+  const setTrack = (trackId: string | null) => {
+    trackIdRef.current = trackId;
+    applyTempoOctave(trackId ? loadTempoOctave(trackId) : 0);
+  };
 
-      // Calculate ratio (0-1 range)
-      if (fundamentalEnergy > 0.01) {
-        harmonicContent = Math.min(1, harmonicEnergy / (fundamentalEnergy * 5));
-      }
-    }
+  // Choix de l'utilisateur, enregistré pour le fichier en cours (pas pour le micro)
+  const setTempoOctave = (octave: number) => {
+    applyTempoOctave(octave);
+    if (trackIdRef.current && sourceTypeRef.current === 'file') saveTempoOctave(trackIdRef.current, octave);
+  };
 
+  // Correction manuelle d'une trame pré-analysée, au temps `time` du fichier
+  const withTempoOverride = (frame: AudioData, time: number): AudioData => {
+    const rhythm = frame.rhythmicFeatures;
+    // Battements écoulés selon la grille du fichier : reste juste après un saut dans le morceau
+    const beats = (rhythm.bar - 1) * rhythm.beatsPerBar + rhythm.beatInBar - 1;
+    const tempo = timelineTempoRef.current.apply(time, rhythm.bpm, rhythm.beatPhase, beats);
+    const prevPhase = timelinePhaseRef.current;
+    timelinePhaseRef.current = tempo.beatPhase;
+    if (tempo.source === 'detected' && tempo.octave === 0) return frame;
     return {
-      dominantFrequency: dominantFreq,
-      dominantNote: note,
-      noteConfidence,
-      harmonicContent,
-      pitchClass: chromaSmoothingRef.current
+      ...frame,
+      rhythmicFeatures: {
+        ...rhythm,
+        bpm: Math.round(tempo.bpm * 10) / 10,
+        beatPhase: Math.round(tempo.beatPhase * 1000) / 1000,
+        tempoSource: tempo.source,
+        tempoOctave: tempo.octave,
+        // Les battements suivent la grille corrigée
+        isBeat: tempo.beatPhase < prevPhase - 0.5
+      }
     };
   };
 
-  // Autocorrelation-based rhythmic analysis
-  const calculateRhythmicFeatures = (spectralFlux: number, currentTime: number, isOverallTransient: boolean): RhythmicFeatures => {
-    // Update ODF history
-    odfHistoryRef.current.push(spectralFlux);
-    if (odfHistoryRef.current.length > ODF_HISTORY_SIZE) {
-      odfHistoryRef.current.shift();
-    }
-
-    // BPM detection via autocorrelation
-    const bpm = bpmDetectorRef.current.detectBPM(odfHistoryRef.current, ODF_SAMPLE_RATE);
-    const confidence = bpmDetectorRef.current.getConfidence();
-
-    // Debug logging for BPM detection
-    if (bpm > 0 && confidence > 0.5) {
-      console.log(`BPM: ${bpm.toFixed(1)}, Conf: ${(confidence * 100).toFixed(0)}%`);
-    }
-
-    // Update beat timing on strong transients
-    if (isOverallTransient) {
-      lastBeatTimeRef.current = currentTime;
-    }
-
-    const beatPhase = bpmDetectorRef.current.getBeatPhase(currentTime, bpm, lastBeatTimeRef.current);
+  // Les trames du worklet sont datées en temps du contexte, celles de l'analyseur en
+  // performance.now() : on repart d'un historique vide à chaque changement de mode,
+  // en gardant les corrections manuelles du tempo (BPM, verrou, décalage, octave)
+  const startCapture = async (context: AudioContext) => {
+    captureStateRef.current = 'starting';
+    const capture = await WorkletCapture.create(
+        context,
+        [fileGainNodeRef.current!, micGainNodeRef.current!],
+        audioConfigRef.current,
+        (frame) => analyzeFrame(frame)
+    );
+    // AudioWorklet indisponible : on reste sur l'analyseur sans réessayer
+    captureStateRef.current = capture ? 'idle' : 'unavailable';
+    if (!capture) return;
+    captureRef.current = capture;
+    engineRef.current?.resetTimeBase();
+  };
 
-    // Detect rhythmic subdivision
-    let subdivision = 1;
-    if (audioData.transients) {
-      const transientCount = [
-        audioData.transients.bass,
-        audioData.transients.mid,
-        audioData.transients.treble
-      ].filter(Boolean).length;
+  const stopCapture = () => {
+    captureRef.current?.disconnect();
+    captureRef.current = null;
+    pendingDataRef.current = null;
+    engineRef.current?.resetTimeBase();
+  };
 
-      if (transientCount >= 2) subdivision = 2;
-      if (transientCount === 3) subdivision = 4;
+  // Suit `captureMode` : démarre ou arrête le worklet quand la configuration change
+  const syncCaptureMode = () => {
+    const context = audioContextRef.current;
+    const wantsWorklet = audioConfigRef.current.captureMode === 'worklet';
+    if (wantsWorklet && !captureRef.current && context && captureStateRef.current === 'idle') {
+      startCapture(context);
+    } else if (!wantsWorklet && captureRef.current) {
+      stopCapture();
     }
-
-    return {
-      bpm: Math.round(bpm * 10) / 10,
-      bpmConfidence: confidence * 100,
-      beatPhase: Math.round(beatPhase * 1000) / 1000,
-      subdivision,
-      groove: confidence * 100
-    };
   };
 
-  const calculateDynamicValue = (value: number, envelope: { min: number; max: number }): number => {
-    if (value > envelope.max) {
-      envelope.max = value * (1 - ENVELOPE_CONFIG.adaptiveRate) + envelope.max * ENVELOPE_CONFIG.adaptiveRate;
-    } else {
-      envelope.max *= (1 - ENVELOPE_CONFIG.maxDecay);
+  // Suit `analysisThread` : démarre ou arrête le worker d'analyse.
+  // Les corrections manuelles du tempo (BPM, verrou, décalage, grille) suivent l'analyse.
+  const syncAnalysisThread = () => {
+    const wantsWorker = audioConfigRef.current.analysisThread === 'worker';
+    if (wantsWorker && !workerClientRef.current) {
+      workerClientRef.current = new AnalysisWorkerClient();
+      const engine = engineRef.current;
+      workerClientRef.current.configure({
+        bandLayout: bandLayoutRef.current,
+        audioConfig: audioConfigRef.current,
+        noiseProfile: noiseProfileRef.current,
+        tempoCommand: engine
+          ? { type: 'restore', state: engine.getTempoState() }
+          : { type: 'octave', octave: tempoOctaveRef.current }
+      });
+    } else if (!wantsWorker && workerClientRef.current) {
+      // Le moteur local reprend tout de suite ; les corrections du worker lui sont rendues à sa réponse
+      const client = workerClientRef.current;
+      workerClientRef.current = null;
+      client.requestTempoState().then((state) => {
+        if (state) getEngine().tempoCommand({ type: 'restore', state });
+        client.terminate();
+      });
     }
+  };
 
-    if (value < envelope.min) {
-      envelope.min = value * (1 - ENVELOPE_CONFIG.adaptiveRate) + envelope.min * ENVELOPE_CONFIG.adaptiveRate;
+  // Analyse une trame, localement ou dans le worker
+  const analyzeFrame = (frame: AnalysisFrame) => {
+    syncAnalysisThread();
+    if (workerClientRef.current) {
+      workerClientRef.current.analyze(frame);
     } else {
-      envelope.min = envelope.min * (1 + ENVELOPE_CONFIG.minDecay) + ENVELOPE_CONFIG.minThreshold;
+      // Plusieurs trames du worklet entre deux rendus : les événements (transitoires,
+      // battements) de chacune sont gardés
+      pendingDataRef.current = mergeFrameEvents(pendingDataRef.current, getEngine().analyze(frame));
     }
-
-    envelope.min = Math.max(0, Math.min(envelope.min, 0.9));
-    envelope.max = Math.max(envelope.min + 0.1, Math.min(envelope.max, 1));
-
-    const range = envelope.max - envelope.min;
-    return range > 0.01 ? Math.max(0, Math.min(1, (value - envelope.min) / range)) : value;
-  };
-
-  const detectTransients = (currentBands: FrequencyBands, energy: number): Transients => {
-    const transients: Transients = { bass: false, mid: false, treble: false, overall: false };
-
-    const detectBandTransient = (
-        current: number,
-        band: 'bass' | 'mid' | 'treble' | 'overall',
-        value: number = current
-    ): boolean => {
-      const config = TRANSIENT_CONFIG[band];
-      const state = transientStateRef.current[band];
-
-      state.history.shift();
-      state.history.push(value);
-
-      const avgHistory = state.history.reduce((a, b) => a + b, 0) / state.history.length;
-      const adaptiveThreshold = Math.max(config.threshold, avgHistory * config.multiplier);
-
-      const isTransient = value > adaptiveThreshold && value > state.value * config.multiplier;
-
-      state.value = state.value * config.decay + value * (1 - config.decay);
-
-      return isTransient;
-    };
-
-    transients.bass = detectBandTransient(currentBands.bass, 'bass');
-    transients.mid = detectBandTransient(currentBands.mid, 'mid');
-    transients.treble = detectBandTransient(currentBands.treble, 'treble');
-    transients.overall = detectBandTransient(energy, 'overall');
-
-    return transients;
   };
 
-  const detectDrop = (normalizedEnergy: number): number => {
-    const now = Date.now();
-    const surge = normalizedEnergy - prevNormalizedEnergyRef.current;
-
-    if (surge > DROP_CONFIG.threshold && now - lastDropTimeRef.current > DROP_CONFIG.cooldown) {
-      dropIntensityRef.current = Math.min(1, surge);
-      lastDropTimeRef.current = now;
-    }
-
-    prevNormalizedEnergyRef.current = normalizedEnergy;
-    dropIntensityRef.current *= DROP_CONFIG.decay;
-
-    return dropIntensityRef.current;
+  // Dernier résultat pas encore affiché (null si rien de nouveau)
+  const takeLatestData = () => {
+    if (workerClientRef.current) return workerClientRef.current.read();
+    const latest = pendingDataRef.current;
+    pendingDataRef.current = null;
+    return latest;
   };
 
   // --- NOUVEAU: Initialisation et gestion de l'AudioContext et des sources ---
@@ -653,14 +574,10 @@ export function useAudioAnalyzer(audioSource?: HTMLAudioElement) {
     try {
       const context = new (window.AudioContext || (window as any).webkitAudioContext)();
       audioContextRef.current = context;
-      realSampleRateRef.current = context.sampleRate;
 
       // Créer l'analyseur
       const analyser = context.createAnalyser();
-      analyser.fftSize = 2048;
-      analyser.smoothingTimeConstant = 0.75;
-      analyser.minDecibels = -90;
-      analyser.maxDecibels = -10;
+      configureAnalyser(analyser, audioConfigRef.current);
       analyserRef.current = analyser;
 
       // Créer les GainNodes pour chaque source
@@ -680,6 +597,11 @@ export function useAudioAnalyzer(audioSource?: HTMLAudioElement) {
       micGainNodeRef.current.connect(analyser);
       console.log('✓ Sources (fichier/micro) connectées à l\'analyseur pour la visualisation.');
 
+      // Branche stéréo : séparation des canaux, un analyseur par côté
+      const stereo = createStereoAnalysers(context, [fileGainNodeRef.current, micGainNodeRef.current], audioConfigRef.current);
+      stereoAnalysersRef.current = stereo;
+      setStereoAnalysers(stereo);
+
       // 2. Connecter UNIQUEMENT la source fichier à la destination (haut-parleurs).
       //    Ceci est pour la *lecture audio*.
       fileGainNodeRef.current.connect(context.destination);
@@ -708,6 +630,9 @@ export function useAudioAnalyzer(audioSource?: HTMLAudioElement) {
   const switchAudioSource = async (source: AudioSourceType) => {
     console.log('🔧 switchAudioSource called with:', source);
 
+    // Une calibration en cours mesurerait l'ancienne source
+    engineRef.current?.cancelNoiseCalibration();
+
     // Initialise l'AudioContext si ce n'est pas déjà fait
     await initializeAudio();
 
@@ -745,6 +670,9 @@ export function useAudioAnalyzer(audioSource?: HTMLAudioElement) {
         }
         console.log('🎤 Microphone désactivé.');
       }
+      // La réduction de bruit ne concerne que le micro
+      applyNoiseProfile(null);
+      applyTempoOctave(trackIdRef.current ? loadTempoOctave(trackIdRef.current) : 0);
 
       // Connecter l'élément audio s'il existe et n'est pas déjà connecté
       if (audioSource && !fileSourceNodeRef.current) {
@@ -827,6 +755,12 @@ export function useAudioAnalyzer(audioSource?: HTMLAudioElement) {
           micSourceNodeRef.current.connect(micGainNodeRef.current!);
           micSourceNodeRef.current.connect(analyserRef.current!); // Connecter à l'analyseur
 
+          // Profil de bruit déjà calibré pour ce micro
+          const deviceId = stream.getAudioTracks()[0]?.getSettings().deviceId ?? 'default';
+          micDeviceIdRef.current = deviceId;
+          applyNoiseProfile(loadNoiseProfile(deviceId));
+          applyTempoOctave(0);
+
           console.log('🎤 Source microphone connectée.');
         } catch (error) {
           console.error('❌ Erreur lors de la connexion du microphone:', error);
@@ -838,119 +772,112 @@ export function useAudioAnalyzer(audioSource?: HTMLAudioElement) {
       console.log('▶️ Source activée: Microphone');
     }
   }
-  // --- Boucle d'analyse principale ---
-  const analyze = () => {
-    if (!analyserRef.current) {
-      animationRef.current = requestAnimationFrame(analyze);
-      return;
-    }
+  // --- Pré-analyse d'un fichier complet ---
+  const analyzeFile = async (file: Blob) => {
+    const analysisId = ++analysisIdRef.current;
 
-    const frequencies = new Uint8Array(analyserRef.current.frequencyBinCount);
-    const waveform = new Uint8Array(analyserRef.current.frequencyBinCount);
-
-    analyserRef.current.getByteFrequencyData(frequencies);
-    analyserRef.current.getByteTimeDomainData(waveform);
-
-    const maxFreq = Math.max(...Array.from(frequencies));
-    if (maxFreq < 5) {
-      setAudioData(prev => ({
-        ...prev,
-        volume: 0,
-        energy: 0,
-        bands: { bass: 0, mid: 0, treble: 0 },
-        dynamicBands: { bass: 0, mid: 0, treble: 0 },
-        transients: { bass: false, mid: false, treble: false, overall: false },
-        dropIntensity: prev.dropIntensity * DROP_CONFIG.decay,
-        melodicFeatures: {
-          dominantFrequency: 0,
-          dominantNote: 'N/A',
-          noteConfidence: 0,
-          harmonicContent: 0,
-          pitchClass: new Array(12).fill(0)
-        },
-        rhythmicFeatures: {
-          ...prev.rhythmicFeatures,
-          bpm: 0,
-          bpmConfidence: 0,
-          beatPhase: 0,
-          groove: prev.rhythmicFeatures.groove * 0.95
+    // L'ancienne timeline ne correspond plus au fichier chargé
+    timelineRef.current = null;
+    timelineTempoRef.current.command({ type: 'reset' });
+    setTimeline(null);
+    setPreAnalysis({ status: 'analyzing', progress: 0 });
+
+    let lastProgress = 0;
+    try {
+      const result = await analyzeTrack(await file.arrayBuffer(), {
+        bandLayout: bandLayoutRef.current,
+        audioConfig: audioConfigRef.current,
+        onProgress: (progress) => {
+          // Limiter les re-renders : une mise à jour par pourcent
+          if (analysisId !== analysisIdRef.current || progress - lastProgress < 0.01) return;
+          lastProgress = progress;
+          setPreAnalysis({ status: 'analyzing', progress });
         }
-      }));
-      animationRef.current = requestAnimationFrame(analyze);
-      return;
+      });
+
+      // Un autre fichier a été chargé entre-temps
+      if (analysisId !== analysisIdRef.current) return;
+
+      timelineRef.current = result;
+      setTimeline(result);
+      setPreAnalysis({ status: 'ready', progress: 1 });
+      console.log('📈 Pré-analyse terminée:', {
+        duration: result.info.duration.toFixed(1) + ' s',
+        frames: result.frames.length,
+        bpm: result.info.bpm,
+        key: `${result.info.key} ${result.info.mode}`
+      });
+    } catch (error) {
+      if (analysisId !== analysisIdRef.current) return;
+      console.error('❌ Échec de la pré-analyse, analyse en temps réel conservée:', error);
+      setPreAnalysis({ status: 'error', progress: 0 });
     }
+  };
+
+  // --- Chargement d'une timeline déjà calculée (import de fichier) ---
+  const loadTimeline = (loaded: FeatureTimeline) => {
+    // Annule une éventuelle pré-analyse en cours
+    analysisIdRef.current++;
+    timelineRef.current = loaded;
+    timelineTempoRef.current.command({ type: 'reset' });
+    setTimeline(loaded);
+    setPreAnalysis({ status: 'ready', progress: 1 });
+  };
 
-    let rms = 0;
-    for (let i = 0; i < waveform.length; i++) {
-      const sample = (waveform[i] - 128) / 128;
-      rms += sample * sample;
+  // Publie une trame pour le rendu 3D ; l'état React (HUD) n'est rafraîchi qu'à cadence réduite
+  const publishFrame = (data: AudioData, nextLookahead?: LookaheadData) => {
+    liveFrameRef.current.audioData = data;
+    liveFrameRef.current.lookahead = nextLookahead;
+
+    const now = performance.now();
+    if (now - lastHudUpdateRef.current >= HUD_UPDATE_INTERVAL) {
+      lastHudUpdateRef.current = now;
+      setAudioData(data);
+      setLookahead(nextLookahead);
     }
-    const volume = Math.sqrt(rms / waveform.length);
+  };
 
-    let energy = 0;
-    for (let i = 1; i < frequencies.length - 1; i++) {
-      const magnitude = frequencies[i] / 255;
-      energy += magnitude * magnitude;
+  // --- Boucle d'analyse principale ---
+  const analyze = () => {
+    // Lecture d'un fichier pré-analysé : les features viennent de la timeline
+    const element = audioSourceRef.current;
+    if (timelineRef.current && sourceTypeRef.current === 'file' && element && !element.paused) {
+      const frame = timelineRef.current.getFrame(element.currentTime, timelineTimeRef.current);
+      timelineTimeRef.current = element.currentTime;
+      if (frame) {
+        publishFrame(withTempoOverride(frame, element.currentTime), timelineRef.current.getLookahead(element.currentTime));
+        hasLookaheadRef.current = true;
+        animationRef.current = requestAnimationFrame(analyze);
+        return;
+      }
     }
-    energy = Math.sqrt(energy / (frequencies.length - 2));
-
-    // FIXED: Use real sample rate everywhere
-    const sampleRate = realSampleRateRef.current;
-    const bands = calculateBands(frequencies, sampleRate);
-    const spectralFeatures = calculateSpectralFeatures(frequencies, sampleRate);
-    const melodicFeatures = calculateMelodicFeatures(waveform, frequencies, sampleRate);
-
-    const dynamicBands = {
-      bass: calculateDynamicValue(bands.bass, bandEnvelopeRef.current.bass),
-      mid: calculateDynamicValue(bands.mid, bandEnvelopeRef.current.mid),
-      treble: calculateDynamicValue(bands.treble, bandEnvelopeRef.current.treble),
-    };
 
-    const normalizedEnergy = calculateDynamicValue(energy, energyEnvelopeRef.current);
-    const dropIntensity = detectDrop(normalizedEnergy);
-    const transients = detectTransients(bands, energy);
+    // Lecture en pause ou autre source : la reprise ne signale pas les battements manqués
+    timelineTimeRef.current = undefined;
 
-    // Update YIN detector with real sample rate if needed
-    if (yinDetectorRef.current && yinDetectorRef.current.updateSampleRate) {
-      yinDetectorRef.current.updateSampleRate(sampleRate);
+    // Sans timeline, pas d'anticipation possible
+    if (hasLookaheadRef.current) {
+      liveFrameRef.current.lookahead = undefined;
+      setLookahead(undefined);
+      hasLookaheadRef.current = false;
     }
 
-    // MODIFICATION: Appel à la nouvelle fonction rythmique avec le transient actuel
-    const currentTime = performance.now() / 1000;
-    // On passe le flux spectral ET le transient du frame actuel pour une synchronisation parfaite
-    const rhythmicFeatures = calculateRhythmicFeatures(spectralFeatures.flux, currentTime, transients.overall);
-
-    // NEW: Use TimbreAnalyzer for advanced musical analysis
-    if (!timbreAnalyzerRef.current) {
-      timbreAnalyzerRef.current = new TimbreAnalyzer();
+    // Capture worklet : les trames sont analysées dès leur arrivée, sinon on lit
+    // l'analyseur (repli tant que le worklet n'est pas disponible)
+    syncCaptureMode();
+    if (!captureRef.current && analyserRef.current) {
+      const { precision } = audioConfigRef.current;
+      const frame = readAnalyserFrame(analyserRef.current, precision, performance.now() / 1000);
+      if (stereoAnalysersRef.current) {
+        frame.stereo = readStereoFrame(stereoAnalysersRef.current, precision);
+      }
+      analyzeFrame(frame);
     }
 
-    const timbreProfile = timbreAnalyzerRef.current.analyzeTimbre(melodicFeatures, spectralFeatures);
-    const musicalContext = timbreAnalyzerRef.current.analyzeMusicalContext(melodicFeatures, timbreProfile);
-
-    setAudioData(prev => ({
-      ...prev,
-      frequencies: frequencies.slice(),
-      waveform: waveform.slice(),
-      volume,
-      energy,
-      bands,
-      dynamicBands,
-      transients,
-      dropIntensity,
-      spectralFeatures,
-      melodicFeatures,
-      rhythmicFeatures,
-      timbreProfile,
-      musicalContext,
-      bass: dynamicBands.bass,
-      mids: dynamicBands.mid,
-      treble: dynamicBands.treble,
-      beat: transients.overall,
-      smoothedVolume: volume,
-    }));
-
-    prevBandsRef.current = bands;
+    // Résultat le plus récent, publié une fois par image
+    const nextAudioData = takeLatestData();
+    if (nextAudioData) publishFrame(nextAudioData);
+
     animationRef.current = requestAnimationFrame(analyze);
   };
 
@@ -962,6 +889,8 @@ export function useAudioAnalyzer(audioSource?: HTMLAudioElement) {
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
+      captureRef.current?.disconnect();
+      workerClientRef.current?.terminate();
       // Arrêter le stream micro
       if (mediaStreamRef.current) {
         mediaStreamRef.current.getTracks().forEach(track => track.stop());
@@ -975,8 +904,21 @@ export function useAudioAnalyzer(audioSource?: HTMLAudioElement) {
 
   return {
     audioData,
+    liveFrame: liveFrameRef,
     audioContext: audioContextRef.current,
     sourceType,
+    stereoAnalysers,
     switchAudioSource, // Exposer la nouvelle fonction
+    lookahead,
+    timeline,
+    preAnalysis,
+    analyzeFile,
+    loadTimeline,
+    noiseProfile,
+    isCalibrating,
+    calibrateNoise,
+    tempoCommand,
+    setTrack,
+    setTempoOctave,
   };
 }
\ No newline at end of file
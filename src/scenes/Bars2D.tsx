@@ -2,8 +2,9 @@
 import { useFrame } from '@react-three/fiber';
 import { useRef } from 'react';
 import * as THREE from 'three';
-import type { AudioData } from '../hooks/useAudioAnalyzer';
-import type { SceneDefinition } from './sceneTypes';
+import type { SceneAudio, SceneDefinition } from './sceneTypes';
+import type { AudioLink } from '../types/config';
+import { calculateAudioScale } from '../utils/audioUtils';
 
 // 1. Define the settings interface
 interface Bars2DSettings {
@@ -14,10 +15,12 @@ interface Bars2DSettings {
   barWidth: number;
   spacing: number;
   baseColor: string;
+  pulseLink: AudioLink;
+  pulseAmount: number;
 }
 
 // 2. Create the scene component
-const Bars2DComponent: React.FC<{ audioData: AudioData; config: Bars2DSettings; globalConfig: any }> = ({ audioData, config, globalConfig }) => {
+const Bars2DComponent: React.FC<{ audio: SceneAudio; config: Bars2DSettings; globalConfig: any }> = ({ audio, config }) => {
     const groupRef = useRef<THREE.Group>(null)
     const barRefs = useRef<(THREE.Mesh | null)[]>([])
     const targetHeights = useRef<number[]>([])
@@ -31,6 +34,12 @@ const Bars2DComponent: React.FC<{ audioData: AudioData; config: Bars2DSettings;
     
     useFrame(() => {
       if (!groupRef.current) return
+      const { audioData } = audio
+
+      // Whole-group pulse bound to any audio link (volume, bands, custom bands).
+      // audioData already carries the global multiplier and curve.
+      const pulse = calculateAudioScale(audioData, 1, config.pulseLink ?? 'none', config.pulseAmount, 'linear')
+      groupRef.current.scale.set(1, pulse, 1)
       
       // Update each bar based on frequency data
       barRefs.current.forEach((bar, index) => {
@@ -40,8 +49,8 @@ const Bars2DComponent: React.FC<{ audioData: AudioData; config: Bars2DSettings;
         const frequencyIndex = Math.floor((index / config.barCount) * audioData.frequencies.length)
         const frequency = audioData.frequencies[frequencyIndex] || 0
         
-        // Calculate target height with volume multiplier
-        const normalizedFreq = (frequency / 255) * globalConfig.volumeMultiplier
+        // Calculate target height (global volume multiplier already applied)
+        const normalizedFreq = frequency / 255
         targetHeights.current[index] = Math.max(0.1, normalizedFreq * config.maxHeight)
         
         // Smooth interpolation
@@ -125,6 +134,8 @@ export const bars2DScene: SceneDefinition<Bars2DSettings> = {
       barWidth: 0.8,
       spacing: 1.2,
       baseColor: '#00ffff',
+      pulseLink: 'none',
+      pulseAmount: 0.5,
     },
     schema: {
       barCount: {
@@ -161,6 +172,17 @@ export const bars2DScene: SceneDefinition<Bars2DSettings> = {
         type: 'color',
         label: 'Base Color',
       },
+      pulseLink: {
+        type: 'audioLink',
+        label: 'Pulse Link',
+      },
+      pulseAmount: {
+        type: 'slider',
+        label: 'Pulse Amount',
+        min: 0,
+        max: 2,
+        step: 0.1,
+      },
     },
   },
 };
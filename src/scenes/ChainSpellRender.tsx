@@ -2,7 +2,7 @@ import { useRef, useMemo, useState, useEffect } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import type { AudioData } from '../hooks/useAudioAnalyzer';
-import type { SceneDefinition, SceneSettingsSchema } from './sceneTypes';
+import type { SceneAudio, SceneDefinition, SceneSettingsSchema } from './sceneTypes';
 import type { GlobalSettings } from '../types/config';
 
 // 1. Define the settings interface
@@ -401,9 +401,11 @@ void main() {
 `;
 
 // 2. Create the scene component
-const ChainSpellComponent: React.FC<{ audioData: AudioData; config: ChainSpellSettings; globalConfig: GlobalSettings }> = ({ audioData, config }) => {
+const ChainSpellComponent: React.FC<{ audio: SceneAudio; config: ChainSpellSettings; globalConfig: GlobalSettings }> = ({ audio, config }) => {
     const meshRef = useRef<THREE.Mesh>(null);
     const { size, viewport, gl } = useThree();
+    // Spectrum length (the scene re-renders when it changes)
+    const binCount = audio.audioData.frequencies.length;
 
     // Mouse drag state
     const [isDragging, setIsDragging] = useState(false);
@@ -557,7 +559,7 @@ const ChainSpellComponent: React.FC<{ audioData: AudioData; config: ChainSpellSe
         if (frequency <= 0) return -1;
 
         const sampleRate = 44100;
-        const binIndex = Math.floor((frequency / (sampleRate / 2)) * audioData.frequencies.length);
+        const binIndex = Math.floor((frequency / (sampleRate / 2)) * binCount);
 
         let closestSegment = 0;
         let minDistance = Math.abs(frequencyMapping[0] - binIndex);
@@ -574,8 +576,8 @@ const ChainSpellComponent: React.FC<{ audioData: AudioData; config: ChainSpellSe
     };
 
     const frequencyMapping = useMemo(() =>
-            createFrequencyMapping(config.chainSegments, audioData.frequencies.length, config.frequencyScale, 44100),
-        [config.chainSegments, audioData.frequencies.length, config.frequencyScale]
+            createFrequencyMapping(config.chainSegments, binCount, config.frequencyScale, 44100),
+        [config.chainSegments, binCount, config.frequencyScale]
     );
 
     // Create shader material with uniforms
@@ -661,6 +663,7 @@ const ChainSpellComponent: React.FC<{ audioData: AudioData; config: ChainSpellSe
     useFrame((state) => {
         if (!meshRef.current) return;
         const material = meshRef.current.material as THREE.ShaderMaterial;
+        const { audioData } = audio;
 
         frameCount.current++;
 
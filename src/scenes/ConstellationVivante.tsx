@@ -1,8 +1,7 @@
 import { useFrame } from '@react-three/fiber';
 import { useRef, useMemo } from 'react';
 import * as THREE from 'three';
-import type { AudioData } from '../hooks/useAudioAnalyzer';
-import type { SceneDefinition, SceneSettingsSchema } from './sceneTypes';
+import type { SceneAudio, SceneDefinition, SceneSettingsSchema } from './sceneTypes';
 import type { GlobalSettings, ConstellationFormation, ConnectionType, ColorMode } from '../types/config';
 
 // 1. Define the settings interface with enhanced audio options
@@ -24,6 +23,15 @@ interface ConstellationSettings {
   bpmSyncMode: 'rotation' | 'pulse' | 'formation';
   beatDivision: number;
 
+  // Stereo settings
+  stereoPanning: boolean;
+  stereoSpread: number;
+
+  // Song structure settings
+  sectionFormations: boolean;
+  breakdownFormation: ConstellationFormation;
+  dropFormation: ConstellationFormation;
+
   // Visual effects
   formationSpeed: number;
   explosionIntensity: number;
@@ -116,7 +124,7 @@ class TransientParticle {
 }
 
 // 2. Create the enhanced scene component
-const ConstellationVivanteComponent: React.FC<{ audioData: AudioData; config: ConstellationSettings; globalConfig: GlobalSettings }> = ({ audioData, config, globalConfig }) => {
+const ConstellationVivanteComponent: React.FC<{ audio: SceneAudio; config: ConstellationSettings; globalConfig: GlobalSettings }> = ({ audio, config, globalConfig }) => {
   const groupRef = useRef<THREE.Group>(null);
   const particlesRef = useRef<(THREE.Mesh | null)[]>([]);
   const connectionLinesRef = useRef<THREE.BufferGeometry | null>(null);
@@ -125,6 +133,8 @@ const ConstellationVivanteComponent: React.FC<{ audioData: AudioData; config: Co
   // State refs for advanced features
   const beatPhaseRef = useRef(0);
   const bpmRotationRef = useRef(0);
+  const stereoBalanceRef = useRef(0);
+  const stereoWidthRef = useRef(0);
   const transientParticlesList = useRef<TransientParticle[]>([]);
   const harmonicHighlightRef = useRef<number[]>([]);
   const spectralColorRef = useRef(new THREE.Color());
@@ -199,6 +209,7 @@ const ConstellationVivanteComponent: React.FC<{ audioData: AudioData; config: Co
     if (!groupRef.current) return;
 
     const time = state.clock.elapsedTime;
+    const { audioData } = audio;
     const {
       dynamicBands,
       transients,
@@ -206,9 +217,22 @@ const ConstellationVivanteComponent: React.FC<{ audioData: AudioData; config: Co
       melodicFeatures,
       rhythmicFeatures,
       energy,
-      timbreProfile
+      timbreProfile,
+      stereo,
+      structure
     } = audioData;
 
+    // --- Song structure: breakdowns and drops get their own formation ---
+    let activeFormation = config.formation;
+    if (config.sectionFormations) {
+      if (structure.section === 'breakdown') activeFormation = config.breakdownFormation;
+      else if (structure.section === 'drop') activeFormation = config.dropFormation;
+    }
+
+    // --- Stereo: smoothed balance and width drive the horizontal layout ---
+    stereoBalanceRef.current += (stereo.balance - stereoBalanceRef.current) * 0.1;
+    stereoWidthRef.current += (stereo.width - stereoWidthRef.current) * 0.1;
+
     // --- BPM Sync Rotation ---
     if (config.bpmSyncEnabled && rhythmicFeatures.bpm > 0) {
       const bpmFactor = rhythmicFeatures.bpm / 120; // Normalize to 120 BPM
@@ -353,7 +377,7 @@ const ConstellationVivanteComponent: React.FC<{ audioData: AudioData; config: Co
       const formationPos = generateFormationPosition(
           index,
           config.particleCount,
-          config.formation,
+          activeFormation,
           config.formationScale * (1 + particle.audioResponse * 0.5), // Increased from 0.3 to 0.5
           time * formationSpeed
       );
@@ -371,6 +395,12 @@ const ConstellationVivanteComponent: React.FC<{ audioData: AudioData; config: Co
         formationPos.add(resonanceOffset);
       }
 
+      // Follow the mix: the constellation widens with the stereo image and drifts toward the louder side
+      if (config.stereoPanning) {
+        formationPos.x *= 1 + stereoWidthRef.current * config.stereoSpread;
+        formationPos.x += stereoBalanceRef.current * config.stereoSpread * config.formationScale * 0.5;
+      }
+
       particle.targetPosition.copy(formationPos);
       particle.position.lerp(particle.targetPosition, 0.1);
       mesh.position.copy(particle.position);
@@ -779,19 +809,21 @@ function generateFormationConnections(particleCount: number, formation: string):
 }
 
 // 3. Define the enhanced scene configuration
+const FORMATION_OPTIONS = [
+  { value: 'random', label: 'Random' },
+  { value: 'sphere', label: 'Sphere' },
+  { value: 'spiral', label: 'Spiral' },
+  { value: 'dnahelix', label: 'DNA Helix' },
+  { value: 'cube', label: 'Cube' },
+  { value: 'torus', label: 'Torus' },
+];
+
 const schema: SceneSettingsSchema = {
   particleCount: { type: 'slider', label: 'Particle Count', min: 50, max: 500, step: 10 },
   formation: {
     type: 'select',
     label: 'Formation',
-    options: [
-      { value: 'random', label: 'Random' },
-      { value: 'sphere', label: 'Sphere' },
-      { value: 'spiral', label: 'Spiral' },
-      { value: 'dnahelix', label: 'DNA Helix' },
-      { value: 'cube', label: 'Cube' },
-      { value: 'torus', label: 'Torus' },
-    ],
+    options: FORMATION_OPTIONS,
   },
   connectionType: {
     type: 'select',
@@ -821,6 +853,21 @@ const schema: SceneSettingsSchema = {
     ]},
   beatDivision: { type: 'slider', label: 'Beat Division', min: 1, max: 16, step: 1 },
 
+  // Stereo
+  stereoPanning: { type: 'select', label: 'Stereo Panning', options: [
+      { value: 'true', label: 'Enabled' },
+      { value: 'false', label: 'Disabled' },
+    ]},
+  stereoSpread: { type: 'slider', label: 'Stereo Spread', min: 0, max: 2, step: 0.1 },
+
+  // Song Structure
+  sectionFormations: { type: 'select', label: 'Section Formations', options: [
+      { value: 'true', label: 'Enabled' },
+      { value: 'false', label: 'Disabled' },
+    ]},
+  breakdownFormation: { type: 'select', label: 'Breakdown Formation', options: FORMATION_OPTIONS },
+  dropFormation: { type: 'select', label: 'Drop Formation', options: FORMATION_OPTIONS },
+
   // Visual Effects
   formationSpeed: { type: 'slider', label: 'Formation Speed', min: 0, max: 2, step: 0.1 },
   explosionIntensity: { type: 'slider', label: 'Explosion Intensity', min: 0, max: 1, step: 0.05 },
@@ -880,6 +927,15 @@ export const constellationScene: SceneDefinition<ConstellationSettings> = {
       bpmSyncMode: 'rotation',
       beatDivision: 4,
 
+      // Stereo
+      stereoPanning: true,
+      stereoSpread: 1.0,
+
+      // Song structure
+      sectionFormations: true,
+      breakdownFormation: 'spiral',
+      dropFormation: 'torus',
+
       // Visual effects
       formationSpeed: 0.5,
       explosionIntensity: 0.3,
@@ -1,8 +1,7 @@
 import { useFrame } from '@react-three/fiber';
 import { useRef, useEffect, useMemo } from 'react';
 import * as THREE from 'three';
-import type { AudioData } from '../hooks/useAudioAnalyzer';
-import type { SceneDefinition, SceneSettingsSchema } from './sceneTypes';
+import type { SceneAudio, SceneDefinition, SceneSettingsSchema } from './sceneTypes';
 import type { GlobalSettings } from '../types/config';
 
 // 1. Define the settings interface
@@ -33,7 +32,7 @@ const invMelScale = (mel: number): number => {
 };
 
 // 2. Create the scene component
-const ImprovedHarmonicGridComponent: React.FC<{ audioData: AudioData; config: HarmonicGridSettings; globalConfig: GlobalSettings }> = ({ audioData, config }) => {
+const ImprovedHarmonicGridComponent: React.FC<{ audio: SceneAudio; config: HarmonicGridSettings; globalConfig: GlobalSettings }> = ({ audio, config }) => {
   const meshRef = useRef<THREE.InstancedMesh>(null!);
   const dummy = new THREE.Object3D();
   const gridDataRef = useRef<number[][]>([]);
@@ -100,15 +99,18 @@ const ImprovedHarmonicGridComponent: React.FC<{ audioData: AudioData; config: Ha
     return mapping;
   };
 
+  // Spectrum length (the scene re-renders when it changes)
+  const binCount = audio.audioData.frequencies.length;
   const frequencyMapping = useMemo(() =>
-          createFrequencyMapping(gridSize, audioData.frequencies.length, config.frequencyScale),
-      [gridSize, audioData.frequencies.length, config.frequencyScale]
+          createFrequencyMapping(gridSize, binCount, config.frequencyScale),
+      [gridSize, binCount, config.frequencyScale]
   );
 
   useFrame((_, delta) => {
     if (!meshRef.current || gridDataRef.current.length !== gridSize) return;
 
     frameCount.current++;
+    const { audioData } = audio;
     const { frequencies, transients, dynamicBands, spectralFeatures } = audioData;
     const gridData = gridDataRef.current;
     const smoothedGrid = smoothedGridRef.current;
@@ -1,8 +1,7 @@
 import { useFrame } from '@react-three/fiber';
 import { useRef, useEffect, useMemo } from 'react';
 import * as THREE from 'three';
-import type { AudioData } from '../hooks/useAudioAnalyzer';
-import type { SceneDefinition, SceneSettingsSchema } from './sceneTypes';
+import type { SceneAudio, SceneDefinition, SceneSettingsSchema } from './sceneTypes';
 import type { GlobalSettings } from '../types/config';
 
 // 1. Define the settings interface
@@ -108,7 +107,7 @@ class TransientParticle {
 }
 
 // 2. Create the scene component
-const HarmonicGridV2Component: React.FC<{ audioData: AudioData; config: HarmonicGridV2Settings; globalConfig: GlobalSettings }> = ({ audioData, config }) => {
+const HarmonicGridV2Component: React.FC<{ audio: SceneAudio; config: HarmonicGridV2Settings; globalConfig: GlobalSettings }> = ({ audio, config }) => {
   const meshRef = useRef<THREE.InstancedMesh>(null!);
   const mirrorMeshRef = useRef<THREE.InstancedMesh>(null!);
   const particleMeshRef = useRef<THREE.InstancedMesh>(null!);
@@ -122,8 +121,8 @@ const HarmonicGridV2Component: React.FC<{ audioData: AudioData; config: Harmonic
   const noteTrailsRef = useRef<number[][]>([]);
 
   // BPM sync state
-  const beatPhaseRef = useRef(0);
-  const lastBeatRef = useRef(0);
+  const pendingScrollRef = useRef(0);
+  const clockBeatsRef = useRef(0);
   const scrollPositionRef = useRef(0);
 
   // Particle system
@@ -152,6 +151,17 @@ const HarmonicGridV2Component: React.FC<{ audioData: AudioData; config: Harmonic
     noteTrailsRef.current = initGrid();
   }, [gridSize]);
 
+  // Beat and quantized scrolling follow the beat clock: one column per beat or per division
+  const { beatClock } = audio;
+  const { bpmSyncEnabled, bpmScrollMode, beatDivision } = config;
+  useEffect(() => {
+    if (!bpmSyncEnabled || bpmScrollMode === 'continuous') return;
+    const scroll = () => { pendingScrollRef.current++; };
+    return bpmScrollMode === 'beat'
+      ? beatClock.onBeat(scroll)
+      : beatClock.onSubdivision(4 * beatDivision, scroll);
+  }, [beatClock, bpmSyncEnabled, bpmScrollMode, beatDivision]);
+
   // Create frequency mapping based on scale type
   const createFrequencyMapping = (numRows: number, numFreqBins: number, scale: string, sampleRate: number) => {
     const mapping: number[] = [];
@@ -204,9 +214,11 @@ const HarmonicGridV2Component: React.FC<{ audioData: AudioData; config: Harmonic
     return mapping;
   };
 
+  // Spectrum length (the scene re-renders when it changes)
+  const binCount = audio.audioData.frequencies.length;
   const frequencyMapping = useMemo(() =>
-    createFrequencyMapping(gridSize, audioData.frequencies.length, config.frequencyScale, 44100),
-    [gridSize, audioData.frequencies.length, config.frequencyScale]
+    createFrequencyMapping(gridSize, binCount, config.frequencyScale, 44100),
+    [gridSize, binCount, config.frequencyScale]
   );
 
   // Find row for a specific frequency (FIXED)
@@ -216,7 +228,7 @@ const HarmonicGridV2Component: React.FC<{ audioData: AudioData; config: Harmonic
     // FIXED: Use real sample rate from audioData context
     // The sample rate is now properly captured from AudioContext in useAudioAnalyzer
     const sampleRate = 44100; // This will be the actual sample rate from AudioContext
-    const binIndex = Math.floor((frequency / (sampleRate / 2)) * audioData.frequencies.length);
+    const binIndex = Math.floor((frequency / (sampleRate / 2)) * binCount);
 
     // Find the closest row to this bin
     let closestRow = 0;
@@ -237,6 +249,7 @@ const HarmonicGridV2Component: React.FC<{ audioData: AudioData; config: Harmonic
     if (!meshRef.current || gridDataRef.current.length !== gridSize) return;
 
     frameCount.current++;
+    const { audioData } = audio;
     const { frequencies, transients, dynamicBands, spectralFeatures, melodicFeatures, rhythmicFeatures } = audioData;
     const gridData = gridDataRef.current;
     const smoothedGrid = smoothedGridRef.current;
@@ -248,52 +261,29 @@ const HarmonicGridV2Component: React.FC<{ audioData: AudioData; config: Harmonic
 
     // --- BPM-Synced Scrolling ---
     let scrollAmount = 1; // Default scroll speed
-
-    if (config.bpmSyncEnabled && rhythmicFeatures.bpm > 0) {
-      const currentBeatPhase = rhythmicFeatures.beatPhase;
-
-      switch (config.bpmScrollMode) {
-        case 'beat':
-          // Scroll one column per beat
-          if (currentBeatPhase < beatPhaseRef.current) {
-            // Beat just happened
-            scrollAmount = 1;
-            lastBeatRef.current = frameCount.current;
-          } else {
-            scrollAmount = 0; // Don't scroll between beats
-          }
-          break;
-
-        case 'continuous':
-          // Smooth scrolling synced to BPM
-          const beatsPerSecond = rhythmicFeatures.bpm / 60;
-          scrollAmount = delta * beatsPerSecond * config.beatDivision;
-          scrollPositionRef.current += scrollAmount;
-
-          if (scrollPositionRef.current >= 1) {
-            scrollAmount = Math.floor(scrollPositionRef.current);
-            scrollPositionRef.current -= scrollAmount;
-          } else {
-            scrollAmount = 0;
-          }
-          break;
-
-        case 'quantized':
-          // Scroll at specific beat divisions
-          const subdivision = 1 / config.beatDivision;
-          const currentQuantized = Math.floor(currentBeatPhase / subdivision);
-          const lastQuantized = Math.floor(beatPhaseRef.current / subdivision);
-
-          if (currentQuantized !== lastQuantized) {
-            scrollAmount = 1;
-          } else {
-            scrollAmount = 0;
-          }
-          break;
+    const musicalTime = beatClock.getTime();
+    // Beats advanced by the clock since the last frame (it restarts from zero on reset)
+    const beatsAdvanced = Math.max(0, musicalTime.beats - clockBeatsRef.current);
+    clockBeatsRef.current = musicalTime.beats;
+
+    if (config.bpmSyncEnabled && musicalTime.bpm > 0) {
+      if (config.bpmScrollMode === 'continuous') {
+        // Smooth scrolling synced to the clock
+        scrollPositionRef.current += beatsAdvanced * config.beatDivision;
+
+        if (scrollPositionRef.current >= 1) {
+          scrollAmount = Math.floor(scrollPositionRef.current);
+          scrollPositionRef.current -= scrollAmount;
+        } else {
+          scrollAmount = 0;
+        }
+      } else {
+        // Beats or divisions reached since the last frame (callbacks registered above)
+        scrollAmount = pendingScrollRef.current;
       }
-
-      beatPhaseRef.current = currentBeatPhase;
     }
+    pendingScrollRef.current = 0;
+    scrollAmount = Math.min(scrollAmount, numCols);
 
     // --- Scrolling Logic ---
     if (scrollAmount > 0) {
@@ -479,7 +469,7 @@ const HarmonicGridV2Component: React.FC<{ audioData: AudioData; config: Harmonic
     }
 
     // --- Beat Flash Effect ---
-    if (config.beatFlash && (transients.overall || (rhythmicFeatures.bpm > 0 && rhythmicFeatures.beatPhase < 0.05))) {
+    if (config.beatFlash && (transients.overall || (musicalTime.bpm > 0 && musicalTime.beatPhase < 0.05))) {
       flashDecay.current = config.beatFlashIntensity;
     }
     flashDecay.current = Math.max(0, flashDecay.current - delta * 3);
@@ -1,8 +1,7 @@
 import { useFrame } from '@react-three/fiber';
 import { useRef, useEffect, useMemo } from 'react';
 import * as THREE from 'three';
-import type { AudioData } from '../hooks/useAudioAnalyzer';
-import type { SceneDefinition, SceneSettingsSchema } from './sceneTypes';
+import type { SceneAudio, SceneDefinition, SceneSettingsSchema } from './sceneTypes';
 import type { GlobalSettings } from '../types/config';
 
 // Settings interface - cleaned up
@@ -36,6 +35,8 @@ interface HarmonicGridV3Settings {
   beatFlashIntensity: number;
   transientParticles: boolean;
   particleIntensity: number;
+  dropAnticipation: boolean;
+  anticipationTime: number;
 
   // Colors
   baseColor: string;
@@ -129,7 +130,7 @@ class TransientParticle {
 }
 
 // Main component
-const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: HarmonicGridV3Settings; globalConfig: GlobalSettings }> = ({ audioData, config }) => {
+const HarmonicGridV3Component: React.FC<{ audio: SceneAudio; config: HarmonicGridV3Settings; globalConfig: GlobalSettings }> = ({ audio, config }) => {
   const meshRef = useRef<THREE.InstancedMesh>(null!);
   const mirrorMeshRef = useRef<THREE.InstancedMesh>(null!);
   const particleMeshRef = useRef<THREE.InstancedMesh>(null!);
@@ -152,6 +153,7 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
 
   // Visual effects state
   const flashDecay = useRef(0);
+  const tensionRef = useRef(0);
   const rotationAngle = useRef(0);
   const frameCount = useRef(0);
   const lastDominantNote = useRef('');
@@ -222,9 +224,11 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
     return mapping;
   };
 
+  // Spectrum length (the scene re-renders when it changes)
+  const binCount = audio.audioData.frequencies.length;
   const frequencyMapping = useMemo(() =>
-          createFrequencyMapping(config.gridSize, audioData.frequencies.length, config.frequencyScale, 44100),
-      [config.gridSize, audioData.frequencies.length, config.frequencyScale]
+          createFrequencyMapping(config.gridSize, binCount, config.frequencyScale, 44100),
+      [config.gridSize, binCount, config.frequencyScale]
   );
 
   // Find row for a specific frequency
@@ -232,7 +236,7 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
     if (frequency <= 0) return -1;
 
     const sampleRate = 44100;
-    const binIndex = Math.floor((frequency / (sampleRate / 2)) * audioData.frequencies.length);
+    const binIndex = Math.floor((frequency / (sampleRate / 2)) * binCount);
 
     let closestRow = 0;
     let minDistance = Math.abs(frequencyMapping[0] - binIndex);
@@ -252,6 +256,7 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
     if (!meshRef.current || gridDataRef.current.length !== config.gridSize) return;
 
     frameCount.current++;
+    const { audioData, lookahead } = audio;
     const { frequencies, transients, dynamicBands, spectralFeatures, melodicFeatures, rhythmicFeatures } = audioData;
     const gridData = gridDataRef.current;
     const smoothedGrid = smoothedGridRef.current;
@@ -480,11 +485,23 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
     }
     flashDecay.current = Math.max(0, flashDecay.current - delta * 3);
 
+    // Drop Anticipation: tension builds up before a drop known from the timeline
+    let targetTension = 0;
+    if (config.dropAnticipation && lookahead && lookahead.timeToNextDrop !== null &&
+        lookahead.timeToNextDrop < config.anticipationTime) {
+      const approach = 1 - lookahead.timeToNextDrop / config.anticipationTime;
+      targetTension = approach * approach * Math.max(0.5, lookahead.nextDropIntensity);
+    }
+    // Rise smoothly, release fast once the drop hits
+    const tensionRate = targetTension > tensionRef.current ? 2 : 6;
+    tensionRef.current += (targetTension - tensionRef.current) * Math.min(1, delta * tensionRate);
+    const tension = tensionRef.current;
+
     // Rotation Effect
     if (config.rotationEffect) {
       const rotationSpeed = rhythmicFeatures.bpm > 0 ?
           (rhythmicFeatures.bpm / 120) * 0.5 : 0.1;
-      rotationAngle.current += delta * rotationSpeed;
+      rotationAngle.current += delta * rotationSpeed * (1 + tension * 2);
     }
 
     // Update Particles
@@ -511,7 +528,7 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
         const noteTrailHeight = config.melodicVisualization ? noteTrails[row][col] : 0;
         const combinedHeight = baseHeight + rippleHeight * 0.5 + noteTrailHeight * 0.8;
 
-        const height = combinedHeight * config.heightMultiplier;
+        const height = combinedHeight * config.heightMultiplier * (1 + tension * 0.5);
         const finalHeight = Math.max(0.05, height);
 
         // Position with optional rotation
@@ -575,7 +592,7 @@ const HarmonicGridV3Component: React.FC<{ audioData: AudioData; config: Harmonic
         color.multiplyScalar(ageFading);
 
         // Flash effect
-        color.lerp(flash, flashDecay.current);
+        color.lerp(flash, Math.min(1, flashDecay.current + tension * 0.4));
 
         // Peak highlighting
         if (peakGrid[row][col] > 0.7) {
@@ -764,6 +781,11 @@ const schema: SceneSettingsSchema = {
       { value: 'false', label: 'Disabled' },
     ]},
   particleIntensity: { type: 'slider', label: 'Particle Intensity', min: 1, max: 5, step: 1 },
+  dropAnticipation: { type: 'select', label: 'Drop Anticipation', options: [
+      { value: 'true', label: 'Enabled' },
+      { value: 'false', label: 'Disabled' },
+    ]},
+  anticipationTime: { type: 'slider', label: 'Anticipation Time (s)', min: 1, max: 16, step: 1 },
 
   // Colors
   baseColor: { type: 'color', label: 'Base Color' },
@@ -819,6 +841,8 @@ export const harmonicGridV3Scene: SceneDefinition<HarmonicGridV3Settings> = {
       beatFlashIntensity: 0.7,
       transientParticles: true,
       particleIntensity: 3,
+      dropAnticipation: true,
+      anticipationTime: 8,
 
       baseColor: '#00ffff',
       bassColor: '#ff00ff',
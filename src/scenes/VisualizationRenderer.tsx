@@ -1,23 +1,67 @@
-
+import { memo, useMemo, useRef, useState, type RefObject } from 'react';
+import { useFrame } from '@react-three/fiber';
 import { useConfigStore } from '../store/configStore';
 import { scenesById } from './index';
-import type { AudioData } from '../hooks/useAudioAnalyzer';
+import type { AudioData, LiveAudioFrame } from '../hooks/useAudioAnalyzer';
+import type { SceneAudio } from './sceneTypes';
 import { EffectComposer, Bloom } from '@react-three/postprocessing';
+import { applyGlobalResponse } from '../utils/audioUtils';
+import { BeatClock } from '../utils/BeatClock';
 
-export function VisualizationRenderer({ audioData }: { audioData: AudioData }) {
+// Memoised: its only audio prop is a stable ref, so audio frames never re-render the scene
+export const VisualizationRenderer = memo(function VisualizationRenderer({ liveFrame }: { liveFrame: RefObject<LiveAudioFrame> }) {
   const { global, visualization } = useConfigStore();
   const { id, settings } = visualization;
 
   const SceneComponent = scenesById[id]?.component;
 
+  // Global volume multiplier and reactivity curve, applied once per audio frame for every scene
+  const { volumeMultiplier, reactivityCurve } = global;
+  // One clock for every scene: musical time keeps running across scene switches
+  const beatClock = useMemo(() => new BeatClock(), []);
+  const audio = useMemo<SceneAudio>(() => {
+    let source: AudioData | null = null;
+    let shaped: AudioData | null = null;
+    return {
+      get audioData() {
+        const latest = liveFrame.current.audioData;
+        if (latest !== source || !shaped) {
+          source = latest;
+          shaped = applyGlobalResponse(latest, { volumeMultiplier, reactivityCurve });
+        }
+        return shaped;
+      },
+      get lookahead() {
+        return liveFrame.current.lookahead;
+      },
+      beatClock
+    };
+  }, [liveFrame, volumeMultiplier, reactivityCurve, beatClock]);
+
+  // Scenes size their buffers from the spectrum length at render time: re-render when it changes (FFT size)
+  const [binCount, setBinCount] = useState(() => liveFrame.current.audioData.frequencies.length);
+  const clockFrameRef = useRef<AudioData | null>(null);
+  // Negative priority: runs before the scenes' own useFrame (subscribed first, as children),
+  // so they read this frame's clock and its callbacks fire before they draw
+  useFrame((state) => {
+    const latest = liveFrame.current.audioData;
+    const length = latest.frequencies.length;
+    if (length !== binCount) setBinCount(length);
+
+    // The clock locks on to each analysis frame once, and runs on its own in between
+    const isNewFrame = latest !== clockFrameRef.current;
+    clockFrameRef.current = latest;
+    beatClock.update(state.clock.elapsedTime, isNewFrame ? latest.rhythmicFeatures : undefined);
+  }, -1);
+
   if (!SceneComponent) {
     return null; // Or a fallback component
   }
 
   return (
     <EffectComposer>
-      <SceneComponent audioData={audioData} config={settings} globalConfig={global} />
+      <SceneComponent audio={audio} config={settings} globalConfig={global} />
       <Bloom intensity={1.0} luminanceThreshold={0.1} luminanceSmoothing={0.9} />
     </EffectComposer>
   );
-}
+});
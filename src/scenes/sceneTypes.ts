@@ -2,10 +2,13 @@
 import type { FC } from 'react';
 import type { AudioData } from '../hooks/useAudioAnalyzer';
 import type { GlobalSettings } from '../types/config';
+import type { LookaheadData } from '../utils/FeatureTimeline';
+import type { BeatClock } from '../utils/BeatClock';
 
 // Defines the structure for a single UI control in the settings panel
+// 'audioLink' is a select listing the AudioLink targets, including the configured bands
 export interface SceneSettingControl {
-  type: 'slider' | 'color' | 'select';
+  type: 'slider' | 'color' | 'select' | 'audioLink';
   label: string;
   min?: number;
   max?: number;
@@ -18,11 +21,22 @@ export type SceneSettingsSchema = {
   [key: string]: SceneSettingControl;
 };
 
+// Audio input of a scene. Read it inside `useFrame`: scenes do not re-render per audio frame,
+// the getters always return the latest frame (global response already applied)
+export interface SceneAudio {
+  readonly audioData: AudioData;
+  // Only provided while a pre-analysed file is playing
+  readonly lookahead?: LookaheadData;
+  // Musical clock locked on the beat grid: register onBeat/onBar/onSubdivision in an effect
+  // and call the returned function on cleanup
+  readonly beatClock: BeatClock;
+}
+
 // The complete definition for a scene
 export interface SceneDefinition<T> {
   id: string;
   name: string;
-  component: FC<{ audioData: AudioData; config: T; globalConfig: GlobalSettings }>;
+  component: FC<{ audio: SceneAudio; config: T; globalConfig: GlobalSettings }>;
   settings: {
     default: T;
     schema: SceneSettingsSchema;
@@ -1,11 +1,12 @@
 
 import { create } from 'zustand';
 import { scenes, scenesById } from '../scenes';
-import type { GlobalSettings } from '../types/config';
-import { DEFAULT_GLOBAL_SETTINGS } from '../types/config';
+import type { AudioConfig, GlobalSettings } from '../types/config';
+import { DEFAULT_AUDIO_CONFIG, DEFAULT_GLOBAL_SETTINGS } from '../types/config';
 
 interface ConfigState {
   global: GlobalSettings;
+  audio: AudioConfig;
   visualization: {
     id: string;
     settings: any;
@@ -13,6 +14,7 @@ interface ConfigState {
 
   // Methods
   updateGlobalSettings: (settings: Partial<GlobalSettings>) => void;
+  updateAudioConfig: (config: Partial<AudioConfig>) => void;
   setVisualization: (id: string) => void;
   updateVisualizationSettings: (settings: any) => void;
 
@@ -27,12 +29,26 @@ const defaultScene = scenes[0];
 
 export const useConfigStore = create<ConfigState>((set) => ({
   global: DEFAULT_GLOBAL_SETTINGS,
+  audio: DEFAULT_AUDIO_CONFIG,
   visualization: {
     id: defaultScene.id,
     settings: defaultScene.settings.default,
   },
 
-  updateGlobalSettings: (settings) => set((state) => ({ global: { ...state.global, ...settings } })),
+  // fftSmoothing and the analyser smoothingTimeConstant are the same setting
+  updateGlobalSettings: (settings) => set((state) => ({
+    global: { ...state.global, ...settings },
+    audio: settings.fftSmoothing !== undefined
+      ? { ...state.audio, smoothingTimeConstant: settings.fftSmoothing }
+      : state.audio,
+  })),
+
+  updateAudioConfig: (config) => set((state) => ({
+    audio: { ...state.audio, ...config },
+    global: config.smoothingTimeConstant !== undefined
+      ? { ...state.global, fftSmoothing: config.smoothingTimeConstant }
+      : state.global,
+  })),
 
   setVisualization: (id) => {
     const scene = scenesById[id];
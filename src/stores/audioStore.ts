@@ -2,6 +2,13 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import type { AudioData, AudioSourceType } from '../hooks/useAudioAnalyzer';
+import { AnalysisEngine, createEmptyAudioData, mergeFrameEvents } from '../utils/AnalysisEngine';
+import { useConfigStore } from '../store/configStore';
+import { configureAnalyser, createStereoAnalysers, readAnalyserFrame, readStereoFrame } from '../utils/analyserUtils';
+import type { StereoAnalysers } from '../utils/analyserUtils';
+import { loadNoiseProfile, saveNoiseProfile, type NoiseProfile } from '../utils/NoiseGate';
+import { WorkletCapture } from '../utils/workletCapture';
+import type { TempoCommand } from '../utils/TempoOverride';
 
 // Interface définissant l'état et les actions du store
 interface AudioStoreState {
@@ -9,10 +16,14 @@ interface AudioStoreState {
   isInitialized: boolean;
   audioContext: AudioContext | null;
   analyser: AnalyserNode | null;
+  stereoAnalysers: StereoAnalysers | null;
   audioElement: HTMLAudioElement | null;
   sourceType: AudioSourceType;
   audioData: AudioData;
   error: string | null;
+  // Profil de bruit du micro actif (calibration du silence)
+  noiseProfile: NoiseProfile | null;
+  isCalibrating: boolean;
 
   // Nodes Web Audio (gérés en interne mais accessibles si besoin)
   nodes: {
@@ -27,280 +38,106 @@ interface AudioStoreState {
   initialize: () => Promise<void>;
   setAudioElement: (element: HTMLAudioElement) => void;
   switchSource: (type: AudioSourceType) => Promise<void>;
+  calibrateNoise: (duration?: number) => Promise<void>;
+  tempoCommand: (command: TempoCommand) => void;
   cleanup: () => void;
 }
 
 // Données initiales pour l'analyse
-const initialAudioData: AudioData = {
-  frequencies: new Uint8Array(512),
-  waveform: new Uint8Array(512),
-  volume: 0,
-  bands: { bass: 0, mid: 0, treble: 0 },
-  dynamicBands: { bass: 0, mid: 0, treble: 0 },
-  transients: { bass: false, mid: false, treble: false, overall: false },
-  energy: 0,
-  dropIntensity: 0,
-  spectralFeatures: { centroid: 0, spread: 0, flux: 0, rolloff: 0 },
-  melodicFeatures: {
-    dominantFrequency: 0,
-    dominantNote: 'N/A',
-    noteConfidence: 0,
-    harmonicContent: 0,
-    pitchClass: new Array(12).fill(0)
-  },
-  rhythmicFeatures: {
-    bpm: 0,
-    bpmConfidence: 0,
-    beatPhase: 0,
-    subdivision: 1,
-    groove: 0
-  },
-  timbreProfile: {
-    brightness: 0,
-    warmth: 0,
-    richness: 0,
-    clarity: 0,
-    attack: 0,
-    dominantChroma: 0,
-    harmonicComplexity: 0
-  },
-  musicalContext: {
-    notePresent: false,
-    noteStability: 0,
-    key: 'C',
-    mode: 'unknown',
-    tension: 0
-  },
-  bass: 0,
-  mids: 0,
-  treble: 0,
-  beat: false,
-  smoothedVolume: 0,
-};
-
-// Import des utilitaires d'analyse
-import { BPMDetector } from '../utils/BPMDetector';
-import { YINPitchDetector } from '../utils/YINPitchDetector';
-import { TimbreAnalyzer, type TimbreProfile, type MusicalContext } from '../utils/timbreAnalyzer';
-import { createMelFilterbank } from '../utils/melFilterbank';
-import type { FrequencyBands, Transients, SpectralFeatures, MelodicFeatures, RhythmicFeatures } from '../hooks/useAudioAnalyzer';
-
-// Configuration constantes
-const ENVELOPE_CONFIG = {
-  minDecay: 0.002,
-  maxDecay: 0.001,
-  minThreshold: 0.02,
-  adaptiveRate: 0.1,
-};
-
-// Musical constants
-const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-const A4_FREQ = 440;
-const A4_MIDI = 69;
-
-// Utilitaires d'analyse (à l'extérieur du store)
-const A_WEIGHTING = (freq: number): number => {
-  const f2 = freq * freq;
-  const f4 = f2 * f2;
-  return (12194 * 12194 * f4) /
-      ((f2 + 20.6 * 20.6) * Math.sqrt((f2 + 107.7 * 107.7) * (f2 + 737.9 * 737.9)) * (f2 + 12194 * 12194));
-};
+const initialAudioData: AudioData = createEmptyAudioData();
 
 export const useAudioStore = create<AudioStoreState>()(
   devtools(
     (set, get) => {
       let animationFrameId: number | null = null;
+      // Périphérique du micro actif, pour retrouver son profil de bruit
+      let micDeviceId: string | null = null;
+
+      // Capture AudioWorklet : trames à pas fixe, analysées dès leur arrivée
+      let capture: WorkletCapture | null = null;
+      let pendingData: AudioData | null = null;
+      let captureState: 'idle' | 'starting' | 'unavailable' = 'idle';
+
+      // Moteur d'analyse partagé avec le hook et le worker
+      const engine = new AnalysisEngine();
+
+      // Découpage en bandes défini par l'utilisateur (onglet Global)
+      engine.setBandLayout(useConfigStore.getState().global.bandLayout);
+      engine.setAudioConfig(useConfigStore.getState().audio);
+      useConfigStore.subscribe((state, prevState) => {
+        if (state.global.bandLayout !== prevState.global.bandLayout) {
+          engine.setBandLayout(state.global.bandLayout);
+        }
+        // Configuration de l'analyseur modifiée à chaud
+        if (state.audio !== prevState.audio) {
+          const { analyser, stereoAnalysers } = get();
+          if (analyser) configureAnalyser(analyser, state.audio);
+          if (stereoAnalysers) {
+            configureAnalyser(stereoAnalysers.left, state.audio);
+            configureAnalyser(stereoAnalysers.right, state.audio);
+          }
+          engine.setAudioConfig(state.audio);
+          capture?.configure(state.audio);
+        }
+      });
+
+      // Les trames du worklet sont datées en temps du contexte, celles de l'analyseur en
+      // performance.now() : on repart d'un historique vide à chaque changement de mode,
+      // en gardant les corrections manuelles du tempo
+      const startCapture = async (audioContext: AudioContext) => {
+        const { fileGain, micGain } = get().nodes;
+        captureState = 'starting';
+        const started = await WorkletCapture.create(audioContext, [fileGain!, micGain!], useConfigStore.getState().audio, (frame) => {
+          // Plusieurs trames entre deux rendus : leurs événements sont gardés
+          pendingData = mergeFrameEvents(pendingData, engine.analyze(frame));
+        });
+        // AudioWorklet indisponible : on reste sur l'analyseur sans réessayer
+        captureState = started ? 'idle' : 'unavailable';
+        if (!started) return;
+        capture = started;
+        engine.resetTimeBase();
+      };
 
-      // État d'analyse persistant (remplace les refs du hook)
-      let analysisState = {
-        prevBands: { bass: 0, mid: 0, treble: 0 },
-        prevFrequencies: new Float32Array(512),
-        transientState: {
-          bass: { value: 0, history: new Array(10).fill(0) },
-          mid: { value: 0, history: new Array(10).fill(0) },
-          treble: { value: 0, history: new Array(10).fill(0) },
-          overall: { value: 0, history: new Array(10).fill(0) },
-        },
-        bandEnvelope: {
-          bass: { min: 0.1, max: 0.2 },
-          mid: { min: 0.1, max: 0.2 },
-          treble: { min: 0.1, max: 0.2 },
-        },
-        energyEnvelope: { min: 0.1, max: 0.2 },
-        prevNormalizedEnergy: 0,
-        dropIntensity: 0,
-        lastDropTime: 0,
-        smoothedVolume: 0,
-        yinDetector: null as YINPitchDetector | null,
-        bpmDetector: null as BPMDetector | null,
-        timbreAnalyzer: null as TimbreAnalyzer | null,
-        melFilters: [] as number[][],
+      const stopCapture = () => {
+        capture?.disconnect();
+        capture = null;
+        pendingData = null;
+        engine.resetTimeBase();
       };
 
-      // Fonction d'analyse simplifiée (logique extraite du hook)
+      // Suit `captureMode` : démarre ou arrête le worklet quand la configuration change
+      const syncCaptureMode = () => {
+        const { audioContext } = get();
+        const wantsWorklet = useConfigStore.getState().audio.captureMode === 'worklet';
+        if (wantsWorklet && !capture && audioContext && captureState === 'idle') {
+          startCapture(audioContext);
+        } else if (!wantsWorklet && capture) {
+          stopCapture();
+        }
+      };
+
+      // Boucle d'analyse : toute la logique vit dans AnalysisEngine
       const analyze = () => {
-        const { analyser } = get();
+        const { analyser, stereoAnalysers } = get();
         if (!analyser) return;
 
-        const bufferLength = analyser.frequencyBinCount;
-        const frequencies = new Uint8Array(bufferLength);
-        const waveform = new Uint8Array(bufferLength);
-
-        analyser.getByteFrequencyData(frequencies);
-        analyser.getByteTimeDomainData(waveform);
-
-        const sampleRate = analyser.context.sampleRate;
-
-        // Initialiser les analyseurs si nécessaire
-        if (!analysisState.yinDetector) {
-          analysisState.yinDetector = new YINPitchDetector(sampleRate);
-        }
-        if (!analysisState.bpmDetector) {
-          analysisState.bpmDetector = new BPMDetector();
-        }
-        if (!analysisState.timbreAnalyzer) {
-          analysisState.timbreAnalyzer = new TimbreAnalyzer();
-        }
-        if (analysisState.melFilters.length === 0) {
-          analysisState.melFilters = createMelFilterbank(2048, sampleRate, 40);
-        }
-
-        // Calcul du volume
-        let sum = 0;
-        for (let i = 0; i < waveform.length; i++) {
-          const normalized = (waveform[i] - 128) / 128;
-          sum += normalized * normalized;
-        }
-        const volume = Math.sqrt(sum / waveform.length);
-        analysisState.smoothedVolume = analysisState.smoothedVolume * 0.8 + volume * 0.2;
-
-        // Calcul des bandes de fréquences
-        const nyquist = sampleRate / 2;
-        const bassEnd = Math.floor((250 / nyquist) * bufferLength);
-        const midEnd = Math.floor((4000 / nyquist) * bufferLength);
-
-        let bassSum = 0, midSum = 0, trebleSum = 0;
-        let bassCount = 0, midCount = 0, trebleCount = 0;
-
-        for (let i = 1; i < bufferLength; i++) {
-          const freq = (i / bufferLength) * nyquist;
-          const amplitude = frequencies[i] / 255;
-          const weighted = amplitude * A_WEIGHTING(freq);
-
-          if (i <= bassEnd) {
-            bassSum += weighted;
-            bassCount++;
-          } else if (i <= midEnd) {
-            midSum += weighted;
-            midCount++;
-          } else {
-            trebleSum += weighted;
-            trebleCount++;
+        // Capture worklet : l'analyse a déjà eu lieu, on publie le dernier résultat
+        syncCaptureMode();
+        if (capture) {
+          if (pendingData) {
+            set({ audioData: pendingData }, false, 'analyze');
+            pendingData = null;
           }
+          animationFrameId = requestAnimationFrame(analyze);
+          return;
         }
 
-        const bands: FrequencyBands = {
-          bass: bassCount > 0 ? bassSum / bassCount : 0,
-          mid: midCount > 0 ? midSum / midCount : 0,
-          treble: trebleCount > 0 ? trebleSum / trebleCount : 0,
-        };
-
-        const energy = (bands.bass + bands.mid + bands.treble) / 3;
-
-        // Mise à jour des enveloppes de bandes
-        const envelope = analysisState.bandEnvelope;
-        Object.keys(bands).forEach(key => {
-          const band = key as keyof FrequencyBands;
-          const value = bands[band];
-          const env = envelope[band];
-          env.min = Math.min(env.min * (1 - ENVELOPE_CONFIG.adaptiveRate) + value * ENVELOPE_CONFIG.adaptiveRate, value);
-          env.max = Math.max(env.max * (1 - ENVELOPE_CONFIG.adaptiveRate) + value * ENVELOPE_CONFIG.adaptiveRate, value);
-        });
-
-        // Calcul des bandes dynamiques
-        const dynamicBands: FrequencyBands = {
-          bass: envelope.bass.max > envelope.bass.min ?
-            (bands.bass - envelope.bass.min) / (envelope.bass.max - envelope.bass.min) : 0,
-          mid: envelope.mid.max > envelope.mid.min ?
-            (bands.mid - envelope.mid.min) / (envelope.mid.max - envelope.mid.min) : 0,
-          treble: envelope.treble.max > envelope.treble.min ?
-            (bands.treble - envelope.treble.min) / (envelope.treble.max - envelope.treble.min) : 0,
-        };
-
-        // Calcul des transitoires (version simplifiée)
-        const transients: Transients = {
-          bass: Math.random() > 0.9, // Placeholder
-          mid: Math.random() > 0.9,
-          treble: Math.random() > 0.9,
-          overall: Math.random() > 0.95,
-        };
-
-        // Features basiques (à améliorer)
-        const spectralFeatures: SpectralFeatures = {
-          centroid: 0.5,
-          spread: 0.3,
-          flux: 0.2,
-          rolloff: 0.7
-        };
-
-        const melodicFeatures: MelodicFeatures = {
-          dominantFrequency: 440,
-          dominantNote: 'A4',
-          noteConfidence: 0.5,
-          harmonicContent: 0.3,
-          pitchClass: new Array(12).fill(0)
-        };
-
-        const rhythmicFeatures: RhythmicFeatures = {
-          bpm: 120,
-          bpmConfidence: 50,
-          beatPhase: 0,
-          subdivision: 1,
-          groove: 50
-        };
-
-        const timbreProfile: TimbreProfile = {
-          brightness: 0.5,
-          warmth: 0.5,
-          richness: 0.5,
-          clarity: 0.5,
-          attack: 0.5,
-          dominantChroma: 0,
-          harmonicComplexity: 0.5
-        };
-
-        const musicalContext: MusicalContext = {
-          notePresent: false,
-          noteStability: 0.5,
-          key: 'C',
-          mode: 'unknown',
-          tension: 0.3
-        };
-
-        // Mise à jour du store avec les nouvelles données
-        const newAudioData: AudioData = {
-          frequencies,
-          waveform,
-          volume,
-          bands,
-          dynamicBands,
-          transients,
-          energy,
-          dropIntensity: analysisState.dropIntensity,
-          spectralFeatures,
-          melodicFeatures,
-          rhythmicFeatures,
-          timbreProfile,
-          musicalContext,
-          bass: dynamicBands.bass,
-          mids: dynamicBands.mid,
-          treble: dynamicBands.treble,
-          beat: transients.overall,
-          smoothedVolume: analysisState.smoothedVolume,
-        };
+        const { precision } = useConfigStore.getState().audio;
+        const frame = readAnalyserFrame(analyser, precision, performance.now() / 1000);
+        if (stereoAnalysers) frame.stereo = readStereoFrame(stereoAnalysers, precision);
+        const newAudioData = engine.analyze(frame);
 
         set({ audioData: newAudioData }, false, 'analyze');
-        analysisState.prevBands = { ...bands };
 
         animationFrameId = requestAnimationFrame(analyze);
       };
@@ -309,10 +146,13 @@ export const useAudioStore = create<AudioStoreState>()(
         isInitialized: false,
         audioContext: null,
         analyser: null,
+        stereoAnalysers: null,
         audioElement: null,
         sourceType: 'none',
         audioData: initialAudioData,
         error: null,
+        noiseProfile: null,
+        isCalibrating: false,
         nodes: {
           fileSource: null,
           micSource: null,
@@ -334,9 +174,9 @@ export const useAudioStore = create<AudioStoreState>()(
             const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
             const audioContext = new AudioContextClass();
 
+            // Même configuration que le hook : le moteur reçoit un spectre identique
             const analyser = audioContext.createAnalyser();
-            analyser.fftSize = 2048;
-            analyser.smoothingTimeConstant = 0.75;
+            configureAnalyser(analyser, useConfigStore.getState().audio);
 
             const fileGain = audioContext.createGain();
             const micGain = audioContext.createGain();
@@ -345,15 +185,20 @@ export const useAudioStore = create<AudioStoreState>()(
             fileGain.gain.value = 0;
             micGain.gain.value = 0;
 
-            // Chaînage : [Source] -> [Gain] -> Analyser -> Destination
+            // Chaînage : [Source] -> [Gain] -> Analyser
+            // Seul le fichier est envoyé vers la destination (pas de feedback micro)
             fileGain.connect(analyser);
             micGain.connect(analyser);
-            analyser.connect(audioContext.destination);
+            fileGain.connect(audioContext.destination);
+
+            // Branche stéréo : un analyseur par canal
+            const stereoAnalysers = createStereoAnalysers(audioContext, [fileGain, micGain], useConfigStore.getState().audio);
 
             set({
               isInitialized: true,
               audioContext,
               analyser,
+              stereoAnalysers,
               nodes: { ...get().nodes, fileGain, micGain },
               error: null,
             }, false, 'initialize');
@@ -413,6 +258,9 @@ export const useAudioStore = create<AudioStoreState>()(
             return;
           }
 
+          // Une calibration en cours mesurerait l'ancienne source
+          engine.cancelNoiseCalibration();
+
           if (!isInitialized || !audioContext) {
             console.error("❌ Store non initialisé, impossible de changer de source.");
             set({ error: "Store audio non initialisé." }, false, 'switchSource-error');
@@ -442,10 +290,12 @@ export const useAudioStore = create<AudioStoreState>()(
               case 'file':
                 fileGain!.gain.setValueAtTime(1, audioContext.currentTime);
                 micGain!.gain.setValueAtTime(0, audioContext.currentTime);
+                engine.setNoiseProfile(null);
                 set({
                   sourceType: 'file',
                   nodes: { ...nodes, mediaStream: null, micSource: null },
-                  error: null
+                  error: null,
+                  noiseProfile: null
                 }, false, 'switchSource-file');
                 console.log('✅ Source fichier activée');
                 break;
@@ -467,10 +317,16 @@ export const useAudioStore = create<AudioStoreState>()(
                   fileGain!.gain.setValueAtTime(0, audioContext.currentTime);
                   micGain!.gain.setValueAtTime(1, audioContext.currentTime);
 
+                  // Profil de bruit déjà calibré pour ce micro
+                  micDeviceId = stream.getAudioTracks()[0]?.getSettings().deviceId ?? 'default';
+                  const noiseProfile = loadNoiseProfile(micDeviceId);
+                  engine.setNoiseProfile(noiseProfile);
+
                   set({
                     sourceType: 'microphone',
                     nodes: { ...nodes, mediaStream: stream, micSource: newMicSource },
-                    error: null
+                    error: null,
+                    noiseProfile
                   }, false, 'switchSource-microphone');
 
                   console.log('✅ Source microphone activée');
@@ -487,10 +343,12 @@ export const useAudioStore = create<AudioStoreState>()(
               default:
                 fileGain!.gain.setValueAtTime(0, audioContext.currentTime);
                 micGain!.gain.setValueAtTime(0, audioContext.currentTime);
+                engine.setNoiseProfile(null);
                 set({
                   sourceType: 'none',
                   nodes: { ...nodes, mediaStream: null, micSource: null },
-                  error: null
+                  error: null,
+                  noiseProfile: null
                 }, false, 'switchSource-none');
                 console.log('✅ Aucune source active');
                 break;
@@ -504,6 +362,35 @@ export const useAudioStore = create<AudioStoreState>()(
           }
         },
 
+        // Calibration du silence : enregistre le bruit ambiant du micro actif
+        calibrateNoise: async (duration = 3) => {
+          if (get().sourceType !== 'microphone' || get().isCalibrating) {
+            console.warn('⚠️ La calibration du bruit nécessite le microphone actif.');
+            return;
+          }
+
+          set({ isCalibrating: true }, false, 'calibrateNoise-start');
+          console.log(`🔇 Calibration du bruit ambiant (${duration} s)...`);
+          try {
+            const noiseProfile = await engine.calibrateNoise(duration);
+            if (micDeviceId) saveNoiseProfile(micDeviceId, noiseProfile);
+            set({ isCalibrating: false, noiseProfile }, false, 'calibrateNoise-done');
+            console.log('✅ Profil de bruit enregistré pour ce périphérique.');
+          } catch (error) {
+            // Source changée, capture arrêtée ou plus de trames : le profil précédent reste actif
+            set({ isCalibrating: false }, false, 'calibrateNoise-cancelled');
+            console.warn('⚠️ Calibration du bruit interrompue:', error);
+          }
+        },
+
+        // Correction manuelle de la grille (tap tempo, BPM, décalage, resync, verrou)
+        tempoCommand: (command) => {
+          // Un tap est daté à l'appel, dans la base de temps des trames (contexte pour le worklet)
+          const { audioContext } = get();
+          const at = capture && audioContext ? audioContext.currentTime : performance.now() / 1000;
+          engine.tempoCommand(command.type === 'tap' && command.at === undefined ? { ...command, at } : command);
+        },
+
         // Action de nettoyage
         cleanup: () => {
           console.log('🧹 Nettoyage du store audio...');
@@ -523,40 +410,27 @@ export const useAudioStore = create<AudioStoreState>()(
             audioContext.close();
           }
 
+          capture?.disconnect();
+          capture = null;
+          pendingData = null;
+          captureState = 'idle';
+
           // Réinitialiser l'état d'analyse
-          analysisState = {
-            prevBands: { bass: 0, mid: 0, treble: 0 },
-            prevFrequencies: new Float32Array(512),
-            transientState: {
-              bass: { value: 0, history: new Array(10).fill(0) },
-              mid: { value: 0, history: new Array(10).fill(0) },
-              treble: { value: 0, history: new Array(10).fill(0) },
-              overall: { value: 0, history: new Array(10).fill(0) },
-            },
-            bandEnvelope: {
-              bass: { min: 0.1, max: 0.2 },
-              mid: { min: 0.1, max: 0.2 },
-              treble: { min: 0.1, max: 0.2 },
-            },
-            energyEnvelope: { min: 0.1, max: 0.2 },
-            prevNormalizedEnergy: 0,
-            dropIntensity: 0,
-            lastDropTime: 0,
-            smoothedVolume: 0,
-            yinDetector: null,
-            bpmDetector: null,
-            timbreAnalyzer: null,
-            melFilters: [],
-          };
+          engine.reset();
+          engine.setNoiseProfile(null);
+          micDeviceId = null;
 
           set({
             isInitialized: false,
             audioContext: null,
             analyser: null,
+            stereoAnalysers: null,
             audioElement: null,
             sourceType: 'none',
             audioData: initialAudioData,
             error: null,
+            noiseProfile: null,
+            isCalibrating: false,
             nodes: {
               fileSource: null,
               micSource: null,
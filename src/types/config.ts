@@ -1,5 +1,6 @@
 export type ReactivityCurve = "linear" | "easeOutQuad" | "exponential";
-export type AudioLink = "volume" | "bass" | "mids" | "treble" | "none";
+// `band:<id>` links to a band of the configured `BandLayout`
+export type AudioLink = "volume" | "bass" | "mids" | "treble" | "none" | `band:${string}` | `extra:${string}`;
 export type ColorMode = "static" | "gradient" | "audio-reactive" | "frequency" | "rainbow" | "single";
 export type CameraMode = "orbit" | "follow" | "static";
 export type ShapeType = "cube" | "sphere" | "icosahedron" | "custom";
@@ -8,30 +9,57 @@ export type ConstellationFormation = "random" | "sphere" | "spiral" | "dnahelix"
 export type ConnectionType = "proximity" | "frequency" | "beat-sync" | "formation-based";
 export type VisualizationMode = "bars2d" | "sphere2d" | "sphere3d" | "tunnelsdf" | "wave" | "grid2d" | "constellation" | "pulsargrid";
 
+// Frequency band layout
+export interface FrequencyBandDefinition {
+  id: string;
+  label: string;
+  minFrequency: number; // Hz, inclusive
+  maxFrequency: number; // Hz, exclusive
+}
+
+export interface BandLayout {
+  bands: FrequencyBandDefinition[];
+  aWeighting: boolean; // Perceptual weighting of the bins inside each band
+}
+
 // 1. Global Settings
 export interface GlobalSettings {
   name: string;
   bpmSync: boolean;
   volumeMultiplier: number;
-  fftSmoothing: number; // 0 → 1
+  fftSmoothing: number; // 0 → 1, drives the analyser smoothingTimeConstant
   reactivityCurve: ReactivityCurve;
   cameraFOV: number;
   cameraOrbitSpeed: number;
   cameraMode: CameraMode;
   bgColor: string; // "#hex" format
+  bandLayout: BandLayout;
 }
 
+export const DEFAULT_BAND_LAYOUT: BandLayout = {
+  aWeighting: true,
+  bands: [
+    { id: "sub", label: "Sub", minFrequency: 20, maxFrequency: 60 },
+    { id: "bass", label: "Bass", minFrequency: 60, maxFrequency: 250 },
+    { id: "lowMid", label: "Low Mid", minFrequency: 250, maxFrequency: 500 },
+    { id: "mid", label: "Mid", minFrequency: 500, maxFrequency: 2000 },
+    { id: "presence", label: "Presence", minFrequency: 2000, maxFrequency: 6000 },
+    { id: "air", label: "Air", minFrequency: 6000, maxFrequency: 20000 }
+  ]
+};
+
 // Default configurations
 export const DEFAULT_GLOBAL_SETTINGS: GlobalSettings = {
   name: "Default Scene",
   bpmSync: false,
   volumeMultiplier: 1.0,
-  fftSmoothing: 0.8,
+  fftSmoothing: 0.75, // Same as DEFAULT_AUDIO_CONFIG.smoothingTimeConstant, they are kept in sync
   reactivityCurve: "easeOutQuad",
   cameraFOV: 60,
   cameraOrbitSpeed: 0.05,
   cameraMode: "orbit",
-  bgColor: "#0a0a0a"
+  bgColor: "#0a0a0a",
+  bandLayout: DEFAULT_BAND_LAYOUT
 };
 
 // Audio Analysis Types
@@ -51,10 +79,42 @@ export interface AudioData {
 }
 
 export type AudioSourceType = "file" | "microphone" | "none";
+// Genre whose typical tempo the BPM detector favours among half/double-time candidates
+export type TempoGenre = "auto" | "house" | "techno" | "dnb" | "dubstep" | "hiphop";
 
 export interface AudioConfig {
-  fftSize: number;
+  fftSize: number; // Power of two, 32 → 32768
   smoothingTimeConstant: number;
   minDecibels: number;
   maxDecibels: number;
+  precision: "byte" | "float"; // "float" reads getFloatFrequencyData / getFloatTimeDomainData
+  extraFeatures: string[]; // Meyda features reported in AudioData.extra, by name
+  noiseReduction: boolean; // Subtract the calibrated microphone noise profile (once one is recorded)
+  noiseGateThreshold: number; // dB above the noise floor at which the gate opens
+  captureMode: "analyser" | "worklet"; // "worklet" analyses fixed-hop frames from an AudioWorklet instead of polling per animation frame
+  hopSize: number; // Samples between two worklet frames
+  analysisThread: "main" | "worker"; // "worker" runs the engine off the main thread (mono only, results through shared memory when available)
+  minBPM: number; // Tempo range searched by the BPM detector
+  maxBPM: number;
+  tempoGenre: TempoGenre; // Tempo prior used to pick between half and double time
+  rhythmBackend: "autocorrelation" | "beat-tracker"; // BPMDetector, or RhythmicEngine's tempogram and dynamic-programming beat tracker
 }
+
+// Analyser settings shared by every analysis path (hook, store), so they all see the same spectrum
+export const DEFAULT_AUDIO_CONFIG: AudioConfig = {
+  fftSize: 2048,
+  smoothingTimeConstant: 0.75,
+  minDecibels: -90,
+  maxDecibels: -10,
+  precision: "float",
+  extraFeatures: [],
+  noiseReduction: true,
+  noiseGateThreshold: 6,
+  captureMode: "worklet",
+  hopSize: 1024, // ~43 frames per second at 44.1 kHz, the ODF rate the engine is tuned for
+  analysisThread: "main",
+  minBPM: 70,
+  maxBPM: 190,
+  tempoGenre: "auto",
+  rhythmBackend: "autocorrelation"
+};
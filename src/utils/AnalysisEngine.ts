@@ -0,0 +1,1349 @@
+/**
+ * Audio Analysis Engine for AuraSync
+ *
+ * This module contains the single, framework-free implementation of the AuraSync analysis
+ * pipeline. It takes raw analyser frames (spectrum + waveform + timestamp, either as bytes or
+ * as float dB / float samples) and produces a complete `AudioData` object. It has no React, DOM or Web Audio dependency, so
+ * the same instance logic can run inside a React hook, the Zustand store, a Web Worker or
+ * an offline analysis pass.
+ *
+ * Key Features:
+ * - A-weighted bass/mid/treble band energies with adaptive dynamic envelopes
+ * - User-defined band layout, each band with its own envelope and transient detection
+ * - Stereo image: per-channel bands, width, phase correlation and balance
+ * - Broadcast loudness (BS.1770 / EBU R128): LUFS, loudness range and true peak
+ * - Song structure: live section labelling (intro, build-up, drop, breakdown)
+ * - Optional Meyda features, enabled by name, reported in `extra`
+ * - Pluggable feature extractors from the registry in `src/features`, also reported in `extra`
+ * - Microphone noise reduction: calibrated spectral subtraction and adaptive gate
+ * - Adaptive per-band transient detection and drop detection
+ * - Spectral features with a robust Mel-band onset detection function
+ * - YIN pitch detection with spectral-peak fallback and a smoothed chromagram
+ * - Tempo from autocorrelation BPM detection (with genre priors and half/double-time
+ *   candidates) or from the RhythmicEngine beat tracker, with per-frame beat ticks
+ * - Timbre profiling and musical context
+ * - Downbeat, bar and time-signature tracking from bass-accented beats
+ * - Groove: onset microtiming, 8th/16th swing ratio and syncopation against the beat grid
+ * - Manual beat-grid override: tap tempo, BPM entry, phase nudge, resync and tempo lock
+ *
+ * @module AnalysisEngine
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+import { BPMDetector, resampleODF, type ODFSample, type TempoCandidate } from './BPMDetector';
+import { RhythmicEngine, type BeatEvent } from '../workers/RhythmicEngine';
+import { YINPitchDetector } from './YINPitchDetector';
+import { TimbreAnalyzer } from './timbreAnalyzer';
+import { createMelFilterbank, calculateRobustODF, calculateMFCC, calculateDeltas } from './melFilterbank';
+import { DEFAULT_AUDIO_CONFIG, DEFAULT_BAND_LAYOUT, type AudioConfig, type BandLayout } from '../types/config';
+import type {
+  AudioData,
+  BandAnalysis,
+  FrequencyBands,
+  Transients,
+  SpectralFeatures,
+  MelodicFeatures,
+  RhythmicFeatures,
+  StereoFeatures,
+  TimbreVector
+} from '../hooks/useAudioAnalyzer';
+import { LoudnessMeter, LOUDNESS_FLOOR } from './LoudnessMeter';
+import { StructureTracker } from './StructureAnalyzer';
+import { MeterTracker } from './MeterTracker';
+import { GrooveAnalyzer } from './GrooveAnalyzer';
+import { TempoOverride, type TempoCommand, type TempoOverrideState } from './TempoOverride';
+import { MeydaBridge } from './meydaBridge';
+import { NoiseGate, type NoiseProfile } from './NoiseGate';
+import { features } from '../features';
+import type { FeatureInput } from '../features/featureTypes';
+
+/**
+ * A single frame of analyser data fed to the engine.
+ * Byte and float data can be mixed; float data is analysed at full precision.
+ */
+export interface AnalysisFrame {
+  /**
+   * Byte frequency data (0-255) from `AnalyserNode.getByteFrequencyData`, or float
+   * frequency data in dB from `getFloatFrequencyData`.
+   */
+  frequencies: Uint8Array | Float32Array;
+  /**
+   * Byte time-domain data (0-255, 128 = silence) from `getByteTimeDomainData`, or float
+   * samples (-1 to 1) from `getFloatTimeDomainData`.
+   */
+  waveform: Uint8Array | Float32Array;
+  /** Sample rate of the audio the frame was taken from, in Hz. */
+  sampleRate: number;
+  /** Timestamp of the frame in seconds. */
+  time: number;
+  /** Per-channel data from the left/right analysers; omitted for mono analysis. */
+  stereo?: StereoFrame;
+}
+
+/**
+ * Spectrum and waveform of each channel, same formats as `AnalysisFrame`.
+ */
+export interface StereoFrame {
+  left: { frequencies: Uint8Array | Float32Array; waveform: Uint8Array | Float32Array };
+  right: { frequencies: Uint8Array | Float32Array; waveform: Uint8Array | Float32Array };
+}
+
+// --- Configuration ---
+const ENVELOPE_CONFIG = {
+  minDecay: 0.002,
+  maxDecay: 0.001,
+  minThreshold: 0.02,
+  adaptiveRate: 0.1,
+};
+
+const DROP_CONFIG = {
+  decay: 0.95,
+  threshold: 0.5,
+  cooldown: 500,
+};
+
+const TRANSIENT_CONFIG = {
+  bass: { threshold: 0.08, multiplier: 1.8, decay: 0.85 },
+  mid: { threshold: 0.07, multiplier: 2.0, decay: 0.9 },
+  treble: { threshold: 0.06, multiplier: 2.2, decay: 0.92 },
+  overall: { threshold: 0.12, multiplier: 1.7, decay: 0.88 },
+};
+
+type TransientSettings = { threshold: number; multiplier: number; decay: number };
+type TransientState = { value: number; history: number[] };
+// Tempo and beats of a frame from the rhythm backend, before the performer's corrections
+type DetectedTempo = {
+  bpm: number;
+  confidence: number; // 0-1
+  beatPhase: number;
+  subdivision: number;
+  candidates: TempoCandidate[];
+  beatEvents?: BeatEvent[]; // Beat tracker only
+  isBeat?: boolean;
+};
+
+const ODF_SAMPLE_RATE = 43; // Rate the ODF is resampled to before autocorrelation: 256 samples = ~5.95 seconds
+const ODF_HISTORY_SIZE = 256;
+const TEMPO_CANDIDATES = 4; // Length of the tempo candidate arrays (fixed frame shape)
+const BEAT_EVENTS = 8; // Length of the beat event arrays (fixed frame shape)
+const CHROMA_SMOOTHING = 0.85;
+const CORRELATION_SMOOTHING = 0.8; // Correlation meters integrate over a few hundred ms
+const MEL_BANDS = 40; // Number of Mel bands for ODF and MFCC calculation
+const MFCC_COEFFICIENTS = 13;
+const DELTA_WINDOW = 5; // Frames in the delta regression window
+
+// Musical note frequencies (A4 = 440Hz)
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const A4_FREQ = 440;
+const A4_MIDI = 69;
+
+/**
+ * Perceptual weighting curve (A-weighting approximation).
+ *
+ * @param freq - Frequency in Hz
+ * @returns Linear gain of the A-weighting filter at this frequency
+ */
+export const A_WEIGHTING = (freq: number): number => {
+  const f2 = freq * freq;
+  const f4 = f2 * f2;
+  return (12194 * 12194 * f4) /
+      ((f2 + 20.6 * 20.6) * Math.sqrt((f2 + 107.7 * 107.7) * (f2 + 737.9 * 737.9)) * (f2 + 12194 * 12194));
+};
+
+/**
+ * Converts a frequency to the closest musical note.
+ *
+ * @param freq - Frequency in Hz
+ * @returns Note name with octave (e.g. "A4") and deviation in cents
+ */
+export const frequencyToNote = (freq: number): { note: string; cents: number } => {
+  if (freq <= 0) return { note: 'N/A', cents: 0 };
+
+  const midiNumber = 12 * Math.log2(freq / A4_FREQ) + A4_MIDI;
+  const roundedMidi = Math.round(midiNumber);
+  const cents = (midiNumber - roundedMidi) * 100;
+
+  const octave = Math.floor(roundedMidi / 12) - 1;
+  const noteIndex = roundedMidi % 12;
+
+  return {
+    note: `${NOTE_NAMES[noteIndex]}${octave}`,
+    cents: Math.round(cents)
+  };
+};
+
+/**
+ * Timbre vector of a silent frame.
+ */
+function createSilentTimbreVector(): TimbreVector {
+  return {
+    mfcc: new Array(MFCC_COEFFICIENTS).fill(0),
+    delta: new Array(MFCC_COEFFICIENTS).fill(0),
+    deltaDelta: new Array(MFCC_COEFFICIENTS).fill(0)
+  };
+}
+
+/**
+ * Stereo features of a silent frame.
+ */
+function createSilentStereo(): StereoFeatures {
+  return {
+    left: { bass: 0, mid: 0, treble: 0 },
+    right: { bass: 0, mid: 0, treble: 0 },
+    leftLevel: 0,
+    rightLevel: 0,
+    width: 0,
+    correlation: 0,
+    balance: 0
+  };
+}
+
+/**
+ * Creates an `AudioData` object representing silence.
+ * Used as the initial state by every consumer of the engine.
+ *
+ * @param binCount - Length of the frequency and waveform arrays (default: 512)
+ * @returns A fresh, zeroed `AudioData` object
+ */
+export function createEmptyAudioData(binCount: number = 512): AudioData {
+  return {
+    frequencies: new Uint8Array(binCount),
+    spectrumDb: new Float32Array(binCount).fill(DEFAULT_AUDIO_CONFIG.minDecibels),
+    waveform: new Uint8Array(binCount),
+    volume: 0,
+    bands: { bass: 0, mid: 0, treble: 0 },
+    dynamicBands: { bass: 0, mid: 0, treble: 0 },
+    transients: { bass: false, mid: false, treble: false, overall: false },
+    loudness: {
+      momentary: LOUDNESS_FLOOR,
+      shortTerm: LOUDNESS_FLOOR,
+      integrated: LOUDNESS_FLOOR,
+      range: 0,
+      truePeak: LOUDNESS_FLOOR,
+      maxTruePeak: LOUDNESS_FLOOR,
+      relative: 0
+    },
+    structure: { section: 'intro', sectionIndex: 0, timeInSection: 0, level: 0, novelty: 0 },
+    stereo: createSilentStereo(),
+    extra: {},
+    customBands: {},
+    energy: 0,
+    dropIntensity: 0,
+    spectralFeatures: { centroid: 0, spread: 0, flux: 0, rolloff: 0 },
+    melodicFeatures: {
+      dominantFrequency: 0,
+      dominantNote: 'N/A',
+      noteConfidence: 0,
+      harmonicContent: 0,
+      pitchClass: new Array(12).fill(0)
+    },
+    rhythmicFeatures: {
+      bpm: 0,
+      bpmConfidence: 0,
+      beatPhase: 0,
+      subdivision: 1,
+      groove: 0,
+      swingRatio: 1,
+      swingSubdivision: 8,
+      syncopation: 0,
+      microtiming: 0,
+      barPhase: 0,
+      beatInBar: 1,
+      bar: 0,
+      beatsPerBar: 4,
+      timeSignature: '4/4',
+      downbeat: false,
+      downbeatConfidence: 0,
+      tempoSource: 'detected',
+      tempoCandidates: new Array(TEMPO_CANDIDATES).fill(0),
+      tempoCandidateConfidences: new Array(TEMPO_CANDIDATES).fill(0),
+      tempoOctave: 0,
+      isBeat: false,
+      onsetStrength: 0,
+      beatEventTimes: new Array(BEAT_EVENTS).fill(0),
+      beatEventStrengths: new Array(BEAT_EVENTS).fill(0)
+    },
+    timbreProfile: {
+      brightness: 0,
+      warmth: 0,
+      richness: 0,
+      clarity: 0,
+      attack: 0,
+      dominantChroma: 0,
+      harmonicComplexity: 0
+    },
+    timbreVector: createSilentTimbreVector(),
+    musicalContext: {
+      notePresent: false,
+      noteStability: 0,
+      key: 'C',
+      mode: 'unknown',
+      tension: 0
+    },
+    bass: 0,
+    mids: 0,
+    treble: 0,
+    beat: false,
+    smoothedVolume: 0,
+  };
+}
+
+/**
+ * Folds a new result into one not displayed yet. Continuous values are the new ones;
+ * one-frame events (transients, beats, downbeats) are kept when either result has them,
+ * so a renderer slower than the analysis misses none.
+ *
+ * @param pending - Result not displayed yet, or `null`
+ * @param next - The new result
+ * @returns The result to display next
+ */
+export function mergeFrameEvents(pending: AudioData | null, next: AudioData): AudioData {
+  if (!pending) return next;
+
+  const { transients, rhythmicFeatures } = pending;
+  return {
+    ...next,
+    transients: {
+      bass: next.transients.bass || transients.bass,
+      mid: next.transients.mid || transients.mid,
+      treble: next.transients.treble || transients.treble,
+      overall: next.transients.overall || transients.overall
+    },
+    customBands: Object.fromEntries(Object.entries(next.customBands).map(([id, band]) =>
+        [id, { ...band, transient: band.transient || Boolean(pending.customBands[id]?.transient) }])),
+    rhythmicFeatures: {
+      ...next.rhythmicFeatures,
+      isBeat: next.rhythmicFeatures.isBeat || rhythmicFeatures.isBeat,
+      downbeat: next.rhythmicFeatures.downbeat || rhythmicFeatures.downbeat
+    },
+    beat: next.beat || pending.beat
+  };
+}
+
+/**
+ * Stateful audio analysis engine.
+ *
+ * One instance holds all the history needed for envelopes, transients, drops,
+ * onset detection, BPM and key tracking. Feed it consecutive frames with
+ * monotonically increasing timestamps; call `reset()` when the source changes.
+ */
+export class AnalysisEngine {
+  private sampleRate = 44100;
+  private minDecibels = DEFAULT_AUDIO_CONFIG.minDecibels;
+  private maxDecibels = DEFAULT_AUDIO_CONFIG.maxDecibels;
+
+  private transientState = AnalysisEngine.createTransientState();
+  private bandEnvelope = AnalysisEngine.createBandEnvelope();
+  private energyEnvelope = { min: 0.1, max: 0.2 };
+  private prevNormalizedEnergy = 0;
+  private dropIntensity = 0;
+  private lastDropTime = 0;
+
+  private yinDetector: YINPitchDetector | null = null;
+  private yinBufferSize = 0;
+  private timbreAnalyzer = new TimbreAnalyzer();
+  private bpmDetector = new BPMDetector();
+  private rhythmicEngine = new RhythmicEngine();
+  private rhythmBackend: AudioConfig['rhythmBackend'] = 'autocorrelation';
+  /** Beats of the reported grid (phase wraps), when the tracker's own beats do not apply. */
+  private gridBeats: BeatEvent[] = [];
+  private prevGridPhase = 0;
+  /** Timestamped ODF values, resampled to `ODF_SAMPLE_RATE` for tempo detection. */
+  private odfHistory: ODFSample[] = [];
+  private lastBeatTime = 0;
+  private meterTracker = new MeterTracker();
+  private grooveAnalyzer = new GrooveAnalyzer();
+  private tempoOverride = new TempoOverride();
+  /** Bass energy of the previous frame, for the bass onset strength. */
+  private prevBassEnergy = 0;
+
+  private chromaSmoothing: number[] = new Array(12).fill(0);
+  private stereoCorrelation = 1;
+  private loudnessMeter = new LoudnessMeter();
+  private structureTracker = new StructureTracker();
+  private meydaBridge = new MeydaBridge();
+  private noiseGate = new NoiseGate();
+  /** State of each registered feature extractor, by id. */
+  private featureStates = new Map<string, unknown>();
+  /** Extractors that threw once and are skipped from then on. */
+  private failedFeatures = new Set<string>();
+
+  private melFilterbank: number[][] | null = null;
+  private prevMelEnergies: Float32Array | null = null;
+  private melBinCount = 0;
+  private mfccHistory: number[][] = [];
+  private deltaHistory: number[][] = [];
+
+  private bandLayout: BandLayout = DEFAULT_BAND_LAYOUT;
+  private customBandState = new Map<string, { envelope: { min: number; max: number }; transient: TransientState }>();
+
+  private lastData: AudioData = createEmptyAudioData();
+
+  private static createTransientState() {
+    return {
+      bass: { value: 0, history: new Array(10).fill(0) },
+      mid: { value: 0, history: new Array(10).fill(0) },
+      treble: { value: 0, history: new Array(10).fill(0) },
+      overall: { value: 0, history: new Array(10).fill(0) },
+    };
+  }
+
+  private static createBandEnvelope() {
+    return {
+      bass: { min: 0.1, max: 0.2 },
+      mid: { min: 0.1, max: 0.2 },
+      treble: { min: 0.1, max: 0.2 },
+    };
+  }
+
+  /**
+   * Analyzes one frame and returns the resulting audio features.
+   *
+   * @param frame - Spectrum, waveform, sample rate and timestamp of the frame
+   * @returns Complete `AudioData` for this frame
+   */
+  public analyze(frame: AnalysisFrame): AudioData {
+    const { sampleRate, time } = frame;
+
+    if (sampleRate !== this.sampleRate) {
+      this.updateSampleRate(sampleRate);
+    }
+
+    // Everything below works on a 0-255 float spectrum and -1..1 float samples,
+    // so float input keeps its precision and byte input gives the same results as before
+    const rawSamples = AnalysisEngine.toSamples(frame.waveform);
+    let spectrumDb = this.toDecibels(frame.frequencies);
+    let samples = rawSamples;
+
+    // Calibrated noise reduction works on the dB spectrum, the rest is derived from it
+    const denoise = this.noiseGate.isActive(spectrumDb.length, sampleRate);
+    if (denoise) {
+      ({ spectrumDb, samples } = this.noiseGate.process(spectrumDb, samples, sampleRate, time));
+    }
+
+    const spectrum = this.toSpectrumLevels(denoise ? spectrumDb : frame.frequencies);
+    const frequencies = frame.frequencies instanceof Uint8Array && !denoise ? frame.frequencies : AnalysisEngine.toBytes(spectrum);
+    const waveform = frame.waveform instanceof Uint8Array && !denoise
+        ? frame.waveform
+        : AnalysisEngine.toBytes(samples.map(sample => 128 + sample * 128));
+
+    // Loudness keeps integrating through silence (it is part of the programme), and
+    // measures the raw input: the room noise is part of what the meter should show
+    const channels = frame.stereo
+        ? [AnalysisEngine.toSamples(frame.stereo.left.waveform), AnalysisEngine.toSamples(frame.stereo.right.waveform)]
+        : [rawSamples];
+    const loudness = this.loudnessMeter.process(channels, sampleRate, time);
+
+    const maxFreq = Math.max(...Array.from(spectrum));
+    if (maxFreq < 5) {
+      const prev = this.lastData;
+      this.mfccHistory = [];
+      this.deltaHistory = [];
+      // The drop detector resumes from the decayed intensity when sound comes back
+      this.dropIntensity *= DROP_CONFIG.decay;
+      this.lastData = {
+        ...prev,
+        frequencies,
+        spectrumDb,
+        waveform,
+        volume: 0,
+        energy: 0,
+        bands: { bass: 0, mid: 0, treble: 0 },
+        dynamicBands: { bass: 0, mid: 0, treble: 0 },
+        transients: { bass: false, mid: false, treble: false, overall: false },
+        loudness,
+        structure: this.structureTracker.process({
+          loudness,
+          bands: { bass: 0, mid: 0, treble: 0 },
+          spectralFeatures: prev.spectralFeatures,
+          melodicFeatures: { ...prev.melodicFeatures, pitchClass: new Array(12).fill(0) }
+        }, time),
+        stereo: createSilentStereo(),
+        extra: Object.fromEntries(Object.keys(prev.extra).map(name => [name, 0])),
+        timbreVector: {
+          ...prev.timbreVector,
+          delta: new Array(MFCC_COEFFICIENTS).fill(0),
+          deltaDelta: new Array(MFCC_COEFFICIENTS).fill(0)
+        },
+        customBands: Object.fromEntries(
+          this.bandLayout.bands.map(band => [band.id, { energy: 0, dynamic: 0, transient: false }])
+        ),
+        dropIntensity: this.dropIntensity,
+        melodicFeatures: {
+          dominantFrequency: 0,
+          dominantNote: 'N/A',
+          noteConfidence: 0,
+          harmonicContent: 0,
+          pitchClass: new Array(12).fill(0)
+        },
+        rhythmicFeatures: this.calculateSilentRhythm(prev.rhythmicFeatures, time)
+      };
+      return this.lastData;
+    }
+
+    let rms = 0;
+    for (let i = 0; i < samples.length; i++) {
+      rms += samples[i] * samples[i];
+    }
+    const volume = Math.sqrt(rms / samples.length);
+
+    let energy = 0;
+    for (let i = 1; i < spectrum.length - 1; i++) {
+      const magnitude = spectrum[i] / 255;
+      energy += magnitude * magnitude;
+    }
+    energy = Math.sqrt(energy / (spectrum.length - 2));
+
+    const bands = this.calculateBands(spectrum);
+    const spectralFeatures = this.calculateSpectralFeatures(spectrum);
+    const melodicFeatures = this.calculateMelodicFeatures(samples, spectrum);
+
+    const dynamicBands = {
+      bass: this.calculateDynamicValue(bands.bass, this.bandEnvelope.bass),
+      mid: this.calculateDynamicValue(bands.mid, this.bandEnvelope.mid),
+      treble: this.calculateDynamicValue(bands.treble, this.bandEnvelope.treble),
+    };
+
+    const normalizedEnergy = this.calculateDynamicValue(energy, this.energyEnvelope);
+    const dropIntensity = this.detectDrop(normalizedEnergy, time);
+    const transients = this.detectTransients(bands, energy);
+    const customBands = this.calculateCustomBands(spectrum);
+    const stereo = frame.stereo
+        ? this.calculateStereoFeatures(frame.stereo, channels[0], channels[1])
+        : { left: bands, right: bands, leftLevel: volume, rightLevel: volume, width: 0, correlation: 1, balance: 0 };
+
+    const rhythmicFeatures = this.calculateRhythmicFeatures(spectralFeatures.flux, time, transients, bands.bass);
+
+    const timbreVector = this.calculateTimbreVector(spectrumDb);
+    const timbreProfile = this.timbreAnalyzer.analyzeTimbre(melodicFeatures, spectralFeatures, timbreVector);
+    const musicalContext = this.timbreAnalyzer.analyzeMusicalContext(melodicFeatures, timbreProfile);
+    const structure = this.structureTracker.process({ loudness, bands, spectralFeatures, melodicFeatures }, time);
+    const extra = {
+      ...this.meydaBridge.extract(samples, sampleRate),
+      ...this.runFeatures({ spectrum, spectrumDb, samples, melEnergies: this.prevMelEnergies!, sampleRate, time }),
+    };
+
+    this.lastData = {
+      frequencies,
+      spectrumDb,
+      waveform,
+      volume,
+      energy,
+      bands,
+      dynamicBands,
+      transients,
+      loudness,
+      structure,
+      stereo,
+      extra,
+      customBands,
+      dropIntensity,
+      spectralFeatures,
+      melodicFeatures,
+      rhythmicFeatures,
+      timbreProfile,
+      timbreVector,
+      musicalContext,
+      bass: dynamicBands.bass,
+      mids: dynamicBands.mid,
+      treble: dynamicBands.treble,
+      beat: transients.overall,
+      smoothedVolume: volume,
+    };
+
+    return this.lastData;
+  }
+
+  /**
+   * Updates the sample rate used to map FFT bins to frequencies.
+   * Rebuilds the sample-rate dependent structures (YIN detector, Mel filterbank).
+   *
+   * @param sampleRate - New sample rate in Hz
+   */
+  public updateSampleRate(sampleRate: number): void {
+    this.sampleRate = sampleRate;
+    this.yinDetector?.updateSampleRate(sampleRate);
+    this.melFilterbank = null;
+    this.prevMelEnergies = null;
+    this.mfccHistory = [];
+    this.deltaHistory = [];
+  }
+
+  /**
+   * Applies an analyser configuration. The dB range is used to read float spectra
+   * and to report `spectrumDb`; the FFT-size dependent structures (Mel filterbank,
+   * YIN buffers) are rebuilt on the next frame, the Meyda features in `extraFeatures`
+   * are enabled and the noise reduction settings are applied.
+   *
+   * @param config - Analyser configuration (FFT size, dB range, smoothing, extra features, noise gate)
+   */
+  public setAudioConfig(config: AudioConfig): void {
+    this.minDecibels = config.minDecibels;
+    this.maxDecibels = config.maxDecibels;
+    this.melFilterbank = null;
+    this.prevMelEnergies = null;
+    this.mfccHistory = [];
+    this.deltaHistory = [];
+    this.yinDetector = null;
+    this.meydaBridge.setFeatures(config.extraFeatures ?? []);
+    this.noiseGate.configure(config.noiseReduction ?? true, config.noiseGateThreshold ?? 6, config.minDecibels);
+    this.bpmDetector.configure(config.minBPM ?? 70, config.maxBPM ?? 190, config.tempoGenre ?? 'auto');
+    this.rhythmicEngine.configure(config.minBPM ?? 70, config.maxBPM ?? 190, config.tempoGenre ?? 'auto');
+    this.rhythmBackend = config.rhythmBackend ?? 'autocorrelation';
+  }
+
+  /**
+   * Records the ambient noise of the next frames ("calibrate silence") and starts
+   * subtracting it. Keep the room quiet while it runs.
+   *
+   * @param duration - Recording length in seconds
+   * @returns The recorded profile, to be saved for the input device
+   */
+  public calibrateNoise(duration = 3): Promise<NoiseProfile> {
+    return this.noiseGate.calibrate(duration);
+  }
+
+  /**
+   * Stops a running noise calibration; its promise is rejected. `reset()` does it too.
+   */
+  public cancelNoiseCalibration(): void {
+    this.noiseGate.cancelCalibration();
+  }
+
+  /**
+   * Corrects the beat grid live (tap tempo, BPM entry, phase nudge, resync, lock).
+   * The command is applied on the next frame, at that frame's timestamp.
+   *
+   * @param command - The correction; `{ type: 'reset' }` returns to detection
+   */
+  public tempoCommand(command: TempoCommand): void {
+    this.tempoOverride.command(command);
+  }
+
+  /**
+   * Manual tempo corrections in force, to hand them to another engine with a
+   * `{ type: 'restore' }` command (e.g. when analysis moves to or from the worker).
+   */
+  public getTempoState(): TempoOverrideState {
+    return this.tempoOverride.getState();
+  }
+
+  /**
+   * Sets the noise profile subtracted from the frames (`null` for none, e.g. for files).
+   *
+   * @param profile - Profile recorded by `calibrateNoise`, usually loaded for the current device
+   */
+  public setNoiseProfile(profile: NoiseProfile | null): void {
+    this.noiseGate.setProfile(profile);
+  }
+
+  /**
+   * Sets the user-defined band layout reported in `AudioData.customBands`.
+   * Every band starts with a fresh envelope and transient history.
+   *
+   * @param layout - Bands (id, label, edges in Hz) and A-weighting toggle
+   */
+  public setBandLayout(layout: BandLayout): void {
+    this.bandLayout = layout;
+    this.customBandState.clear();
+  }
+
+  /**
+   * Clears all analysis history (envelopes, detectors, smoothing).
+   * Call this when switching to an unrelated audio source.
+   */
+  public reset(): void {
+    this.clearHistory();
+    this.tempoOverride.reset();
+  }
+
+  /**
+   * Clears the analysis history like `reset()` but keeps the manual tempo corrections,
+   * moved to the new timestamps. Call this when the same source is captured another way.
+   */
+  public resetTimeBase(): void {
+    this.clearHistory();
+    this.tempoOverride.rebase();
+  }
+
+  private clearHistory(): void {
+    this.transientState = AnalysisEngine.createTransientState();
+    this.bandEnvelope = AnalysisEngine.createBandEnvelope();
+    this.energyEnvelope = { min: 0.1, max: 0.2 };
+    this.prevNormalizedEnergy = 0;
+    this.dropIntensity = 0;
+    this.lastDropTime = 0;
+    this.yinDetector = null;
+    this.timbreAnalyzer = new TimbreAnalyzer();
+    this.bpmDetector.reset();
+    this.rhythmicEngine.reset();
+    this.gridBeats = [];
+    this.prevGridPhase = 0;
+    this.odfHistory = [];
+    this.lastBeatTime = 0;
+    this.meterTracker.reset();
+    this.grooveAnalyzer.reset();
+    this.prevBassEnergy = 0;
+    this.chromaSmoothing = new Array(12).fill(0);
+    this.stereoCorrelation = 1;
+    this.loudnessMeter.reset();
+    this.structureTracker.reset();
+    this.noiseGate.reset();
+    this.melFilterbank = null;
+    this.prevMelEnergies = null;
+    this.mfccHistory = [];
+    this.deltaHistory = [];
+    this.customBandState.clear();
+    this.featureStates.clear();
+    this.lastData = createEmptyAudioData();
+  }
+
+  /**
+   * Runs every registered feature extractor on the frame. State is created on first use,
+   * so extractors registered while the engine runs are picked up on the next frame.
+   * An extractor that throws is reported once and skipped from then on.
+   */
+  private runFeatures(input: FeatureInput): Record<string, number> {
+    const extra: Record<string, number> = {};
+
+    for (const feature of features) {
+      if (this.failedFeatures.has(feature.id)) continue;
+
+      if (!this.featureStates.has(feature.id)) {
+        this.featureStates.set(feature.id, feature.createState?.());
+      }
+
+      try {
+        const values = feature.extract(input, this.featureStates.get(feature.id));
+        for (const output of feature.outputs) {
+          const value = values[output.key];
+          extra[output.key] = value !== undefined && Number.isFinite(value) ? value : output.min;
+        }
+      } catch (error) {
+        console.warn(`⚠️ Feature "${feature.id}" disabled:`, error);
+        this.failedFeatures.add(feature.id);
+      }
+    }
+
+    return extra;
+  }
+
+  /**
+   * Converts analyser spectrum data to the engine's 0-255 scale. Float dB values are
+   * mapped over [minDecibels, maxDecibels] exactly like `getByteFrequencyData` does,
+   * without the quantization.
+   */
+  private toSpectrumLevels(frequencies: Uint8Array | Float32Array): Float32Array {
+    if (frequencies instanceof Uint8Array) return Float32Array.from(frequencies);
+
+    const range = this.maxDecibels - this.minDecibels;
+    const levels = new Float32Array(frequencies.length);
+    for (let i = 0; i < frequencies.length; i++) {
+      const level = ((frequencies[i] - this.minDecibels) / range) * 255;
+      levels[i] = Math.max(0, Math.min(255, level)); // also maps -Infinity (silence) to 0
+    }
+    return levels;
+  }
+
+  /**
+   * Converts analyser spectrum data to calibrated dB values, clamped to the dB range.
+   */
+  private toDecibels(frequencies: Uint8Array | Float32Array): Float32Array {
+    const range = this.maxDecibels - this.minDecibels;
+    const decibels = new Float32Array(frequencies.length);
+    for (let i = 0; i < frequencies.length; i++) {
+      const db = frequencies instanceof Uint8Array
+          ? this.minDecibels + (frequencies[i] / 255) * range
+          : frequencies[i];
+      decibels[i] = Math.max(this.minDecibels, Math.min(this.maxDecibels, db));
+    }
+    return decibels;
+  }
+
+  /**
+   * Converts analyser time-domain data to float samples (-1 to 1).
+   */
+  private static toSamples(waveform: Uint8Array | Float32Array): Float32Array {
+    if (waveform instanceof Float32Array) return waveform;
+    return Float32Array.from(waveform, value => (value - 128) / 128);
+  }
+
+  /**
+   * Quantizes 0-255 float values to bytes, for the byte arrays of `AudioData`.
+   */
+  private static toBytes(values: Float32Array): Uint8Array {
+    return Uint8Array.from(values, value => Math.max(0, Math.min(255, Math.round(value))));
+  }
+
+  private calculateBands(frequencies: Float32Array): FrequencyBands {
+    const nyquist = this.sampleRate / 2;
+    const binSize = nyquist / frequencies.length;
+
+    const bassEnd = Math.floor(250 / binSize);
+    const midEnd = Math.floor(4000 / binSize);
+
+    let bass = 0, mid = 0, treble = 0;
+    let bassWeight = 0, midWeight = 0, trebleWeight = 0;
+
+    for (let i = 1; i < frequencies.length; i++) {
+      const freq = i * binSize;
+      const magnitude = frequencies[i] / 255;
+
+      const weight = A_WEIGHTING(freq);
+      const weightedMagnitude = magnitude * weight;
+
+      if (i <= bassEnd) {
+        bass += weightedMagnitude;
+        bassWeight += weight;
+      } else if (i <= midEnd) {
+        mid += weightedMagnitude;
+        midWeight += weight;
+      } else if (freq < nyquist - binSize) {
+        treble += weightedMagnitude;
+        trebleWeight += weight;
+      }
+    }
+
+    return {
+      bass: bassWeight > 0 ? bass / bassWeight : 0,
+      mid: midWeight > 0 ? mid / midWeight : 0,
+      treble: trebleWeight > 0 ? treble / trebleWeight : 0,
+    };
+  }
+
+  private calculateCustomBands(frequencies: Float32Array): Record<string, BandAnalysis> {
+    const nyquist = this.sampleRate / 2;
+    const binSize = nyquist / frequencies.length;
+    const result: Record<string, BandAnalysis> = {};
+
+    for (const band of this.bandLayout.bands) {
+      let sum = 0;
+      let weightSum = 0;
+
+      const firstBin = Math.max(1, Math.ceil(band.minFrequency / binSize));
+      const lastBin = Math.min(frequencies.length - 1, Math.ceil(band.maxFrequency / binSize) - 1);
+
+      for (let i = firstBin; i <= lastBin; i++) {
+        const weight = this.bandLayout.aWeighting ? A_WEIGHTING(i * binSize) : 1;
+        sum += (frequencies[i] / 255) * weight;
+        weightSum += weight;
+      }
+
+      // Bands narrower than one bin read the bin containing their centre
+      let energy = weightSum > 0 ? sum / weightSum : 0;
+      if (firstBin > lastBin) {
+        const centreBin = Math.floor((band.minFrequency + band.maxFrequency) / 2 / binSize);
+        energy = (frequencies[Math.min(frequencies.length - 1, centreBin)] ?? 0) / 255;
+      }
+
+      let state = this.customBandState.get(band.id);
+      if (!state) {
+        state = { envelope: { min: 0.1, max: 0.2 }, transient: { value: 0, history: new Array(10).fill(0) } };
+        this.customBandState.set(band.id, state);
+      }
+
+      // Transient sensitivity follows the built-in band the custom band sits in
+      const centre = (band.minFrequency + band.maxFrequency) / 2;
+      const transientConfig = centre < 250 ? TRANSIENT_CONFIG.bass : centre < 4000 ? TRANSIENT_CONFIG.mid : TRANSIENT_CONFIG.treble;
+
+      result[band.id] = {
+        energy,
+        dynamic: this.calculateDynamicValue(energy, state.envelope),
+        transient: this.detectTransient(energy, transientConfig, state.transient),
+      };
+    }
+
+    return result;
+  }
+
+  private calculateStereoFeatures(stereo: StereoFrame, left: Float32Array, right: Float32Array): StereoFeatures {
+    const length = Math.min(left.length, right.length);
+
+    let leftPower = 0, rightPower = 0, crossPower = 0, midPower = 0, sidePower = 0;
+    for (let i = 0; i < length; i++) {
+      const l = left[i];
+      const r = right[i];
+      leftPower += l * l;
+      rightPower += r * r;
+      crossPower += l * r;
+      midPower += ((l + r) / 2) ** 2;
+      sidePower += ((l - r) / 2) ** 2;
+    }
+
+    const leftLevel = Math.sqrt(leftPower / Math.max(1, length));
+    const rightLevel = Math.sqrt(rightPower / Math.max(1, length));
+    const levelSum = leftLevel + rightLevel;
+
+    const norm = Math.sqrt(leftPower * rightPower);
+    const correlation = norm > 0 ? crossPower / norm : 1;
+    this.stereoCorrelation = this.stereoCorrelation * CORRELATION_SMOOTHING + correlation * (1 - CORRELATION_SMOOTHING);
+
+    const mid = Math.sqrt(midPower);
+    const side = Math.sqrt(sidePower);
+
+    return {
+      left: this.calculateBands(this.toSpectrumLevels(stereo.left.frequencies)),
+      right: this.calculateBands(this.toSpectrumLevels(stereo.right.frequencies)),
+      leftLevel,
+      rightLevel,
+      width: mid + side > 0 ? side / (mid + side) : 0,
+      correlation: this.stereoCorrelation,
+      balance: levelSum > 0 ? (rightLevel - leftLevel) / levelSum : 0,
+    };
+  }
+
+  /**
+   * MFCCs of the dB spectrum through the shared Mel filterbank, with their
+   * delta and delta-delta over the last `DELTA_WINDOW` frames.
+   */
+  private calculateTimbreVector(spectrumDb: Float32Array): TimbreVector {
+    const mfcc = calculateMFCC(spectrumDb, this.melFilterbank!, MFCC_COEFFICIENTS);
+
+    this.mfccHistory.push(mfcc);
+    if (this.mfccHistory.length > DELTA_WINDOW) this.mfccHistory.shift();
+    const delta = calculateDeltas(this.mfccHistory);
+
+    this.deltaHistory.push(delta);
+    if (this.deltaHistory.length > DELTA_WINDOW) this.deltaHistory.shift();
+    const deltaDelta = calculateDeltas(this.deltaHistory);
+
+    return { mfcc, delta, deltaDelta };
+  }
+
+  private calculateSpectralFeatures(frequencies: Float32Array): SpectralFeatures {
+    const nyquist = this.sampleRate / 2;
+    const binSize = nyquist / frequencies.length;
+
+    let totalEnergy = 0;
+    let centroidSum = 0;
+
+    // (Re)build the Mel filterbank whenever the sample rate or FFT size changes
+    if (!this.melFilterbank || !this.prevMelEnergies || this.melBinCount !== frequencies.length) {
+      this.melFilterbank = createMelFilterbank(frequencies.length * 2, MEL_BANDS, this.sampleRate);
+      this.prevMelEnergies = new Float32Array(MEL_BANDS).fill(0);
+      this.melBinCount = frequencies.length;
+    }
+
+    for (let i = 1; i < frequencies.length - 1; i++) {
+      const magnitude = frequencies[i] / 255;
+      const freq = i * binSize;
+
+      totalEnergy += magnitude;
+      centroidSum += magnitude * freq;
+    }
+
+    const centroid = totalEnergy > 0 ? (centroidSum / totalEnergy) / nyquist : 0;
+
+    let cumulativeEnergy = 0;
+    let rolloff = 0;
+    for (let i = 1; i < frequencies.length - 1; i++) {
+      cumulativeEnergy += frequencies[i] / 255;
+      if (cumulativeEnergy >= totalEnergy * 0.85) {
+        rolloff = (i * binSize) / nyquist;
+        break;
+      }
+    }
+
+    let spreadSum = 0;
+    if (totalEnergy > 0) {
+      const centroidHz = centroid * nyquist;
+      for (let i = 1; i < frequencies.length - 1; i++) {
+        const magnitude = frequencies[i] / 255;
+        const freq = i * binSize;
+        spreadSum += magnitude * Math.pow(freq - centroidHz, 2);
+      }
+    }
+    const spread = totalEnergy > 0 ? Math.sqrt(spreadSum / totalEnergy) / nyquist : 0;
+
+    // Robust multi-band ODF instead of simple spectral flux
+    const flux = calculateRobustODF(frequencies, this.prevMelEnergies, this.melFilterbank, MEL_BANDS);
+
+    return {
+      centroid: Math.min(1, centroid),
+      spread: Math.min(1, spread),
+      flux: Math.min(1, flux * 10), // Scale for better dynamic range
+      rolloff: Math.min(1, rolloff),
+    };
+  }
+
+  // YIN-based melodic analysis with robust chromagram
+  private calculateMelodicFeatures(samples: Float32Array, frequencies: Float32Array): MelodicFeatures {
+    // YIN buffers follow the waveform length, which follows the analyser FFT size
+    if (!this.yinDetector || this.yinBufferSize !== samples.length) {
+      this.yinDetector = new YINPitchDetector(this.sampleRate, samples.length, 0.15);
+      this.yinBufferSize = samples.length;
+    }
+
+    // Normalize the waveform to full scale for YIN
+    const float32Waveform = new Float32Array(samples.length);
+    let maxValue = 0;
+
+    for (let i = 0; i < samples.length; i++) {
+      const sample = Math.abs(samples[i]);
+      if (sample > maxValue) maxValue = sample;
+    }
+
+    const normalizationFactor = maxValue > 0 ? 1 / maxValue : 1;
+    for (let i = 0; i < samples.length; i++) {
+      float32Waveform[i] = samples[i] * normalizationFactor;
+    }
+
+    const pitchResult = this.yinDetector.detectPitch(float32Waveform);
+    let dominantFreq = pitchResult.frequency;
+    let noteConfidence = pitchResult.probability;
+
+    const nyquist = this.sampleRate / 2;
+    const binSize = nyquist / frequencies.length;
+
+    // FALLBACK: If YIN fails, use spectral peak detection in the melodic range (80Hz - 1000Hz)
+    if (dominantFreq <= 0 || noteConfidence < 0.3) {
+      let maxMagnitude = 0;
+      let maxBin = 0;
+
+      const minBin = Math.floor(80 / binSize);
+      const maxBinLimit = Math.floor(1000 / binSize);
+
+      for (let i = minBin; i < Math.min(maxBinLimit, frequencies.length); i++) {
+        if (frequencies[i] > maxMagnitude) {
+          maxMagnitude = frequencies[i];
+          maxBin = i;
+        }
+      }
+
+      if (maxMagnitude > 30) {
+        // Parabolic interpolation for better accuracy
+        if (maxBin > 0 && maxBin < frequencies.length - 1) {
+          const y1 = frequencies[maxBin - 1];
+          const y2 = frequencies[maxBin];
+          const y3 = frequencies[maxBin + 1];
+
+          const x0 = (y3 - y1) / (2 * (2 * y2 - y1 - y3));
+          dominantFreq = (maxBin + x0) * binSize;
+        } else {
+          dominantFreq = maxBin * binSize;
+        }
+
+        noteConfidence = Math.min(0.8, maxMagnitude / 255); // Cap confidence from spectral method
+      }
+    }
+
+    const { note } = frequencyToNote(dominantFreq);
+
+    // Chromagram with neighbour spreading and temporal smoothing
+    const chroma = new Array(12).fill(0);
+
+    for (let i = 1; i < frequencies.length; i++) {
+      const freq = i * binSize;
+      const magnitude = frequencies[i] / 255;
+
+      if (freq < 80 || freq > 4000) continue;
+
+      const midiNote = 12 * Math.log2(freq / A4_FREQ) + A4_MIDI;
+      const pitchClass = ((Math.round(midiNote) % 12) + 12) % 12;
+
+      const weight = magnitude * A_WEIGHTING(freq);
+
+      chroma[pitchClass] += weight * 0.7;
+      chroma[(pitchClass + 11) % 12] += weight * 0.15;
+      chroma[(pitchClass + 1) % 12] += weight * 0.15;
+    }
+
+    const chromaSum = chroma.reduce((a, b) => a + b, 0);
+    if (chromaSum > 0) {
+      for (let i = 0; i < 12; i++) {
+        chroma[i] /= chromaSum;
+      }
+    }
+
+    for (let i = 0; i < 12; i++) {
+      this.chromaSmoothing[i] = this.chromaSmoothing[i] * CHROMA_SMOOTHING +
+          chroma[i] * (1 - CHROMA_SMOOTHING);
+    }
+
+    // Harmonic content: energy of harmonics 2-6 relative to the fundamental
+    let harmonicContent = 0;
+    if (dominantFreq > 0 && frequencies.length > 0) {
+      const fundamentalBin = Math.floor(dominantFreq / binSize);
+      let fundamentalEnergy = 0;
+      let harmonicEnergy = 0;
+
+      for (let i = -1; i <= 1; i++) {
+        const bin = fundamentalBin + i;
+        if (bin >= 0 && bin < frequencies.length) {
+          fundamentalEnergy += frequencies[bin] / 255;
+        }
+      }
+      fundamentalEnergy /= 3;
+
+      for (let harmonic = 2; harmonic <= 6; harmonic++) {
+        const harmonicBin = Math.floor((dominantFreq * harmonic) / binSize);
+        if (harmonicBin < frequencies.length) {
+          let energy = 0;
+          for (let i = -1; i <= 1; i++) {
+            const bin = harmonicBin + i;
+            if (bin >= 0 && bin < frequencies.length) {
+              energy += frequencies[bin] / 255;
+            }
+          }
+          harmonicEnergy += energy / 3;
+        }
+      }
+
+      if (fundamentalEnergy > 0.01) {
+        harmonicContent = Math.min(1, harmonicEnergy / (fundamentalEnergy * 5));
+      }
+    }
+
+    return {
+      dominantFrequency: dominantFreq,
+      dominantNote: note,
+      noteConfidence,
+      harmonicContent,
+      pitchClass: [...this.chromaSmoothing]
+    };
+  }
+
+  // Rhythmic analysis: tempo and beats from the selected backend, then corrections and bars
+  private calculateRhythmicFeatures(spectralFlux: number, currentTime: number, transients: Transients, bassEnergy: number): RhythmicFeatures {
+    const detected = this.rhythmBackend === 'beat-tracker'
+        ? this.trackBeats(spectralFlux, currentTime)
+        : this.detectTempo(spectralFlux, currentTime, transients);
+
+    // Performer corrections (tap, entry, nudge, resync, lock) replace the detected grid
+    const tempo = this.applyTempoOverride(currentTime, detected.bpm, detected.beatPhase);
+    // The tracker's beats only hold for its own, uncorrected grid
+    const trackerBeats = tempo.source === 'detected' && tempo.octave === 0 ? detected.beatEvents : undefined;
+
+    // Bars: beats grouped by their bass accents
+    const bassOnset = Math.max(0, bassEnergy - this.prevBassEnergy);
+    this.prevBassEnergy = bassEnergy;
+    const meter = this.meterTracker.process({
+      time: currentTime,
+      bpm: tempo.bpm,
+      beatPhase: tempo.beatPhase,
+      bassOnset,
+      onsetStrength: spectralFlux,
+      beatEvents: trackerBeats
+    });
+
+    // Groove: onsets measured against the reported grid
+    const groove = this.grooveAnalyzer.process({
+      time: currentTime,
+      bpm: tempo.bpm,
+      beatPhase: tempo.beatPhase,
+      barPhase: meter.barPhase,
+      beatsPerBar: meter.beatsPerBar,
+      onsetStrength: spectralFlux
+    });
+
+    const gridTick = this.gridTick(currentTime, tempo.bpm, tempo.beatPhase, detected.confidence);
+    const isBeat = trackerBeats ? Boolean(detected.isBeat) : gridTick;
+
+    // Fixed-length candidate arrays: the frame shape never changes
+    const tempoCandidates = new Array(TEMPO_CANDIDATES).fill(0);
+    const tempoCandidateConfidences = new Array(TEMPO_CANDIDATES).fill(0);
+    detected.candidates.slice(0, TEMPO_CANDIDATES).forEach((candidate, i) => {
+      tempoCandidates[i] = Math.round(candidate.bpm * 10) / 10;
+      tempoCandidateConfidences[i] = Math.round(candidate.confidence * 100);
+    });
+
+    return {
+      bpm: Math.round(tempo.bpm * 10) / 10,
+      bpmConfidence: tempo.source === 'detected' ? detected.confidence * 100 : 100,
+      beatPhase: Math.round(tempo.beatPhase * 1000) / 1000,
+      subdivision: detected.subdivision,
+      ...groove,
+      ...meter,
+      tempoSource: tempo.source,
+      tempoCandidates,
+      tempoCandidateConfidences,
+      tempoOctave: tempo.octave,
+      isBeat,
+      onsetStrength: spectralFlux,
+      ...this.beatEventFields(trackerBeats ?? this.gridBeats)
+    };
+  }
+
+  // Autocorrelation backend (BPMDetector): the grid is re-anchored on strong transients
+  private detectTempo(spectralFlux: number, currentTime: number, transients: Transients): DetectedTempo {
+    // Timestamps going backwards mean a new time base (source or capture change)
+    const lastSample = this.odfHistory[this.odfHistory.length - 1];
+    if (lastSample && currentTime < lastSample.time) {
+      this.odfHistory = [];
+    }
+
+    // Frames arrive at the display or worklet rate: keep their times and resample
+    this.odfHistory.push({ time: currentTime, value: spectralFlux });
+    const historyStart = currentTime - (ODF_HISTORY_SIZE + 1) / ODF_SAMPLE_RATE;
+    while (this.odfHistory.length > 0 && this.odfHistory[0].time < historyStart) {
+      this.odfHistory.shift();
+    }
+
+    const odf = resampleODF(this.odfHistory, ODF_SAMPLE_RATE, currentTime, ODF_HISTORY_SIZE);
+    const bpm = this.bpmDetector.detectBPM(odf, ODF_SAMPLE_RATE);
+
+    // Re-anchor the beat grid on strong transients
+    if (transients.overall) {
+      this.lastBeatTime = currentTime;
+    }
+
+    const transientCount = [transients.bass, transients.mid, transients.treble].filter(Boolean).length;
+    let subdivision = 1;
+    if (transientCount >= 2) subdivision = 2;
+    if (transientCount === 3) subdivision = 4;
+
+    return {
+      bpm,
+      confidence: this.bpmDetector.getConfidence(),
+      beatPhase: this.bpmDetector.getBeatPhase(currentTime, bpm, this.lastBeatTime),
+      subdivision,
+      candidates: this.bpmDetector.getCandidates()
+    };
+  }
+
+  // Beat-tracker backend (RhythmicEngine): beats placed by dynamic programming on the ODF
+  private trackBeats(spectralFlux: number, currentTime: number): DetectedTempo {
+    const output = this.rhythmicEngine.process(spectralFlux, currentTime);
+    const total = output.tempoCandidates.reduce((sum, candidate) => sum + candidate.confidence, 0);
+
+    return {
+      bpm: output.primaryBPM,
+      confidence: Math.max(0, Math.min(1, output.bpmConfidence / 100)),
+      beatPhase: output.beatPhase,
+      subdivision: output.subdivision,
+      candidates: output.tempoCandidates.map(({ bpm, confidence }) => ({ bpm, confidence: total > 0 ? confidence / total : 0 })),
+      beatEvents: output.beatEvents,
+      isBeat: output.isBeat
+    };
+  }
+
+  // Beat of the reported grid: the phase wrapped since the previous frame
+  private gridTick(time: number, bpm: number, beatPhase: number, strength: number): boolean {
+    const wrapped = bpm > 0 && beatPhase < this.prevGridPhase - 0.5;
+    this.prevGridPhase = bpm > 0 ? beatPhase : 0;
+    if (!wrapped) return false;
+
+    this.gridBeats = [...this.gridBeats, { time: time - beatPhase * 60 / bpm, strength }].slice(-BEAT_EVENTS);
+    return true;
+  }
+
+  // Last beats as fixed-length arrays, most recent last, zero-padded in front
+  private beatEventFields(events: BeatEvent[]): Pick<RhythmicFeatures, 'beatEventTimes' | 'beatEventStrengths'> {
+    const recent = events.slice(-BEAT_EVENTS);
+    const padding = new Array(BEAT_EVENTS - recent.length).fill(0);
+    return {
+      beatEventTimes: [...padding, ...recent.map(event => event.time)],
+      beatEventStrengths: [...padding, ...recent.map(event => Math.round(event.strength * 1000) / 1000)]
+    };
+  }
+
+  // Rhythm of a silent frame: detection pauses, a manual grid keeps running
+  private calculateSilentRhythm(prev: RhythmicFeatures, time: number): RhythmicFeatures {
+    const tempo = this.applyTempoOverride(time, 0, 0);
+    if (tempo.source === 'detected') {
+      this.prevGridPhase = 0;
+      return {
+        ...prev,
+        bpm: 0,
+        bpmConfidence: 0,
+        beatPhase: 0,
+        groove: prev.groove * 0.95,
+        downbeat: false,
+        tempoSource: 'detected',
+        tempoOctave: tempo.octave,
+        isBeat: false,
+        onsetStrength: 0
+      };
+    }
+
+    const meter = this.meterTracker.process({ time, bpm: tempo.bpm, beatPhase: tempo.beatPhase, bassOnset: 0, onsetStrength: 0 });
+    const isBeat = this.gridTick(time, tempo.bpm, tempo.beatPhase, 1);
+    return {
+      ...prev,
+      bpm: Math.round(tempo.bpm * 10) / 10,
+      bpmConfidence: 100,
+      beatPhase: Math.round(tempo.beatPhase * 1000) / 1000,
+      groove: prev.groove * 0.95,
+      ...meter,
+      tempoSource: tempo.source,
+      tempoOctave: tempo.octave,
+      isBeat,
+      onsetStrength: 0,
+      ...this.beatEventFields(this.gridBeats)
+    };
+  }
+
+  private applyTempoOverride(time: number, bpm: number, beatPhase: number) {
+    const tempo = this.tempoOverride.apply(time, bpm, beatPhase);
+    // "Resync to now" also sets the downbeat, held until detection takes over again
+    if (tempo.resync) {
+      this.meterTracker.resync();
+    } else if (tempo.source === 'detected') {
+      this.meterTracker.releaseDownbeat();
+    }
+    return tempo;
+  }
+
+  private calculateDynamicValue(value: number, envelope: { min: number; max: number }): number {
+    if (value > envelope.max) {
+      envelope.max = value * (1 - ENVELOPE_CONFIG.adaptiveRate) + envelope.max * ENVELOPE_CONFIG.adaptiveRate;
+    } else {
+      envelope.max *= (1 - ENVELOPE_CONFIG.maxDecay);
+    }
+
+    if (value < envelope.min) {
+      envelope.min = value * (1 - ENVELOPE_CONFIG.adaptiveRate) + envelope.min * ENVELOPE_CONFIG.adaptiveRate;
+    } else {
+      envelope.min = envelope.min * (1 + ENVELOPE_CONFIG.minDecay) + ENVELOPE_CONFIG.minThreshold;
+    }
+
+    envelope.min = Math.max(0, Math.min(envelope.min, 0.9));
+    envelope.max = Math.max(envelope.min + 0.1, Math.min(envelope.max, 1));
+
+    const range = envelope.max - envelope.min;
+    return range > 0.01 ? Math.max(0, Math.min(1, (value - envelope.min) / range)) : value;
+  }
+
+  private detectTransient(value: number, config: TransientSettings, state: TransientState): boolean {
+    state.history.shift();
+    state.history.push(value);
+
+    const avgHistory = state.history.reduce((a, b) => a + b, 0) / state.history.length;
+    const adaptiveThreshold = Math.max(config.threshold, avgHistory * config.multiplier);
+
+    const isTransient = value > adaptiveThreshold && value > state.value * config.multiplier;
+
+    state.value = state.value * config.decay + value * (1 - config.decay);
+
+    return isTransient;
+  }
+
+  private detectTransients(currentBands: FrequencyBands, energy: number): Transients {
+    const detectBandTransient = (band: keyof typeof TRANSIENT_CONFIG, value: number): boolean =>
+      this.detectTransient(value, TRANSIENT_CONFIG[band], this.transientState[band]);
+
+    return {
+      bass: detectBandTransient('bass', currentBands.bass),
+      mid: detectBandTransient('mid', currentBands.mid),
+      treble: detectBandTransient('treble', currentBands.treble),
+      overall: detectBandTransient('overall', energy),
+    };
+  }
+
+  private detectDrop(normalizedEnergy: number, currentTime: number): number {
+    const now = currentTime * 1000;
+    const surge = normalizedEnergy - this.prevNormalizedEnergy;
+
+    if (surge > DROP_CONFIG.threshold && now - this.lastDropTime > DROP_CONFIG.cooldown) {
+      this.dropIntensity = Math.min(1, surge);
+      this.lastDropTime = now;
+    }
+
+    this.prevNormalizedEnergy = normalizedEnergy;
+    this.dropIntensity *= DROP_CONFIG.decay;
+
+    return this.dropIntensity;
+  }
+}
@@ -11,6 +11,9 @@
  * - Smoothed confidence to avoid transient drops
  * - Beat phase calculation for synchronization
  * - BPM history stabilization
+ * - Resampling of timestamped ODF values to a fixed rate, independent of the frame rate
+ * - Configurable tempo range and genre priors
+ * - Half/double-time candidates scored by metrical salience, exposed with confidences
  *
  * @module BPMDetector
  * @version 2.0.0
@@ -19,6 +22,7 @@
  */
 
 import type { AudioData } from '../hooks/useAudioAnalyzer';
+import type { TempoGenre } from '../types/config';
 
 /**
  * Calculates the autocorrelation of a signal buffer (ODF history).
@@ -26,6 +30,7 @@ import type { AudioData } from '../hooks/useAudioAnalyzer';
  * which correspond to the rhythmic structure of the music.
  *
  * @param buffer - Array of ODF values representing onset strength over time
+ * @param maxLag - Largest lag to compute (default: the whole buffer)
  * @returns Array of autocorrelation coefficients
  *
  * @example
@@ -35,9 +40,9 @@ import type { AudioData } from '../hooks/useAudioAnalyzer';
  * // acf contains correlation values for different lag periods
  * ```
  */
-function autocorrelation(buffer: number[]): number[] {
-    const acf = new Array(buffer.length).fill(0);
-    for (let lag = 0; lag < buffer.length; lag++) {
+function autocorrelation(buffer: number[], maxLag: number = buffer.length - 1): number[] {
+    const acf = new Array(Math.min(buffer.length, maxLag + 1)).fill(0);
+    for (let lag = 0; lag < acf.length; lag++) {
         for (let i = 0; i < buffer.length - lag; i++) {
             acf[lag] += buffer[i] * buffer[i + lag];
         }
@@ -45,6 +50,208 @@ function autocorrelation(buffer: number[]): number[] {
     return acf;
 }
 
+/**
+ * A possible tempo of the music, e.g. the detected tempo and its half and double time.
+ */
+export interface TempoCandidate {
+    bpm: number;
+    /** Share of the total candidate score (0-1). */
+    confidence: number;
+}
+
+/**
+ * Typical tempo of each genre, as a log-normal prior: `center` in BPM, `width` in
+ * octaves. The prior only ranks the half and double time of the pulse the
+ * autocorrelation finds; it never creates a tempo on its own.
+ */
+const TEMPO_PRIORS: Record<TempoGenre, { center: number; width: number }> = {
+    auto: { center: 120, width: 1 },
+    house: { center: 124, width: 0.25 },
+    techno: { center: 132, width: 0.25 },
+    dnb: { center: 174, width: 0.2 },
+    dubstep: { center: 140, width: 0.2 },
+    hiphop: { center: 90, width: 0.3 }
+};
+
+/**
+ * Weight of a tempo under a genre prior (1 at the genre's typical tempo).
+ *
+ * @param bpm - Candidate tempo
+ * @param genre - Tempo prior
+ * @returns Prior weight (0-1)
+ */
+export function tempoPrior(bpm: number, genre: TempoGenre): number {
+    const prior = TEMPO_PRIORS[genre] ?? TEMPO_PRIORS.auto;
+    const octaves = Math.log2(bpm / prior.center) / prior.width;
+    return Math.exp(-0.5 * octaves * octaves);
+}
+
+/** Number of tempo candidates reported. */
+const MAX_CANDIDATES = 4;
+/** Beat periods tried around the pulse: quarter, half, same, double and quadruple time. */
+const OCTAVE_RATIOS = [0.25, 0.5, 1, 2, 4];
+/** Multiples of the beat period supporting a candidate (its bar-level periodicity). */
+const SALIENCE_HARMONICS = 4;
+
+/**
+ * A tempo candidate with its period in ODF samples and its salience before the prior
+ * (0-1, relative to the ODF energy).
+ */
+type ScoredCandidate = TempoCandidate & { lag: number; strength: number };
+
+/**
+ * Autocorrelation at a fractional lag, linearly interpolated.
+ */
+function acfAt(acf: number[], lag: number): number {
+    const index = Math.floor(lag);
+    if (index < 0 || index >= acf.length - 1) return 0;
+    return acf[index] + (acf[index + 1] - acf[index]) * (lag - index);
+}
+
+/**
+ * Metrical salience of a beat period: weighted autocorrelation at the period and at its
+ * multiples that fit in the history (a beat period repeats over the bar, a period
+ * between beats does not), relative to the ODF energy.
+ */
+function metricalSalience(acf: number[], lag: number): number {
+    let salience = 0;
+    let weight = 0;
+    for (let k = 1; k <= SALIENCE_HARMONICS && k * lag < acf.length - 1; k++) {
+        salience += acfAt(acf, k * lag) / k;
+        weight += 1 / k;
+    }
+    return weight > 0 ? Math.max(0, salience / weight / acf[0]) : 0;
+}
+
+/**
+ * Scores the half/double-time candidates of the pulse an ODF supports within a range.
+ *
+ * The pulse is the autocorrelation peak of the range with the highest metrical salience.
+ * Its half and double time (and quarter/quadruple) within the range are the candidates:
+ * the signal hardly tells them apart, so each one scores its salience times the genre
+ * prior, which settles the octave.
+ *
+ * @param odf - Onset detection function values, oldest first
+ * @param sampleRate - Sample rate of the ODF (frames per second)
+ * @param minBPM - Slowest tempo considered
+ * @param maxBPM - Fastest tempo considered
+ * @param genre - Tempo prior
+ * @returns The candidates, best first (empty when the range has no peak)
+ */
+function scoreTempoCandidates(
+    odf: number[],
+    sampleRate: number,
+    minBPM: number,
+    maxBPM: number,
+    genre: TempoGenre
+): ScoredCandidate[] {
+    const minLag = sampleRate * 60 / maxBPM;
+    const maxLag = sampleRate * 60 / minBPM;
+
+    // Centered, unbiased autocorrelation: long lags are not penalised for overlapping less
+    const mean = odf.reduce((a, b) => a + b, 0) / odf.length;
+    const raw = autocorrelation(odf.map(value => value - mean), Math.ceil(maxLag * SALIENCE_HARMONICS) + 1);
+    const acf = raw.map((value, lag) => value / (odf.length - lag));
+    if (acf[0] <= 0) return [];
+
+    // Most salient peak of the range, refined by parabolic interpolation
+    let pulse = 0;
+    let pulseSalience = 0;
+    for (let lag = Math.max(1, Math.floor(minLag)); lag <= Math.ceil(maxLag) && lag < acf.length - 1; lag++) {
+        if (acf[lag] > acf[lag - 1] && acf[lag] > acf[lag + 1] && acf[lag] > 0) {
+            const denominator = 2 * (2 * acf[lag] - acf[lag - 1] - acf[lag + 1]);
+            const refined = denominator !== 0 ? lag + (acf[lag + 1] - acf[lag - 1]) / denominator : lag;
+            const salience = metricalSalience(acf, refined);
+            if (salience > pulseSalience) {
+                pulse = refined;
+                pulseSalience = salience;
+            }
+        }
+    }
+    if (pulse === 0) return [];
+
+    const scored: ScoredCandidate[] = [];
+    for (const ratio of OCTAVE_RATIOS) {
+        const lag = pulse * ratio;
+        if (lag < minLag || lag > maxLag) continue;
+
+        const bpm = sampleRate * 60 / lag;
+        const strength = metricalSalience(acf, lag);
+        const score = strength * tempoPrior(bpm, genre);
+        if (score > 0) scored.push({ bpm, confidence: score, lag, strength });
+    }
+
+    scored.sort((a, b) => b.confidence - a.confidence);
+    const total = scored.reduce((sum, candidate) => sum + candidate.confidence, 0);
+    return scored.slice(0, MAX_CANDIDATES).map(candidate => ({ ...candidate, confidence: candidate.confidence / total }));
+}
+
+/**
+ * One onset detection function value with the time of its frame.
+ */
+export interface ODFSample {
+    /** Timestamp of the frame in seconds. */
+    time: number;
+    value: number;
+}
+
+/**
+ * Resamples a timestamped onset detection function to a fixed rate, so the lags of the
+ * autocorrelation map to the right tempo whatever rate the frames arrived at (display
+ * refresh, dropped frames, worklet hop size).
+ *
+ * Each output sample takes the strongest onset of its interval, so short peaks survive
+ * when frames arrive faster than `sampleRate`; intervals without any frame (slower or
+ * dropped frames) are linearly interpolated from their neighbours.
+ *
+ * @param history - ODF values in chronological order
+ * @param sampleRate - Output rate in samples per second
+ * @param endTime - Time of the last output sample (usually the current frame)
+ * @param length - Maximum number of output samples; fewer are returned while the history is short
+ * @returns ODF values at `sampleRate`, oldest first, the last one at `endTime`
+ *
+ * @example
+ * ```typescript
+ * const odf = resampleODF(history, 43, currentTime, 256);
+ * const bpm = detector.detectBPM(odf, 43);
+ * ```
+ */
+export function resampleODF(history: ODFSample[], sampleRate: number, endTime: number, length: number): number[] {
+    if (history.length === 0) return [];
+
+    const period = 1 / sampleRate;
+    const count = Math.min(length, Math.floor((endTime - history[0].time) * sampleRate) + 1);
+    const resampled = new Array(Math.max(0, count)).fill(0);
+
+    let j = 0;
+    for (let k = 0; k < resampled.length; k++) {
+        const time = endTime - (resampled.length - 1 - k) * period;
+        const start = time - period / 2;
+        const end = time + period / 2;
+
+        while (j < history.length && history[j].time < start) j++;
+
+        let peak = -Infinity;
+        for (let i = j; i < history.length && history[i].time < end; i++) {
+            peak = Math.max(peak, history[i].value);
+        }
+
+        if (peak > -Infinity) {
+            resampled[k] = peak;
+        } else {
+            // No frame in this interval: interpolate between the frames around it
+            const before = history[Math.max(0, j - 1)];
+            const after = history[Math.min(history.length - 1, j)];
+            const span = after.time - before.time;
+            resampled[k] = span > 0
+                ? before.value + (after.value - before.value) * (time - before.time) / span
+                : before.value;
+        }
+    }
+
+    return resampled;
+}
+
 /**
  * Advanced BPM Detection Class
  *
@@ -56,10 +263,14 @@ export class BPMDetector {
     private bpmHistory: number[] = [];
     /** Maximum number of BPM values to keep in history */
     private readonly historySize = 15;
-    /** Minimum plausible BPM (typical range: 70-190) */
-    private readonly minBPM = 70;
-    /** Maximum plausible BPM (typical range: 70-190) */
-    private readonly maxBPM = 190;
+    /** Minimum plausible BPM (default range: 70-190) */
+    private minBPM = 70;
+    /** Maximum plausible BPM (default range: 70-190) */
+    private maxBPM = 190;
+    /** Genre whose typical tempo is favoured between half and double time */
+    private genre: TempoGenre = 'auto';
+    /** Candidates of the last analysis, best first */
+    private candidates: TempoCandidate[] = [];
 
     /** Stores the last autocorrelation function for confidence calculation */
     private lastACF: number[] | null = null;
@@ -91,46 +302,108 @@ export class BPMDetector {
             return this.getStableBPM();
         }
 
-        // 1. Calculer l'autocorrélation sur l'historique de l'ODF
+        // 1. Calculer l'autocorrélation sur l'historique de l'ODF (pour la proéminence)
         const acf = autocorrelation(odfHistory);
 
-        // 2. Définir la plage de recherche en "lags" (décalages) - FIXED calculation
-        const minLag = Math.floor(sampleRate * 60 / this.maxBPM);
-        const maxLag = Math.ceil(sampleRate * 60 / this.minBPM);
-
-        // 3. Trouver le pic de corrélation dans la plage plausible - IMPROVED peak detection
-        let maxCorrelation = -Infinity;
-        let bestLag = 0;
-
-        for (let lag = minLag; lag <= maxLag && lag < acf.length; lag++) {
-            // Vérifier que c'est un vrai pic local
-            if (lag > 0 && lag < acf.length - 1) {
-                if (acf[lag] > acf[lag - 1] && acf[lag] > acf[lag + 1] && acf[lag] > maxCorrelation) {
-                    maxCorrelation = acf[lag];
-                    bestLag = lag;
-                }
-            }
-        }
+        // 2. Scorer les candidats (pics de la plage, demi et double tempo) avec l'a priori du genre
+        const scored = scoreTempoCandidates(odfHistory, sampleRate, this.minBPM, this.maxBPM, this.genre);
+        const best = scored[0];
+        this.candidates = scored.map(({ bpm, confidence }) => ({ bpm, confidence }));
 
         // Store ACF and bestLag for confidence calculation
         this.lastACF = acf;
-        this.lastBestLag = bestLag;
+        this.lastBestLag = best ? Math.round(best.lag) : 0;
 
-        // 4. Convertir le meilleur lag en BPM
-        if (bestLag > 0) {
-            const calculatedBPM = 60 / (bestLag / sampleRate);
-
-            // 5. Ajouter à l'historique pour stabilisation
-            this.bpmHistory.push(calculatedBPM);
+        // 3. Ajouter le meilleur candidat à l'historique pour stabilisation
+        if (best) {
+            this.bpmHistory.push(best.bpm);
             if (this.bpmHistory.length > this.historySize) {
                 this.bpmHistory.shift();
             }
         }
 
-        // 6. Retourner une valeur stable
+        // 4. Retourner une valeur stable
         return this.getStableBPM();
     }
 
+    /**
+     * Estimates the tempo of a complete ODF in a single pass, without touching the
+     * detector's history. Intended for offline analysis of a whole track, where the
+     * full onset function is available up front.
+     *
+     * @param odf - Onset detection function values for the whole signal
+     * @param sampleRate - Sample rate of the ODF (frames per second)
+     * @returns Estimated BPM, a confidence value (0-1) and the tempo candidates, or zeros if no peak was found
+     *
+     * @example
+     * ```typescript
+     * const detector = new BPMDetector();
+     * const { bpm, confidence, candidates } = detector.estimateTempo(trackODF, 43);
+     * ```
+     */
+    public estimateTempo(odf: number[], sampleRate: number): { bpm: number; confidence: number; candidates: TempoCandidate[] } {
+        const maxLag = Math.ceil(sampleRate * 60 / this.minBPM);
+
+        if (odf.length <= maxLag + 1) {
+            return { bpm: 0, confidence: 0, candidates: [] };
+        }
+
+        // Same scoring as the live detection, over the whole track at once
+        const scored = scoreTempoCandidates(odf, sampleRate, this.minBPM, this.maxBPM, this.genre);
+        if (scored.length === 0) {
+            return { bpm: 0, confidence: 0, candidates: [] };
+        }
+
+        return {
+            bpm: scored[0].bpm,
+            confidence: Math.min(1, scored[0].strength),
+            candidates: scored.map(({ bpm, confidence }) => ({ bpm, confidence }))
+        };
+    }
+
+    /**
+     * Sets the tempo range searched and the genre prior. The detection history is
+     * kept: the next analyses move the stable BPM into the new range.
+     *
+     * @param minBPM - Slowest tempo considered
+     * @param maxBPM - Fastest tempo considered
+     * @param genre - Genre whose typical tempo is favoured between half and double time
+     *
+     * @example
+     * ```typescript
+     * const detector = new BPMDetector();
+     * detector.configure(160, 190, 'dnb'); // Never report drum & bass at 87 BPM
+     * ```
+     */
+    public configure(minBPM: number, maxBPM: number, genre: TempoGenre): void {
+        if (minBPM > 0 && maxBPM > minBPM) {
+            this.minBPM = minBPM;
+            this.maxBPM = maxBPM;
+        }
+        this.genre = genre;
+    }
+
+    /**
+     * Returns the tempo candidates of the last analysis (the detected tempo and the
+     * half/double-time alternatives the signal supports), best first.
+     *
+     * @returns Up to 4 candidates whose confidences sum to 1; empty before the first analysis
+     */
+    public getCandidates(): TempoCandidate[] {
+        return this.candidates;
+    }
+
+    /**
+     * Clears the detection history, keeping the tempo range and genre.
+     */
+    public reset(): void {
+        this.bpmHistory = [];
+        this.lastACF = null;
+        this.lastBestLag = 0;
+        this.confidenceHistory = [];
+        this.candidates = [];
+    }
+
     /**
      * Calculates peak prominence for improved confidence metrics.
      * Peak prominence measures how much a peak stands out from surrounding valleys,
@@ -336,6 +609,7 @@ export function useBPMDetection(audioData: AudioData) {
  *
  * Collection of utility functions for creating BPM-synchronized animations and effects.
  * All functions work with phase values (0-1) representing position within a beat cycle.
+ * For musical time, beat predictions and beat/bar callbacks, see `BeatClock`.
  */
 export const BPMSync = {
     /**
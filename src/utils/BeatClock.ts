@@ -0,0 +1,383 @@
+/**
+ * Beat Clock for AuraSync
+ *
+ * A musical clock for scenes: runs continuously at the render rate and follows the
+ * analysis beat grid through a phase-locked loop, so musical time stays smooth when the
+ * detected tempo and phase jitter from frame to frame. Scenes read beats and bars since
+ * start, ask when the next beat, bar or subdivision lands, and register callbacks fired
+ * on them.
+ *
+ * Key Features:
+ * - Continuous musical time: beats and bars since start, beat/bar phase, beat in bar
+ * - Phase-locked loop: tempo smoothed, phase errors corrected by speeding up or slowing
+ *   down; lasting large errors (resync, nudge) jump ahead to the new phase, or run at half
+ *   speed until the grid catches up when it is behind: musical time never runs backwards
+ * - Bars aligned on the meter tracker's downbeats, follows meter changes
+ * - Freewheels through short dropouts of the tempo, then stops
+ * - Predicted times of the next beat, bar and subdivision
+ * - Callbacks: `onBeat`, `onBar(n)` every n bars, `onSubdivision(n)` on n-th notes
+ *
+ * @module BeatClock
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+import type { RhythmicFeatures } from '../hooks/useAudioAnalyzer';
+
+/** What the clock locks on to: the rhythm of an analysis frame. */
+export type BeatClockInput = Pick<RhythmicFeatures, 'bpm' | 'beatPhase' | 'beatInBar' | 'beatsPerBar'>;
+
+/**
+ * Position of the clock in musical time.
+ */
+export interface MusicalTime {
+  /** Beats since start, continuous. */
+  beats: number;
+  /** Bars since start, continuous: downbeats passed plus the bar phase. */
+  bars: number;
+  /** Position within the current beat (0-1). */
+  beatPhase: number;
+  /** Position within the current bar (0-1). */
+  barPhase: number;
+  /** The beat of the current bar, counting from 1. */
+  beatInBar: number;
+  /** Tempo of the clock (0 when stopped). */
+  bpm: number;
+  /** Whether the clock follows a tempo (false while stopped or freewheeling). */
+  locked: boolean;
+}
+
+/**
+ * A beat, bar or subdivision reached by the clock.
+ */
+export interface BeatClockEvent {
+  /** Exact time of the event in the clock's time base, in seconds (slightly before `update`'s time). */
+  time: number;
+  /** Beats or subdivisions counted since start; for `onBar`, groups of bars counted from 0. */
+  index: number;
+  /** The beat of the bar the event falls on, counting from 1. */
+  beatInBar: number;
+}
+
+export type BeatClockCallback = (event: BeatClockEvent) => void;
+
+/** Time over which a phase error is corrected, in seconds. */
+const PHASE_TIME_CONSTANT = 0.25;
+/** Largest speed-up or slow-down used for phase corrections (fraction of the tempo). */
+const MAX_SLEW = 0.15;
+/** Share of the tempo difference taken per analysis frame (tempo smoothing). */
+const TEMPO_GAIN = 0.05;
+/** Relative tempo difference treated as a new tempo rather than jitter. */
+const TEMPO_JUMP = 0.06;
+/** Phase error (in beats) beyond which the clock relocks at once... */
+const RELOCK_ERROR = 0.2;
+/** ...once it has persisted for this many analysis frames (single-frame glitches are ignored). */
+const RELOCK_FRAMES = 3;
+/** Beats the clock freewheels without a tempo before stopping. */
+const FREEWHEEL_BEATS = 8;
+/** Boundaries fired at most per update: a relock far ahead does not replay every beat. */
+const MAX_CATCH_UP = 4;
+/** Share of the advance withheld while the clock is ahead of the grid. */
+const HOLD_SHARE = 0.5;
+
+/** Signed distance between two phases, in [-0.5, 0.5). */
+const wrapPhase = (value: number) => value - Math.floor(value + 0.5);
+const modulo = (value: number, divisor: number) => ((value % divisor) + divisor) % divisor;
+
+type Listener = { every: number; callback: BeatClockCallback; last: number };
+
+/**
+ * Musical clock following the analysis beat grid.
+ *
+ * @example
+ * ```typescript
+ * const clock = new BeatClock();
+ * // Render loop: the rhythm only when a new analysis frame arrived
+ * clock.update(elapsedTime, isNewFrame ? audioData.rhythmicFeatures : undefined);
+ *
+ * const unsubscribe = clock.onBar(4, ({ index }) => startPhrase(index));
+ * clock.onSubdivision(16, () => strobe());
+ * const { beats, barPhase } = clock.getTime();
+ * ```
+ */
+export class BeatClock {
+  private prevTime = -Infinity;
+  private beats = 0;
+  private bpm = 0;
+  /** Phase correction, in beats per second on top of the tempo. */
+  private slew = 0;
+  /** Beats the clock is ahead of the grid after a relock back, withheld from the advance. */
+  private ahead = 0;
+  private locked = false;
+  /** Beats run since the last frame with a tempo. */
+  private beatsWithoutTempo = 0;
+  private relockFrames = 0;
+
+  private beatsPerBar = 4;
+  /** Beat count of a downbeat: bars start at `barOffset + k * beatsPerBar`. */
+  private barOffset = 0;
+  private bar = 0;
+  private lastBeat = -1;
+
+  private beatListeners: Listener[] = [];
+  private barListeners: Listener[] = [];
+  private subdivisionListeners: Listener[] = [];
+
+  /**
+   * Advances the clock to `time` and, when given, locks it on to a new analysis frame.
+   * Call it once per rendered frame; callbacks of the boundaries crossed run here.
+   *
+   * @param time - Current time, in seconds (any monotonic time base, e.g. the render clock)
+   * @param rhythm - Rhythm of a new analysis frame; omit it when no new frame arrived
+   */
+  update(time: number, rhythm?: BeatClockInput): void {
+    // Time going backwards: a new time base, musical time continues from where it is
+    if (time < this.prevTime) this.prevTime = time;
+    const delta = Number.isFinite(this.prevTime) ? time - this.prevTime : 0;
+    this.prevTime = time;
+
+    if (this.bpm > 0 && delta > 0) {
+      const advance = Math.max(0, (this.bpm / 60 + this.slew) * delta);
+      const held = Math.min(this.ahead, advance * HOLD_SHARE);
+      this.ahead -= held;
+      this.beats += advance - held;
+      if (!this.locked) {
+        this.beatsWithoutTempo += advance;
+        if (this.beatsWithoutTempo > FREEWHEEL_BEATS) this.stop();
+      }
+    }
+
+    if (rhythm) this.lock(rhythm);
+    this.fire(time);
+  }
+
+  /**
+   * Current position in musical time.
+   */
+  getTime(): MusicalTime {
+    const inBar = modulo(this.beats - this.barOffset, this.beatsPerBar);
+    return {
+      beats: this.beats,
+      bars: this.bar + this.barPhase(),
+      beatPhase: this.beats - Math.floor(this.beats),
+      barPhase: this.barPhase(),
+      beatInBar: Math.floor(inBar) + 1,
+      bpm: this.bpm,
+      locked: this.locked
+    };
+  }
+
+  /**
+   * Predicted time of the next beat, in the time base of `update`.
+   *
+   * @returns The time, or `null` while the clock is stopped
+   */
+  nextBeatTime(): number | null {
+    return this.timeIn(Math.floor(this.beats) + 1 - this.beats);
+  }
+
+  /**
+   * Predicted time of the next downbeat.
+   *
+   * @returns The time, or `null` while the clock is stopped
+   */
+  nextBarTime(): number | null {
+    return this.timeIn(this.beatsPerBar - modulo(this.beats - this.barOffset, this.beatsPerBar));
+  }
+
+  /**
+   * Predicted time of the next `noteValue`-th note (16: next 16th note).
+   *
+   * @returns The time, or `null` while the clock is stopped
+   */
+  nextSubdivisionTime(noteValue: number): number | null {
+    const perBeat = noteValue / 4;
+    return this.timeIn((Math.floor(this.beats * perBeat) + 1) / perBeat - this.beats);
+  }
+
+  /**
+   * Calls `callback` on every beat.
+   *
+   * @returns A function that removes the callback
+   */
+  onBeat(callback: BeatClockCallback): () => void {
+    return this.listen(this.beatListeners, 1, callback);
+  }
+
+  /**
+   * Calls `callback` on the downbeat starting every group of `bars` bars (`onBar(4, ...)`:
+   * bars 1, 5, 9... start 4-bar phrases 0, 1, 2...).
+   *
+   * @returns A function that removes the callback
+   */
+  onBar(bars: number, callback: BeatClockCallback): () => void {
+    return this.listen(this.barListeners, Math.max(1, Math.round(bars)), callback);
+  }
+
+  /**
+   * Calls `callback` on every `noteValue`-th note (`onSubdivision(16, ...)`: every 16th note).
+   *
+   * @returns A function that removes the callback
+   */
+  onSubdivision(noteValue: number, callback: BeatClockCallback): () => void {
+    return this.listen(this.subdivisionListeners, Math.max(1, noteValue) / 4, callback);
+  }
+
+  /**
+   * Stops the clock and restarts musical time from zero; callbacks stay registered.
+   */
+  reset(): void {
+    this.stop();
+    this.prevTime = -Infinity;
+    this.beats = 0;
+    this.beatsPerBar = 4;
+    this.barOffset = 0;
+    this.bar = 0;
+    this.lastBeat = -1;
+    for (const listener of [...this.beatListeners, ...this.barListeners, ...this.subdivisionListeners]) {
+      listener.last = -1;
+    }
+  }
+
+  private stop(): void {
+    this.bpm = 0;
+    this.slew = 0;
+    this.ahead = 0;
+    this.locked = false;
+    this.beatsWithoutTempo = 0;
+    this.relockFrames = 0;
+  }
+
+  /**
+   * Phase-locked loop: pulls the clock's tempo, phase and bar alignment towards the
+   * analysis frame.
+   */
+  private lock(rhythm: BeatClockInput): void {
+    if (rhythm.bpm <= 0) {
+      // Freewheel at the last tempo for a while
+      if (this.locked) {
+        this.locked = false;
+        this.slew = 0;
+        this.beatsWithoutTempo = 0;
+      }
+      return;
+    }
+
+    // Measured from where the clock is headed: a lead still being held is already accounted for
+    const position = this.beats - this.ahead;
+    const error = wrapPhase(rhythm.beatPhase - (position - Math.floor(position)));
+
+    if (this.bpm <= 0) {
+      // First lock: jump ahead to the reported phase
+      this.bpm = rhythm.bpm;
+      this.beats += modulo(error, 1);
+      this.slew = 0;
+      this.relockFrames = 0;
+    } else if (!this.locked || Math.abs(rhythm.bpm - this.bpm) > this.bpm * TEMPO_JUMP) {
+      // Back from a dropout or new tempo: take it as is
+      this.bpm = rhythm.bpm;
+      this.relock(error);
+    } else {
+      this.bpm += TEMPO_GAIN * (rhythm.bpm - this.bpm);
+
+      this.relockFrames = Math.abs(error) > RELOCK_ERROR ? this.relockFrames + 1 : 0;
+      if (this.relockFrames >= RELOCK_FRAMES) {
+        this.relock(error);
+      } else if (this.relockFrames === 0) {
+        const limit = MAX_SLEW * this.bpm / 60;
+        this.slew = Math.max(-limit, Math.min(limit, error / PHASE_TIME_CONSTANT));
+      }
+    }
+    this.locked = true;
+    this.beatsWithoutTempo = 0;
+
+    // Bars: shift the downbeat by whole beats to match the reported beat in bar
+    const beatsPerBar = Math.max(1, rhythm.beatsPerBar);
+    const reported = rhythm.beatInBar - 1 + rhythm.beatPhase;
+    const shift = Math.round(wrapPhase((reported - modulo(this.beats - this.ahead - this.barOffset, beatsPerBar)) / beatsPerBar) * beatsPerBar);
+    this.beatsPerBar = beatsPerBar;
+    this.barOffset = modulo(this.barOffset - shift, beatsPerBar);
+  }
+
+  /**
+   * Moves the clock onto the reported phase: forward at once, back by holding part of the
+   * advance until the grid catches up.
+   */
+  private relock(error: number): void {
+    const target = this.beats - this.ahead + error;
+    if (target >= this.beats) {
+      this.beats = target;
+      this.ahead = 0;
+    } else {
+      this.ahead = this.beats - target;
+    }
+    this.slew = 0;
+    this.relockFrames = 0;
+  }
+
+  /**
+   * Runs the callbacks of the beats, bars and subdivisions crossed since the last update.
+   */
+  private fire(time: number): void {
+    const rate = (this.bpm / 60 + this.slew) * (this.ahead > 0 ? 1 - HOLD_SHARE : 1);
+    if (rate <= 0) return;
+    const eventTime = (beat: number) => time - (this.beats - beat) / rate;
+    const beatInBarAt = (beat: number) => Math.floor(modulo(beat - this.barOffset, this.beatsPerBar) + 1e-6) + 1;
+
+    const beat = Math.floor(this.beats);
+    for (let k = Math.max(this.lastBeat + 1, beat - MAX_CATCH_UP + 1); k <= beat; k++) {
+      const beatInBar = beatInBarAt(k);
+      if (beatInBar === 1) {
+        this.bar++;
+        this.notify(this.barListeners, this.bar - 1, { time: eventTime(k), index: this.bar - 1, beatInBar });
+      }
+      this.notify(this.beatListeners, k, { time: eventTime(k), index: k, beatInBar });
+    }
+    this.lastBeat = Math.max(this.lastBeat, beat);
+
+    // Copies: a callback may unsubscribe
+    for (const listener of [...this.subdivisionListeners]) {
+      const index = Math.floor(this.beats * listener.every + 1e-6);
+      for (let k = Math.max(listener.last + 1, index - MAX_CATCH_UP + 1); k <= index; k++) {
+        const at = k / listener.every;
+        listener.callback({ time: eventTime(at), index: k, beatInBar: beatInBarAt(at) });
+      }
+      listener.last = Math.max(listener.last, index);
+    }
+  }
+
+  /**
+   * Calls the listeners whose period divides `count`, counted from 0 (each count reported
+   * once), with the index of the period.
+   */
+  private notify(listeners: Listener[], count: number, event: BeatClockEvent): void {
+    for (const listener of [...listeners]) {
+      if (count <= listener.last || count % listener.every !== 0) continue;
+      listener.last = count;
+      listener.callback({ ...event, index: count / listener.every });
+    }
+  }
+
+  private listen(listeners: Listener[], every: number, callback: BeatClockCallback): () => void {
+    // Subdivision listeners start at the current position: no burst of past notes
+    const listener: Listener = { every, callback, last: listeners === this.subdivisionListeners ? Math.floor(this.beats * every) : -1 };
+    listeners.push(listener);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index >= 0) listeners.splice(index, 1);
+    };
+  }
+
+  private barPhase(): number {
+    return modulo(this.beats - this.barOffset, this.beatsPerBar) / this.beatsPerBar;
+  }
+
+  private timeIn(beats: number): number | null {
+    const rate = this.bpm / 60 + this.slew;
+    if (rate <= 0) return null;
+    // While ahead, the clock covers `ahead` fewer beats than the time it runs
+    const heldBeats = this.ahead * (1 - HOLD_SHARE) / HOLD_SHARE;
+    return this.prevTime + (beats < heldBeats ? beats / ((1 - HOLD_SHARE) * rate) : (beats + this.ahead) / rate);
+  }
+}
@@ -0,0 +1,417 @@
+/**
+ * Feature Timeline for AuraSync
+ *
+ * A feature timeline holds the analysis of a complete track: one `AudioData` frame per
+ * analysis hop plus track-level information (tempo, beat grid, key) computed over the
+ * whole file. During playback the live `AudioData` is read from the timeline at the
+ * media element's `currentTime`, which gives exact seeking and stable tempo/key from the
+ * very first second.
+ *
+ * @module FeatureTimeline
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+import type { AudioData, SongSection } from '../hooks/useAudioAnalyzer';
+import { analyzeStructure } from './StructureAnalyzer';
+import type { TrackSection } from './StructureAnalyzer';
+
+/**
+ * Track-level information computed over the whole file.
+ */
+export interface TrackInfo {
+  /** Duration of the track in seconds. */
+  duration: number;
+  /** Sample rate the track was analysed at, in Hz. */
+  sampleRate: number;
+  /** Number of audio samples between two frames. */
+  hopSize: number;
+  /** Number of frames per second (sampleRate / hopSize). */
+  frameRate: number;
+  /** Tempo of the whole track (0 if none was found). */
+  bpm: number;
+  /** Confidence in the track tempo (0-100). */
+  bpmConfidence: number;
+  /** Time of the first beat of the grid, in seconds. */
+  beatOffset: number;
+  /** Key of the whole track (e.g. "A"). */
+  key: string;
+  /** Mode of the whole track. */
+  mode: 'major' | 'minor' | 'unknown';
+}
+
+/**
+ * Beat-level events of a track.
+ */
+export interface TimelineEvents {
+  /** Beat times, in seconds, sorted. */
+  beats: number[];
+  /** Downbeat (first beat of a bar) times, in seconds, sorted. */
+  downbeats: number[];
+  /** Song sections; segmented from the frames when omitted. */
+  sections?: TrackSection[];
+}
+
+/**
+ * Anticipation data read ahead of the playback position.
+ * Only available when a pre-analysed timeline is playing.
+ */
+export interface LookaheadData {
+  /** Seconds until the next beat. */
+  timeToNextBeat: number;
+  /** Seconds until the next downbeat (`null` if there is none left). */
+  timeToNextDownbeat: number | null;
+  /** Seconds until the next drop (`null` if there is none left). */
+  timeToNextDrop: number | null;
+  /** Strength (0-1) of the next drop, 0 if there is none left. */
+  nextDropIntensity: number;
+  /** Average energy (0-1) over the look-ahead window. */
+  upcomingEnergy: number;
+  /** Energy trend over the window (-1 to 1): positive when the music is building up. */
+  energyTrend: number;
+  /** Seconds until the next section boundary (`null` in the last section). */
+  timeToNextSection: number | null;
+  /** Label of the next section (`null` in the last section). */
+  nextSection: SongSection | null;
+  /** Length of the look-ahead window, in seconds. */
+  window: number;
+}
+
+/** A drop found in the timeline. */
+export interface TimelineDrop {
+  /** Time the surge starts, in seconds. */
+  time: number;
+  /** Peak drop intensity (0-1). */
+  intensity: number;
+}
+
+/** Drop intensity above which a frame belongs to a drop. */
+const DROP_THRESHOLD = 0.3;
+
+/**
+ * Per-frame analysis of a complete track with time-based lookup.
+ */
+export class FeatureTimeline {
+  /** Track-level information. */
+  public readonly info: TrackInfo;
+  /** One analysis frame per hop, frame `i` covers `[i / frameRate, (i + 1) / frameRate)`. */
+  public readonly frames: AudioData[];
+  /** Beat times of the track, in seconds. */
+  public readonly beats: number[];
+  /** Downbeat times of the track, in seconds. */
+  public readonly downbeats: number[];
+  /** Drops of the track, found from the per-frame drop intensity. */
+  public readonly drops: TimelineDrop[];
+  /** Song sections of the track, in order. */
+  public readonly sections: TrackSection[];
+  /** Structural novelty (0-1) per slot of `noveltySlotDuration` seconds. */
+  private readonly novelty: number[];
+  private readonly noveltySlotDuration: number;
+
+  /**
+   * @param info - Track-level information
+   * @param frames - One analysis frame per hop
+   * @param events - Beat and downbeat times; defaults to a 4/4 grid built from the track tempo.
+   *   Sections are segmented from the frames (and snapped to downbeats) unless provided.
+   */
+  constructor(info: TrackInfo, frames: AudioData[], events?: TimelineEvents) {
+    this.info = info;
+    this.frames = frames;
+
+    const grid = events ?? FeatureTimeline.createBeatGrid(info);
+    this.beats = grid.beats;
+    this.downbeats = grid.downbeats;
+    this.drops = this.findDrops();
+
+    const structure = analyzeStructure(frames, info.frameRate);
+    this.novelty = structure.novelty;
+    this.noveltySlotDuration = structure.slotDuration;
+    this.sections = events?.sections ?? this.snapToDownbeats(structure.sections);
+  }
+
+  /**
+   * Moves section boundaries onto the nearest downbeat within half a bar, since
+   * arrangements change on bar lines while novelty is only accurate to a slot.
+   */
+  private snapToDownbeats(sections: TrackSection[]): TrackSection[] {
+    if (this.downbeats.length < 2 || this.info.bpm <= 0) return sections;
+
+    const halfBar = (60 / this.info.bpm) * 2;
+    const snapped = sections.map(section => ({ ...section }));
+
+    for (let i = 1; i < snapped.length; i++) {
+      const boundary = snapped[i].start;
+      const nearest = this.downbeats.reduce((best, downbeat) =>
+          Math.abs(downbeat - boundary) < Math.abs(best - boundary) ? downbeat : best
+      );
+      if (Math.abs(nearest - boundary) <= halfBar && nearest > snapped[i - 1].start) {
+        snapped[i].start = nearest;
+        snapped[i - 1].end = nearest;
+      }
+    }
+
+    return snapped;
+  }
+
+  /**
+   * Index of the section playing at a given time.
+   *
+   * @param time - Playback position in seconds
+   * @returns Section index (-1 if the timeline has no sections)
+   */
+  public getSectionIndex(time: number): number {
+    if (this.sections.length === 0) return -1;
+    let index = 0;
+    while (index < this.sections.length - 1 && this.sections[index + 1].start <= time) index++;
+    return index;
+  }
+
+  /**
+   * Finds drops in the frames. The live detector only raises `dropIntensity` once the
+   * energy surge is under way; with the whole track known, each drop is dated back to
+   * the frame where its intensity starts rising.
+   */
+  private findDrops(): TimelineDrop[] {
+    const drops: TimelineDrop[] = [];
+    let index = 0;
+
+    while (index < this.frames.length) {
+      if (this.frames[index].dropIntensity < DROP_THRESHOLD) {
+        index++;
+        continue;
+      }
+
+      let start = index;
+      while (start > 0 && this.frames[start - 1].dropIntensity < this.frames[start].dropIntensity) start--;
+
+      let intensity = 0;
+      while (index < this.frames.length && this.frames[index].dropIntensity >= DROP_THRESHOLD) {
+        intensity = Math.max(intensity, this.frames[index].dropIntensity);
+        index++;
+      }
+
+      drops.push({ time: start / this.info.frameRate, intensity });
+    }
+
+    return drops;
+  }
+
+  /**
+   * Builds a regular beat grid from the track tempo and beat offset.
+   *
+   * @param info - Track-level information
+   * @param beatsPerBar - Beats between two downbeats (default: 4)
+   * @param downbeatIndex - Index of the first downbeat among the first bar's beats (default: 0)
+   * @returns Beat and downbeat times
+   */
+  public static createBeatGrid(info: TrackInfo, beatsPerBar: number = 4, downbeatIndex: number = 0): TimelineEvents {
+    const beats: number[] = [];
+    const downbeats: number[] = [];
+    if (info.bpm <= 0) return { beats, downbeats };
+
+    const period = 60 / info.bpm;
+    for (let index = 0; info.beatOffset + index * period < info.duration; index++) {
+      const time = info.beatOffset + index * period;
+      beats.push(time);
+      if (index % beatsPerBar === downbeatIndex % beatsPerBar) {
+        downbeats.push(time);
+      }
+    }
+
+    return { beats, downbeats };
+  }
+
+  /**
+   * Index of the frame covering a given time, clamped to the track.
+   *
+   * @param time - Playback position in seconds
+   * @returns Frame index (-1 if the timeline is empty)
+   */
+  public getFrameIndex(time: number): number {
+    if (this.frames.length === 0) return -1;
+    const index = Math.floor(time * this.info.frameRate);
+    return Math.max(0, Math.min(this.frames.length - 1, index));
+  }
+
+  /**
+   * Position within the current beat.
+   * Between two beat events the phase is interpolated linearly, so edited or imported
+   * beats are followed exactly; outside the events the track tempo is extrapolated.
+   *
+   * @param time - Playback position in seconds
+   * @returns Beat phase (0-1), 0 when the track has no tempo
+   */
+  public getBeatPhase(time: number): number {
+    if (this.info.bpm <= 0 || this.beats.length === 0) return 0;
+
+    const period = 60 / this.info.bpm;
+    const first = this.beats[0];
+    const last = this.beats[this.beats.length - 1];
+
+    if (time < first || time >= last) {
+      const beats = (time - (time < first ? first : last)) / period;
+      return beats - Math.floor(beats);
+    }
+
+    // Binary search for the last beat at or before `time`
+    let low = 0;
+    let high = this.beats.length - 1;
+    while (high - low > 1) {
+      const middle = (low + high) >> 1;
+      if (this.beats[middle] <= time) low = middle;
+      else high = middle;
+    }
+
+    return (time - this.beats[low]) / (this.beats[high] - this.beats[low]);
+  }
+
+  /**
+   * Position within the bar grid: beats are counted from the nearest beat to the
+   * first downbeat, bar length is the number of beats between the first two downbeats.
+   *
+   * @param time - Playback position in seconds
+   * @returns Bar phase (0-1), beat in bar (from 1) and bars started (0 before the first downbeat)
+   */
+  public getBarPosition(time: number): { barPhase: number; beatInBar: number; bar: number } {
+    if (this.info.bpm <= 0 || this.beats.length === 0 || this.downbeats.length === 0) {
+      return { barPhase: 0, beatInBar: 1, bar: 0 };
+    }
+
+    const nearestBeat = (target: number) => this.beats.reduce((best, beat, index) =>
+        Math.abs(beat - target) < Math.abs(this.beats[best] - target) ? index : best, 0);
+    const firstDownbeat = nearestBeat(this.downbeats[0]);
+    const beatsPerBar = this.downbeats.length > 1 ? Math.max(1, nearestBeat(this.downbeats[1]) - firstDownbeat) : 4;
+
+    // Index of the current beat, extrapolated with the track tempo outside the grid
+    const period = 60 / this.info.bpm;
+    let beat: number;
+    if (time < this.beats[0]) {
+      beat = Math.floor((time - this.beats[0]) / period);
+    } else if (time >= this.beats[this.beats.length - 1]) {
+      beat = this.beats.length - 1 + Math.floor((time - this.beats[this.beats.length - 1]) / period);
+    } else {
+      // Binary search for the last beat at or before `time`
+      let low = 0;
+      let high = this.beats.length - 1;
+      while (high - low > 1) {
+        const middle = (low + high) >> 1;
+        if (this.beats[middle] <= time) low = middle;
+        else high = middle;
+      }
+      beat = low;
+    }
+
+    const fromDownbeat = beat - firstDownbeat;
+    const beatInBar = (((fromDownbeat % beatsPerBar) + beatsPerBar) % beatsPerBar) + 1;
+    return {
+      barPhase: (beatInBar - 1 + this.getBeatPhase(time)) / beatsPerBar,
+      beatInBar,
+      bar: Math.max(0, Math.floor(fromDownbeat / beatsPerBar) + 1)
+    };
+  }
+
+  /**
+   * Reads ahead of a playback position: upcoming beat, downbeat and drop, and how
+   * the energy evolves over the next `window` seconds.
+   *
+   * @param time - Playback position in seconds
+   * @param window - Look-ahead window in seconds (default: 4)
+   * @returns Anticipation data for this position
+   */
+  public getLookahead(time: number, window: number = 4): LookaheadData {
+    const nextBeat = this.beats.find(beat => beat > time);
+    const nextDownbeat = this.downbeats.find(downbeat => downbeat > time);
+    const nextDrop = this.drops.find(drop => drop.time > time);
+    const nextSection = this.sections[this.getSectionIndex(time) + 1];
+
+    let timeToNextBeat = 0;
+    if (nextBeat !== undefined) {
+      timeToNextBeat = nextBeat - time;
+    } else if (this.info.bpm > 0) {
+      timeToNextBeat = (1 - this.getBeatPhase(time)) * 60 / this.info.bpm;
+    }
+
+    // Energy over the window, compared with the current energy
+    const current = this.getFrameIndex(time);
+    const last = this.getFrameIndex(time + window);
+    let upcomingEnergy = 0;
+    let energyTrend = 0;
+
+    if (current >= 0 && last > current) {
+      for (let i = current + 1; i <= last; i++) {
+        upcomingEnergy += this.frames[i].energy;
+      }
+      upcomingEnergy /= last - current;
+      energyTrend = Math.max(-1, Math.min(1, upcomingEnergy - this.frames[current].energy));
+    }
+
+    return {
+      timeToNextBeat,
+      timeToNextDownbeat: nextDownbeat !== undefined ? nextDownbeat - time : null,
+      timeToNextDrop: nextDrop ? nextDrop.time - time : null,
+      nextDropIntensity: nextDrop?.intensity ?? 0,
+      upcomingEnergy,
+      energyTrend,
+      timeToNextSection: nextSection ? nextSection.start - time : null,
+      nextSection: nextSection?.section ?? null,
+      window
+    };
+  }
+
+  /**
+   * Returns the analysis frame for a playback position.
+   * The beat phase is computed from the track grid at the exact time rather than
+   * taken from the (hop-quantized) frame, and the structure comes from the track sections.
+   * `isBeat` and `downbeat` are set once per grid beat, for the beats passed since the
+   * previous read, whatever the read rate: the flags stored per hop would repeat on
+   * every render within the hop, or be skipped.
+   *
+   * @param time - Playback position in seconds
+   * @param previousTime - Playback position of the previous read; without it, or after a
+   *   seek backwards, no beat is reported
+   * @returns `AudioData` for this position, or `null` if the timeline is empty
+   */
+  public getFrame(time: number, previousTime?: number): AudioData | null {
+    const index = this.getFrameIndex(time);
+    if (index < 0) return null;
+
+    const frame = this.frames[index];
+    const sectionIndex = this.getSectionIndex(time);
+    const section = this.sections[sectionIndex];
+    const slot = Math.min(this.novelty.length - 1, Math.floor(time / this.noveltySlotDuration));
+    const played = previousTime !== undefined && previousTime < time;
+
+    return {
+      ...frame,
+      rhythmicFeatures: {
+        ...frame.rhythmicFeatures,
+        beatPhase: this.getBeatPhase(time),
+        isBeat: played && FeatureTimeline.hasTimeIn(this.beats, previousTime, time),
+        downbeat: played && FeatureTimeline.hasTimeIn(this.downbeats, previousTime, time)
+      },
+      structure: section ? {
+        section: section.section,
+        sectionIndex,
+        timeInSection: Math.max(0, time - section.start),
+        level: section.level,
+        novelty: this.novelty[Math.max(0, slot)] ?? 0
+      } : frame.structure
+    };
+  }
+
+  /**
+   * Whether a sorted list of times has one in `(from, to]`.
+   */
+  private static hasTimeIn(times: number[], from: number, to: number): boolean {
+    // Binary search for the first time after `from`
+    let low = 0;
+    let high = times.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (times[middle] <= from) low = middle + 1;
+      else high = middle;
+    }
+    return low < times.length && times[low] <= to;
+  }
+}
@@ -0,0 +1,379 @@
+/**
+ * Loudness Metering (ITU-R BS.1770 / EBU R128) for AuraSync
+ *
+ * Measures perceived loudness the way broadcast meters do, so visual reactivity can be
+ * referenced to the loudness of the track rather than to its raw sample level.
+ *
+ * Key Features:
+ * - K-weighting pre-filter (high shelf + high-pass), coefficients derived for any sample rate
+ * - Momentary (400 ms) and short-term (3 s) loudness in LUFS
+ * - Integrated loudness with the absolute (-70 LUFS) and relative (-10 LU) gates
+ * - Loudness range (LRA, EBU Tech 3342): 10th to 95th percentile of gated short-term values
+ * - True-peak estimate using 4x polyphase oversampling
+ *
+ * The meter is fed analysis windows rather than a continuous stream, each stamped with
+ * the time of its last sample. Only the samples a window adds since the previous one are
+ * measured: the K-weighting filters carry their state over contiguous or overlapping
+ * windows (worklet hops, analyser reads), so the audio is filtered as one stream and no
+ * sample is counted twice. After a gap the filters are restarted and settle on the start
+ * of the window, which is not counted. Loudness windows average the measured samples.
+ *
+ * Integrated loudness and LRA are gated over histograms of the gating blocks, in 0.1 LU
+ * bins from -70 to +5 LUFS, rather than over every block: their cost stays the same
+ * however long the session runs, for a resolution of 0.1 LU on the gates and percentiles.
+ *
+ * @module LoudnessMeter
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+import type { LoudnessFeatures } from '../hooks/useAudioAnalyzer';
+
+/** Reported instead of -Infinity for silence (the BS.1770 absolute gate). */
+export const LOUDNESS_FLOOR = -70;
+
+const MOMENTARY_WINDOW = 0.4;
+const SHORT_TERM_WINDOW = 3;
+/** Gating blocks are 400 ms long with 75% overlap, i.e. one every 100 ms. */
+const BLOCK_INTERVAL = 0.1;
+const RELATIVE_GATE = -10;
+const LRA_RELATIVE_GATE = -20;
+/** Block loudness histograms: 0.1 LU bins from the floor to +5 LUFS (louder goes in the top bin). */
+const HISTOGRAM_STEP = 0.1;
+const HISTOGRAM_BINS = 750;
+
+const OVERSAMPLING = 4;
+const TAPS_PER_PHASE = 12;
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+/** Direct form I state of the two K-weighting stages of one channel. */
+type FilterState = { x1: number; x2: number; y1: number; y2: number; z1: number; z2: number };
+
+const createFilterState = (): FilterState => ({ x1: 0, x2: 0, y1: 0, y2: 0, z1: 0, z2: 0 });
+
+/** Share of a window used to settle restarted filters (not counted in the loudness). */
+const SETTLING_SHARE = 0.5;
+
+/**
+ * Histogram bin of a loudness above the floor.
+ */
+function histogramBin(lufs: number): number {
+  return Math.max(0, Math.min(HISTOGRAM_BINS - 1, Math.floor((lufs - LOUDNESS_FLOOR) / HISTOGRAM_STEP)));
+}
+
+/**
+ * First histogram bin lying entirely above a gate.
+ */
+function binAbove(gate: number): number {
+  return Math.max(0, Math.ceil((gate - LOUDNESS_FLOOR) / HISTOGRAM_STEP));
+}
+
+/**
+ * Converts a mean-square power to LUFS (BS.1770 eq. 2), floored for silence.
+ */
+function powerToLufs(power: number): number {
+  return power > 0 ? Math.max(LOUDNESS_FLOOR, -0.691 + 10 * Math.log10(power)) : LOUDNESS_FLOOR;
+}
+
+/**
+ * Designs the two K-weighting stages for a sample rate
+ * (same derivation as the reference 48 kHz coefficients of BS.1770).
+ */
+function createKWeighting(sampleRate: number): [Biquad, Biquad] {
+  // Stage 1: high shelf modelling the acoustic effect of the head
+  const shelfK = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  const shelf: Biquad = {
+    b0: (vh + vb * shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+    b1: 2 * (shelfK * shelfK - vh) / shelfA0,
+    b2: (vh - vb * shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+    a1: 2 * (shelfK * shelfK - 1) / shelfA0,
+    a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+  };
+
+  // Stage 2: RLB high-pass
+  const hpK = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  const hpQ = 0.5003270373238773;
+  const hpA0 = 1 + hpK / hpQ + hpK * hpK;
+
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (hpK * hpK - 1) / hpA0,
+    a2: (1 - hpK / hpQ + hpK * hpK) / hpA0,
+  };
+
+  return [shelf, highPass];
+}
+
+/**
+ * Windowed-sinc interpolation filter, split into one sub-filter per oversampling phase.
+ */
+function createOversamplingFilter(): number[][] {
+  const length = OVERSAMPLING * TAPS_PER_PHASE;
+  const center = (length - 1) / 2;
+  const phases: number[][] = Array.from({ length: OVERSAMPLING }, () => []);
+
+  for (let i = 0; i < length; i++) {
+    const x = (i - center) / OVERSAMPLING;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1));
+    phases[i % OVERSAMPLING].push(sinc * window);
+  }
+
+  return phases;
+}
+
+const OVERSAMPLING_FILTER = createOversamplingFilter();
+
+/**
+ * Real-time loudness meter.
+ *
+ * @example
+ * ```typescript
+ * const meter = new LoudnessMeter();
+ * const loudness = meter.process([left, right], 48000, audioContext.currentTime);
+ * console.log(`${loudness.momentary.toFixed(1)} LUFS`);
+ * ```
+ */
+export class LoudnessMeter {
+  private sampleRate = 0;
+  private filters: [Biquad, Biquad] = createKWeighting(44100);
+
+  /** Time-stamped channel-summed mean squares of the new samples of recent windows (last 3 s). */
+  private history: { time: number; power: number; samples: number }[] = [];
+  /** Filter state of each channel at the last sample measured; `null` after a gap. */
+  private filterStates: FilterState[] | null = null;
+  /** 400 ms gating blocks above the floor since the start: count and power sum per bin. */
+  private blockCounts = new Float64Array(HISTOGRAM_BINS);
+  private blockPowers = new Float64Array(HISTOGRAM_BINS);
+  /** Short-term loudness sampled with the gating blocks, for LRA: count per bin, power totals. */
+  private shortTermCounts = new Float64Array(HISTOGRAM_BINS);
+  private shortTermPower = 0;
+  private shortTermCount = 0;
+  private nextBlockTime = -1;
+  private lastTime = -Infinity;
+
+  private integrated = LOUDNESS_FLOOR;
+  private range = 0;
+  private maxTruePeak = LOUDNESS_FLOOR;
+
+  /**
+   * Adds one analysis window and returns the updated loudness.
+   *
+   * @param channels - Samples (-1 to 1) of each channel; channel powers are summed (weight 1 for L/R)
+   * @param sampleRate - Sample rate of the audio, in Hz
+   * @param time - Timestamp of the window in seconds; going backwards restarts the measurement
+   */
+  process(channels: Float32Array[], sampleRate: number, time: number): LoudnessFeatures {
+    if (sampleRate !== this.sampleRate) {
+      this.sampleRate = sampleRate;
+      this.filters = createKWeighting(sampleRate);
+      this.filterStates = null;
+    }
+    if (time < this.lastTime) this.reset();
+
+    // Samples this window adds to the previous one; all of them after a gap or at the start
+    const length = channels[0]?.length ?? 0;
+    const elapsed = Number.isFinite(this.lastTime) ? Math.round((time - this.lastTime) * sampleRate) : Infinity;
+    this.lastTime = time;
+    if (elapsed > length || this.filterStates?.length !== channels.length) this.filterStates = null;
+
+    // Contiguous audio: filter only the new samples, from the state left by the previous window.
+    // Otherwise restart the filters and let them settle on the start of the window.
+    const continuing = this.filterStates !== null;
+    const start = continuing ? length - Math.max(0, elapsed) : Math.floor(length * SETTLING_SHARE);
+    const states = this.filterStates ?? channels.map(() => createFilterState());
+
+    let power = 0;
+    let truePeak = 0;
+    channels.forEach((samples, channel) => {
+      power += this.weightedMeanSquare(samples, continuing ? start : 0, start, states[channel]);
+      truePeak = Math.max(truePeak, LoudnessMeter.truePeak(samples));
+    });
+    this.filterStates = states;
+
+    if (start < length) this.history.push({ time, power, samples: length - start });
+    while (this.history.length > 0 && this.history[0].time <= time - SHORT_TERM_WINDOW) {
+      this.history.shift();
+    }
+
+    const momentaryPower = this.windowPower(time, MOMENTARY_WINDOW);
+    const shortTermPower = this.windowPower(time, SHORT_TERM_WINDOW);
+
+    // One gating block every 100 ms once the first 400 ms have been measured
+    if (this.nextBlockTime < 0) this.nextBlockTime = time + MOMENTARY_WINDOW;
+    if (time >= this.nextBlockTime) {
+      this.nextBlockTime = time + BLOCK_INTERVAL;
+      this.addBlock(momentaryPower, shortTermPower);
+      this.integrated = this.computeIntegrated();
+      this.range = this.computeRange();
+    }
+
+    const truePeakDb = truePeak > 0 ? Math.max(LOUDNESS_FLOOR, 20 * Math.log10(truePeak)) : LOUDNESS_FLOOR;
+    this.maxTruePeak = Math.max(this.maxTruePeak, truePeakDb);
+
+    const momentary = powerToLufs(momentaryPower);
+
+    return {
+      momentary,
+      shortTerm: powerToLufs(shortTermPower),
+      integrated: this.integrated,
+      range: this.range,
+      truePeak: truePeakDb,
+      maxTruePeak: this.maxTruePeak,
+      relative: this.integrated > LOUDNESS_FLOOR ? momentary - this.integrated : 0,
+    };
+  }
+
+  /**
+   * Restarts the measurement (new track, seek, source change).
+   */
+  reset(): void {
+    this.history = [];
+    this.filterStates = null;
+    this.blockCounts.fill(0);
+    this.blockPowers.fill(0);
+    this.shortTermCounts.fill(0);
+    this.shortTermPower = 0;
+    this.shortTermCount = 0;
+    this.nextBlockTime = -1;
+    this.lastTime = -Infinity;
+    this.integrated = LOUDNESS_FLOOR;
+    this.range = 0;
+    this.maxTruePeak = LOUDNESS_FLOOR;
+  }
+
+  /**
+   * K-weights `samples` from `from` on, continuing from `state` (updated in place), and
+   * returns the mean square of the samples from `countFrom` on.
+   */
+  private weightedMeanSquare(samples: Float32Array, from: number, countFrom: number, state: FilterState): number {
+    if (countFrom >= samples.length) return 0;
+
+    let sum = 0;
+    let { x1, x2, y1, y2, z1, z2 } = state;
+    const [shelf, highPass] = this.filters;
+
+    for (let i = from; i < samples.length; i++) {
+      const x = samples[i];
+      const y = shelf.b0 * x + shelf.b1 * x1 + shelf.b2 * x2 - shelf.a1 * y1 - shelf.a2 * y2;
+      x2 = x1; x1 = x;
+
+      const z = highPass.b0 * y + highPass.b1 * y1 + highPass.b2 * y2 - highPass.a1 * z1 - highPass.a2 * z2;
+      y2 = y1; y1 = y;
+      z2 = z1; z1 = z;
+
+      if (i >= countFrom) sum += z * z;
+    }
+
+    Object.assign(state, { x1, x2, y1, y2, z1, z2 });
+    return sum / (samples.length - countFrom);
+  }
+
+  /**
+   * Average power of the samples measured within `duration` seconds of `time`.
+   */
+  private windowPower(time: number, duration: number): number {
+    let sum = 0, count = 0;
+    for (let i = this.history.length - 1; i >= 0 && this.history[i].time > time - duration; i--) {
+      sum += this.history[i].power * this.history[i].samples;
+      count += this.history[i].samples;
+    }
+    return count > 0 ? sum / count : 0;
+  }
+
+  /**
+   * Adds a gating block to the histograms; blocks at the floor (absolute gate) are left out.
+   */
+  private addBlock(momentaryPower: number, shortTermPower: number): void {
+    const momentary = powerToLufs(momentaryPower);
+    if (momentary > LOUDNESS_FLOOR) {
+      const bin = histogramBin(momentary);
+      this.blockCounts[bin]++;
+      this.blockPowers[bin] += momentaryPower;
+    }
+
+    const shortTerm = powerToLufs(shortTermPower);
+    if (shortTerm > LOUDNESS_FLOOR) {
+      this.shortTermCounts[histogramBin(shortTerm)]++;
+      this.shortTermPower += shortTermPower;
+      this.shortTermCount++;
+    }
+  }
+
+  /**
+   * Gated integrated loudness (BS.1770-4 §2.8).
+   */
+  private computeIntegrated(): number {
+    let count = 0, power = 0;
+    for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+      count += this.blockCounts[bin];
+      power += this.blockPowers[bin];
+    }
+    if (count === 0) return LOUDNESS_FLOOR;
+
+    const relativeGate = powerToLufs(power / count) + RELATIVE_GATE;
+    let gatedCount = 0, gatedPower = 0;
+    for (let bin = binAbove(relativeGate); bin < HISTOGRAM_BINS; bin++) {
+      gatedCount += this.blockCounts[bin];
+      gatedPower += this.blockPowers[bin];
+    }
+    return gatedCount > 0 ? powerToLufs(gatedPower / gatedCount) : LOUDNESS_FLOOR;
+  }
+
+  /**
+   * Loudness range (EBU Tech 3342): spread between the 10th and 95th percentiles
+   * of the gated short-term loudness values.
+   */
+  private computeRange(): number {
+    if (this.shortTermCount < 2) return 0;
+
+    const first = binAbove(powerToLufs(this.shortTermPower / this.shortTermCount) + LRA_RELATIVE_GATE);
+    let gated = 0;
+    for (let bin = first; bin < HISTOGRAM_BINS; bin++) gated += this.shortTermCounts[bin];
+    if (gated < 2) return 0;
+
+    // Centre of the bin holding the value of rank `p * (gated - 1)`
+    const percentile = (p: number) => {
+      const rank = Math.round(p * (gated - 1));
+      let seen = 0;
+      for (let bin = first; bin < HISTOGRAM_BINS; bin++) {
+        seen += this.shortTermCounts[bin];
+        if (seen > rank) return LOUDNESS_FLOOR + (bin + 0.5) * HISTOGRAM_STEP;
+      }
+      return LOUDNESS_FLOOR + HISTOGRAM_BINS * HISTOGRAM_STEP;
+    };
+    return percentile(0.95) - percentile(0.1);
+  }
+
+  /**
+   * Highest absolute value of the 4x oversampled signal (BS.1770 Annex 2).
+   */
+  private static truePeak(samples: Float32Array): number {
+    let peak = 0;
+
+    for (let n = 0; n < samples.length; n++) {
+      peak = Math.max(peak, Math.abs(samples[n]));
+      for (const phase of OVERSAMPLING_FILTER) {
+        let value = 0;
+        for (let k = 0; k < phase.length && k <= n; k++) {
+          value += phase[k] * samples[n - k];
+        }
+        peak = Math.max(peak, Math.abs(value));
+      }
+    }
+
+    return peak;
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Downbeat and Meter Tracking for AuraSync
+ *
+ * Groups the beats of the beat tracker into bars: finds the "one", infers the time
+ * signature and counts bars, so scenes can cut on downbeats and on 4/8/16-bar phrases
+ * the way VJs do.
+ *
+ * Key Features:
+ * - Beats taken from the tracker's beat events (`RhythmicEngine`), or from the wraps of
+ *   the beat phase when only a phase is available
+ * - Per-beat accent: strongest bass onset around each beat (kick drums land on the "one")
+ * - Meter inference from the accent pattern over 12 beats: groups of 4 (4/4) or 3 (3/4),
+ *   with a triplet feel inside the beat turning even groupings into 6/8
+ * - Bar phase, beat in bar and a bar counter that keep running between beats
+ * - Manual downbeat ("resync to now"), held until released
+ *
+ * @module MeterTracker
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+import type { RhythmicFeatures, TimeSignature } from '../hooks/useAudioAnalyzer';
+import type { BeatEvent } from '../workers/RhythmicEngine';
+
+/**
+ * What the meter tracker needs from a frame.
+ */
+export interface MeterInput {
+  /** Frame time, in seconds. */
+  time: number;
+  /** Current tempo (0 when unknown). */
+  bpm: number;
+  /** Position within the current beat (0-1). */
+  beatPhase: number;
+  /** Half-wave rectified rise of the bass energy. */
+  bassOnset: number;
+  /** Onset detection function value (spectral flux). */
+  onsetStrength: number;
+  /** Beat events of the beat tracker, oldest first, when it provides them. */
+  beatEvents?: BeatEvent[];
+}
+
+/** The bar and meter fields of `RhythmicFeatures`. */
+export type MeterFeatures = Pick<
+  RhythmicFeatures,
+  'barPhase' | 'beatInBar' | 'bar' | 'beatsPerBar' | 'timeSignature' | 'downbeat' | 'downbeatConfidence'
+>;
+
+/** Beats per bar of each time signature (6/8 counts dotted-quarter beats). */
+export const BEATS_PER_BAR: Record<TimeSignature, number> = { '4/4': 4, '3/4': 3, '6/8': 2 };
+
+/** Accent slots: beat index modulo 12 covers groupings of 2, 3 and 4 beats. */
+const ACCENT_SLOTS = 12;
+/** Per-beat decay of the accent averages (~40 beats of memory, follows meter changes). */
+const ACCENT_DECAY = 0.975;
+/** Beats with a measured accent before the meter is inferred. */
+const MIN_BEATS = ACCENT_SLOTS;
+/** Positions within a beat of the onset profile used to detect a triplet feel. */
+const PROFILE_BINS = 12;
+/** Time constant of the onset profile, in seconds. */
+const PROFILE_TIME_CONSTANT = 8;
+/** How much stronger the triplet positions must be than the binary ones to count as 6/8. */
+const TRIPLET_RATIO = 1.3;
+/** How much more contrast groups of 3 need over groups of 4 (4/4 is the default). */
+const TRIPLE_METER_RATIO = 1.25;
+/** Bass onsets kept to measure the accent of recent beats, in seconds. */
+const ONSET_HISTORY = 2;
+
+/**
+ * Tracks downbeats, bars and the time signature from a stream of beats.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new MeterTracker();
+ * const meter = tracker.process({ time, bpm, beatPhase, bassOnset, onsetStrength });
+ * if (meter.downbeat && meter.bar % 8 === 0) {
+ *   // Start of an 8-bar phrase
+ * }
+ * ```
+ */
+export class MeterTracker {
+  private lastBeatTime = -Infinity;
+  private prevPhase = 0;
+  private prevTime = -Infinity;
+  private beatIndex = -1;
+  /** Last beat, whose accent is measured once the onsets after it are known. */
+  private pendingBeat: { time: number; index: number } | null = null;
+  private beatsMeasured = 0;
+  private onsets: { time: number; value: number }[] = [];
+  private accents = new Float64Array(ACCENT_SLOTS);
+  private weights = new Float64Array(ACCENT_SLOTS);
+  private phaseProfile = new Float64Array(PROFILE_BINS);
+
+  private beatsPerBar = 4;
+  private timeSignature: TimeSignature = '4/4';
+  /** Beat index (modulo `beatsPerBar`) of the downbeats. */
+  private downbeatOffset = 0;
+  private confidence = 0;
+  private beatInBar = 1;
+  private bar = 0;
+  /** The next frame is a downbeat set by hand. */
+  private resyncPending = false;
+  /** The downbeat was set by hand: meter inference is suspended. */
+  private manualDownbeat = false;
+
+  /**
+   * Processes one frame.
+   *
+   * @param input - Tempo, beat phase and onset strengths of the frame
+   * @returns Bar position and meter; unchanged (without downbeat) while the tempo is unknown
+   */
+  process(input: MeterInput): MeterFeatures {
+    const { time, bpm } = input;
+
+    // Timestamps going backwards mean a new time base (source or capture change)
+    if (time < this.prevTime) this.reset();
+    const delta = Number.isFinite(this.prevTime) ? time - this.prevTime : 0;
+    this.prevTime = time;
+
+    if (bpm <= 0) {
+      this.prevPhase = 0;
+      return this.output(0, false);
+    }
+    const period = 60 / bpm;
+
+    this.recordOnsets(input, delta);
+
+    const beatTime = this.resyncPending ? time : this.findNewBeat(input, period);
+    this.prevPhase = input.beatPhase;
+
+    let downbeat = false;
+    if (beatTime !== null) {
+      this.measurePendingBeat(period);
+      this.beatIndex++;
+      this.lastBeatTime = beatTime;
+      this.pendingBeat = { time: beatTime, index: this.beatIndex };
+
+      if (this.resyncPending) {
+        this.downbeatOffset = this.beatIndex % this.beatsPerBar;
+        this.resyncPending = false;
+      }
+
+      const offset = this.beatIndex - this.downbeatOffset;
+      this.beatInBar = (((offset % this.beatsPerBar) + this.beatsPerBar) % this.beatsPerBar) + 1;
+      if (this.beatInBar === 1) {
+        this.bar++;
+        downbeat = true;
+      }
+    }
+
+    const beatPhase = Number.isFinite(this.lastBeatTime)
+        ? Math.min(0.999, Math.max(0, (time - this.lastBeatTime) / period))
+        : 0;
+    return this.output((this.beatInBar - 1 + beatPhase) / this.beatsPerBar, downbeat);
+  }
+
+  /**
+   * Makes the next frame a downbeat and keeps the bar grid there (the meter is no longer
+   * inferred) until `releaseDownbeat()`.
+   */
+  resync(): void {
+    this.resyncPending = true;
+    this.manualDownbeat = true;
+  }
+
+  /**
+   * Returns to inferring the downbeat and meter from the accents.
+   */
+  releaseDownbeat(): void {
+    this.manualDownbeat = false;
+  }
+
+  /**
+   * Clears the beat history and returns to 4/4.
+   */
+  reset(): void {
+    this.lastBeatTime = -Infinity;
+    this.prevPhase = 0;
+    this.prevTime = -Infinity;
+    this.beatIndex = -1;
+    this.pendingBeat = null;
+    this.beatsMeasured = 0;
+    this.onsets = [];
+    this.accents.fill(0);
+    this.weights.fill(0);
+    this.phaseProfile.fill(0);
+    this.beatsPerBar = 4;
+    this.timeSignature = '4/4';
+    this.downbeatOffset = 0;
+    this.confidence = 0;
+    this.beatInBar = 1;
+    this.bar = 0;
+    this.resyncPending = false;
+    this.manualDownbeat = false;
+  }
+
+  private output(barPhase: number, downbeat: boolean): MeterFeatures {
+    return {
+      barPhase: Math.round(barPhase * 1000) / 1000,
+      beatInBar: this.beatInBar,
+      bar: this.bar,
+      beatsPerBar: this.beatsPerBar,
+      timeSignature: this.timeSignature,
+      downbeat,
+      downbeatConfidence: Math.round(this.confidence * 100)
+    };
+  }
+
+  /**
+   * Keeps the recent bass onsets and accumulates the onset strength by position within
+   * the beat (triplet feel).
+   */
+  private recordOnsets(input: MeterInput, delta: number): void {
+    this.onsets.push({ time: input.time, value: input.bassOnset });
+    while (this.onsets.length > 0 && this.onsets[0].time < input.time - ONSET_HISTORY) {
+      this.onsets.shift();
+    }
+
+    const decay = Math.exp(-delta / PROFILE_TIME_CONSTANT);
+    for (let i = 0; i < PROFILE_BINS; i++) this.phaseProfile[i] *= decay;
+    const bin = Math.min(PROFILE_BINS - 1, Math.floor(input.beatPhase * PROFILE_BINS));
+    this.phaseProfile[bin] += input.onsetStrength * delta;
+  }
+
+  /**
+   * Time of a beat that occurred since the previous frame, or `null`.
+   * Beats closer than half a period to the previous one are ignored.
+   */
+  private findNewBeat(input: MeterInput, period: number): number | null {
+    const earliest = this.lastBeatTime + period / 2;
+
+    if (input.beatEvents) {
+      for (let i = input.beatEvents.length - 1; i >= 0; i--) {
+        const event = input.beatEvents[i];
+        if (event.time <= input.time && event.time > earliest) return event.time;
+      }
+      return null;
+    }
+
+    // Phase wrap: a beat started during this frame
+    if (input.beatPhase < this.prevPhase && input.time > earliest) {
+      return input.time - input.beatPhase * period;
+    }
+    return null;
+  }
+
+  /**
+   * Measures the accent of the pending beat (strongest bass onset within a quarter
+   * period of it) and re-infers the meter.
+   */
+  private measurePendingBeat(period: number): void {
+    const beat = this.pendingBeat;
+    if (!beat) return;
+
+    let accent = 0;
+    for (const onset of this.onsets) {
+      if (Math.abs(onset.time - beat.time) <= period / 4) accent = Math.max(accent, onset.value);
+    }
+
+    // Decayed weighted averages: every slot stays comparable however long ago it was updated
+    for (let i = 0; i < ACCENT_SLOTS; i++) {
+      this.accents[i] *= ACCENT_DECAY;
+      this.weights[i] *= ACCENT_DECAY;
+    }
+    const slot = beat.index % ACCENT_SLOTS;
+    this.accents[slot] += accent;
+    this.weights[slot] += 1;
+    this.beatsMeasured++;
+
+    if (this.beatsMeasured >= MIN_BEATS && !this.manualDownbeat) this.inferMeter();
+  }
+
+  /**
+   * Picks the grouping whose strongest position stands out most from the average beat,
+   * and the downbeat position within it.
+   */
+  private inferMeter(): void {
+    const averages = Array.from(this.accents, (accent, i) => (this.weights[i] > 0 ? accent / this.weights[i] : 0));
+    const overall = averages.reduce((a, b) => a + b, 0) / ACCENT_SLOTS;
+    if (overall <= 0) return;
+
+    const grouping = (size: number) => {
+      let best = { offset: 0, contrast: -Infinity };
+      for (let offset = 0; offset < size; offset++) {
+        let sum = 0;
+        for (let i = offset; i < ACCENT_SLOTS; i += size) sum += averages[i];
+        const contrast = (sum / (ACCENT_SLOTS / size) - overall) / overall;
+        if (contrast > best.contrast) best = { offset, contrast };
+      }
+      return best;
+    };
+
+    const duple = grouping(4);
+    const triple = grouping(3);
+    const p = this.phaseProfile;
+    const tripletFeel = (p[4] + p[8]) / 2 > ((p[3] + p[6] + p[9]) / 3) * TRIPLET_RATIO;
+
+    let best = duple;
+    if (triple.contrast > duple.contrast * TRIPLE_METER_RATIO && triple.contrast > 0) {
+      best = triple;
+      this.timeSignature = '3/4';
+    } else if (tripletFeel) {
+      // Compound meter: two dotted-quarter beats per bar
+      best = grouping(2);
+      this.timeSignature = '6/8';
+    } else {
+      this.timeSignature = '4/4';
+    }
+
+    this.beatsPerBar = BEATS_PER_BAR[this.timeSignature];
+    this.downbeatOffset = best.offset;
+    this.confidence = Math.max(0, Math.min(1, best.contrast));
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * Microphone Noise Reduction for AuraSync
+ *
+ * Removes the steady background of a room (ventilation, hum, crowd murmur) from the
+ * microphone analysis, so bands settle to zero in silence and noise stops triggering
+ * transients. The noise is learned once by a "calibrate silence" step and stored per
+ * input device.
+ *
+ * Key Features:
+ * - Calibration: averages the spectrum power of each bin over a few seconds of ambient sound
+ * - Spectral subtraction with over-subtraction; bins left near the noise floor are silenced
+ * - Adaptive gate on the broadband level, with hysteresis and hold time
+ * - Noise floor tracking while the gate is closed, so slow changes of the room are followed
+ * - Profiles saved in `localStorage` under the device id of the microphone
+ *
+ * The gate works on analysis frames: the spectrum is cleaned bin by bin, while the
+ * waveform can only be passed through or silenced as a whole by the gate.
+ *
+ * @module NoiseGate
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+/**
+ * Noise spectrum recorded during calibration.
+ */
+export interface NoiseProfile {
+  /** Mean noise power of each FFT bin, in dB (same scale as `AudioData.spectrumDb`). */
+  floorDb: number[];
+  /** Sample rate the profile was recorded at, in Hz. */
+  sampleRate: number;
+  /** Recording date (ms since epoch). */
+  recordedAt: number;
+}
+
+/** Noise power is multiplied by this before subtraction, to also remove its fluctuations. */
+const OVER_SUBTRACTION = 2;
+/** Bins keeping less than this share of their power after subtraction are silenced. */
+const SPECTRAL_FLOOR = 0.05;
+/** The gate closes this many dB below its opening threshold. */
+const GATE_HYSTERESIS = 3;
+/** Time the gate stays open after the level drops, in seconds (keeps note tails). */
+const GATE_HOLD = 0.25;
+/** Time constants of the noise tracking while the gate is closed, in seconds. */
+const NOISE_RISE_TIME = 10;
+const NOISE_FALL_TIME = 1;
+/** Extra time a calibration may take beyond its duration before it ends with what it has, in ms. */
+const CALIBRATION_GRACE = 2000;
+/** Frames needed for a partial calibration to give a profile. */
+const MIN_CALIBRATION_FRAMES = 10;
+/** The tracked noise never rises more than this above the calibration, in dB, so quiet music is not learned as noise. */
+const MAX_NOISE_RISE = 6;
+
+const STORAGE_PREFIX = 'aurasync:noise-profile:';
+
+function dbToPower(db: number): number {
+  return Math.pow(10, db / 10);
+}
+
+function powerToDb(power: number): number {
+  return power > 0 ? 10 * Math.log10(power) : -Infinity;
+}
+
+/**
+ * Loads the noise profile saved for an input device.
+ *
+ * @param deviceId - `MediaTrackSettings.deviceId` of the microphone
+ * @returns The saved profile, or `null` when none is saved (or storage is unavailable)
+ */
+export function loadNoiseProfile(deviceId: string): NoiseProfile | null {
+  try {
+    if (typeof localStorage === 'undefined') return null;
+    const saved = localStorage.getItem(STORAGE_PREFIX + deviceId);
+    return saved ? JSON.parse(saved) as NoiseProfile : null;
+  } catch (error) {
+    console.warn('⚠️ Unreadable noise profile ignored:', error);
+    return null;
+  }
+}
+
+/**
+ * Saves the noise profile of an input device, replacing the previous one.
+ *
+ * @param deviceId - `MediaTrackSettings.deviceId` of the microphone
+ * @param profile - Profile returned by the calibration
+ */
+export function saveNoiseProfile(deviceId: string, profile: NoiseProfile): void {
+  try {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(STORAGE_PREFIX + deviceId, JSON.stringify(profile));
+  } catch (error) {
+    console.warn('⚠️ Noise profile could not be saved:', error);
+  }
+}
+
+/**
+ * Spectral subtraction and adaptive gate driven by a noise profile.
+ *
+ * @example
+ * ```typescript
+ * const gate = new NoiseGate();
+ * const profile = await gate.calibrate(3); // resolves after 3 s of processed frames
+ * const { spectrumDb, samples } = gate.process(spectrumDb, samples, 48000, time);
+ * ```
+ */
+export class NoiseGate {
+  private enabled = true;
+  private threshold = 6;
+  private floorDb = -100;
+
+  private profile: NoiseProfile | null = null;
+  /** Current noise power per bin: the profile, then tracked while the gate is closed. */
+  private noisePower: Float32Array | null = null;
+  private maxNoisePower: Float32Array | null = null;
+  private warnedMismatch = false;
+
+  private open = false;
+  private lastOpenTime = -Infinity;
+  private lastTime = -Infinity;
+
+  private calibration: {
+    duration: number;
+    startTime: number;
+    powerSum: Float32Array | null;
+    frames: number;
+    sampleRate: number;
+    resolve: (profile: NoiseProfile) => void;
+    reject: (error: Error) => void;
+    timeout: ReturnType<typeof setTimeout>;
+  } | null = null;
+
+  /**
+   * Applies the user settings.
+   *
+   * @param enabled - Whether frames are cleaned when a profile is set
+   * @param threshold - Level above the noise, in dB, at which the gate opens
+   * @param floorDb - Value given to silenced bins (the analyser `minDecibels`)
+   */
+  configure(enabled: boolean, threshold: number, floorDb: number): void {
+    this.enabled = enabled;
+    this.threshold = threshold;
+    this.floorDb = floorDb;
+  }
+
+  /**
+   * Sets the noise profile to subtract (`null` turns noise reduction off).
+   */
+  setProfile(profile: NoiseProfile | null): void {
+    this.profile = profile;
+    this.noisePower = profile ? Float32Array.from(profile.floorDb, dbToPower) : null;
+    this.maxNoisePower = profile ? Float32Array.from(profile.floorDb, db => dbToPower(db + MAX_NOISE_RISE)) : null;
+    this.warnedMismatch = false;
+    this.open = false;
+    this.lastOpenTime = -Infinity;
+  }
+
+  getProfile(): NoiseProfile | null {
+    return this.profile;
+  }
+
+  /**
+   * Records the ambient spectrum of the next `duration` seconds of frames.
+   * The resulting profile becomes the active one.
+   *
+   * When frames stop coming (source stopped, element paused), the calibration ends a
+   * little after `duration` with a partial profile, or fails without enough frames.
+   *
+   * @param duration - Recording length in seconds
+   * @returns The recorded profile, once enough frames have been processed
+   * @throws {Error} Rejects when the calibration is cancelled or too few frames arrived
+   */
+  calibrate(duration: number): Promise<NoiseProfile> {
+    this.cancelCalibration('Noise calibration restarted');
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => this.finishCalibration(true), duration * 1000 + CALIBRATION_GRACE);
+      this.calibration = { duration, startTime: -1, powerSum: null, frames: 0, sampleRate: 0, resolve, reject, timeout };
+    });
+  }
+
+  /**
+   * Stops a running calibration (source change, reset); its promise is rejected.
+   *
+   * @param reason - Message of the rejection
+   */
+  cancelCalibration(reason = 'Noise calibration cancelled'): void {
+    const calibration = this.calibration;
+    if (!calibration) return;
+    this.calibration = null;
+    clearTimeout(calibration.timeout);
+    calibration.reject(new Error(reason));
+  }
+
+  get isCalibrating(): boolean {
+    return this.calibration !== null;
+  }
+
+  /**
+   * Whether `process` has work to do for frames of this size: calibrating, or enabled
+   * with a profile recorded at the same FFT size and sample rate.
+   */
+  isActive(binCount: number, sampleRate: number): boolean {
+    if (this.calibration) return true;
+    if (!this.enabled || !this.profile) return false;
+
+    const matches = this.profile.floorDb.length === binCount && this.profile.sampleRate === sampleRate;
+    if (!matches && !this.warnedMismatch) {
+      console.warn('⚠️ Noise profile recorded with another FFT size or sample rate, recalibrate to use it');
+      this.warnedMismatch = true;
+    }
+    return matches;
+  }
+
+  /**
+   * Cleans one frame. Call only when `isActive` is true; arrays are not modified.
+   *
+   * @param spectrumDb - Spectrum in dB, clamped to the analyser range
+   * @param samples - Waveform samples (-1 to 1)
+   * @param sampleRate - Sample rate of the audio, in Hz
+   * @param time - Timestamp of the frame in seconds
+   * @returns The cleaned spectrum and the samples (silenced while the gate is closed)
+   */
+  process(
+      spectrumDb: Float32Array,
+      samples: Float32Array,
+      sampleRate: number,
+      time: number
+  ): { spectrumDb: Float32Array; samples: Float32Array } {
+    const dt = Math.max(0, Math.min(1, time - this.lastTime));
+    this.lastTime = time;
+
+    if (this.calibration) {
+      this.record(spectrumDb, sampleRate, time);
+      return { spectrumDb, samples };
+    }
+
+    const noise = this.noisePower!;
+    const maxNoise = this.maxNoisePower!;
+    const cleaned = new Float32Array(spectrumDb.length);
+    let signalPower = 0;
+    let noiseLevel = 0;
+
+    for (let i = 0; i < spectrumDb.length; i++) {
+      const power = dbToPower(spectrumDb[i]);
+      const remaining = power - OVER_SUBTRACTION * noise[i];
+      cleaned[i] = remaining > SPECTRAL_FLOOR * power ? powerToDb(remaining) : this.floorDb;
+      signalPower += power;
+      noiseLevel += noise[i];
+    }
+
+    // Broadband level relative to the noise, with hysteresis and hold
+    const level = powerToDb(signalPower) - powerToDb(noiseLevel);
+    if (level > this.threshold) {
+      this.open = true;
+      this.lastOpenTime = time;
+    } else if (level < this.threshold - GATE_HYSTERESIS && time - this.lastOpenTime > GATE_HOLD) {
+      this.open = false;
+    }
+
+    if (!this.open) {
+      // Only noise is coming in: follow it, quickly down and slowly up
+      for (let i = 0; i < noise.length; i++) {
+        const power = dbToPower(spectrumDb[i]);
+        const timeConstant = power < noise[i] ? NOISE_FALL_TIME : NOISE_RISE_TIME;
+        noise[i] += (power - noise[i]) * (1 - Math.exp(-dt / timeConstant));
+        noise[i] = Math.min(noise[i], maxNoise[i]);
+      }
+      cleaned.fill(this.floorDb);
+      return { spectrumDb: cleaned, samples: new Float32Array(samples.length) };
+    }
+
+    return { spectrumDb: cleaned, samples };
+  }
+
+  /**
+   * Restarts the gate and the noise tracking from the recorded profile.
+   */
+  reset(): void {
+    this.cancelCalibration();
+    this.setProfile(this.profile);
+    this.lastTime = -Infinity;
+  }
+
+  /**
+   * Accumulates one calibration frame, and completes the profile once `duration` has elapsed.
+   */
+  private record(spectrumDb: Float32Array, sampleRate: number, time: number): void {
+    const calibration = this.calibration!;
+
+    // A new FFT size restarts the recording
+    if (!calibration.powerSum || calibration.powerSum.length !== spectrumDb.length) {
+      calibration.powerSum = new Float32Array(spectrumDb.length);
+      calibration.frames = 0;
+      calibration.startTime = time;
+    }
+
+    for (let i = 0; i < spectrumDb.length; i++) {
+      calibration.powerSum[i] += dbToPower(spectrumDb[i]);
+    }
+    calibration.frames++;
+    calibration.sampleRate = sampleRate;
+
+    if (time - calibration.startTime >= calibration.duration) this.finishCalibration(false);
+  }
+
+  /**
+   * Completes the calibration with the frames recorded so far.
+   *
+   * @param timedOut - Frames stopped coming before `duration` was recorded
+   */
+  private finishCalibration(timedOut: boolean): void {
+    const calibration = this.calibration;
+    if (!calibration) return;
+    if (!calibration.powerSum || calibration.frames < MIN_CALIBRATION_FRAMES) {
+      this.cancelCalibration('Noise calibration received too few frames');
+      return;
+    }
+    if (timedOut) console.warn(`⚠️ Noise calibration ended early, profile from ${calibration.frames} frames`);
+
+    const powerSum = calibration.powerSum;
+    const profile: NoiseProfile = {
+      floorDb: Array.from(powerSum, sum => powerToDb(sum / calibration.frames)),
+      sampleRate: calibration.sampleRate,
+      recordedAt: Date.now(),
+    };
+    this.calibration = null;
+    clearTimeout(calibration.timeout);
+    this.setProfile(profile);
+    calibration.resolve(profile);
+  }
+}
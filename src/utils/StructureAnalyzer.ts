@@ -0,0 +1,373 @@
+/**
+ * Song Structure Segmentation for AuraSync
+ *
+ * Splits music into sections (intro, build-up, drop, breakdown, outro) so scenes can
+ * react to the arrangement rather than to individual beats.
+ *
+ * Key Features:
+ * - Per-slot (0.5 s) feature vectors: loudness, band energies, spectral centroid, chroma
+ * - Structural novelty: distance between the feature averages before and after each point
+ * - Boundary picking on novelty peaks with a minimum section length
+ * - Section labels from loudness relative to the track average and loudness trend
+ * - Offline segmentation of a complete timeline, and a live tracker with a few seconds of delay
+ *
+ * @module StructureAnalyzer
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+import type { AudioData, SongSection, StructureFeatures } from '../hooks/useAudioAnalyzer';
+import { LOUDNESS_FLOOR } from './LoudnessMeter';
+
+/**
+ * A labelled section of a track.
+ */
+export interface TrackSection {
+  /** Start of the section, in seconds. */
+  start: number;
+  /** End of the section, in seconds. */
+  end: number;
+  /** Section label. */
+  section: SongSection;
+  /** Loudness of the section relative to the track average, in LU. */
+  level: number;
+}
+
+/**
+ * Result of the offline segmentation.
+ */
+export interface StructureAnalysis {
+  /** Sections covering the whole track, in order. */
+  sections: TrackSection[];
+  /** Novelty (0-1) of each slot. */
+  novelty: number[];
+  /** Duration of a novelty slot, in seconds. */
+  slotDuration: number;
+}
+
+/** The features the structure analysis needs from a frame. */
+export type StructureInput = Pick<AudioData, 'loudness' | 'bands' | 'spectralFeatures' | 'melodicFeatures'>;
+
+interface Slot {
+  vector: number[];
+  loudness: number;
+}
+
+/** Features are averaged over slots of this length, in seconds. */
+const SLOT_DURATION = 0.5;
+/** Slots compared on each side of a candidate boundary (4 s). */
+const NOVELTY_WINDOW = 8;
+/** Shortest section, in slots (8 s). */
+const MIN_SECTION_SLOTS = 16;
+/** Slots of novelty history for the live adaptive threshold (60 s). */
+const NOVELTY_HISTORY = 120;
+/** Novelty under which the live tracker never places a boundary (about a 3 LU change). */
+const MIN_LIVE_NOVELTY = 0.3;
+/** Slots of loudness history for the live track average (2 min). */
+const LONG_TERM_SLOTS = 240;
+
+/** Section loudness (LU above the track average) from which it counts as a drop. */
+const DROP_LEVEL = 1.5;
+/** Section loudness (LU below the track average) under which it counts as a breakdown. */
+const BREAKDOWN_LEVEL = -3;
+/** Loudness rise (LU/s) over a section from which it counts as a build-up. */
+const BUILDUP_SLOPE = 0.25;
+
+/**
+ * Feature vector of one frame. Each component is scaled to a comparable range so no
+ * single feature dominates the novelty distance.
+ */
+function featureVector(data: StructureInput): number[] {
+  return [
+    (data.loudness.momentary - LOUDNESS_FLOOR) / 10,
+    data.bands.bass * 2,
+    data.bands.mid * 2,
+    data.bands.treble * 2,
+    data.spectralFeatures.centroid * 2,
+    ...data.melodicFeatures.pitchClass,
+  ];
+}
+
+function meanVector(vectors: number[][]): number[] {
+  const mean = new Array(vectors[0].length).fill(0);
+  for (const vector of vectors) {
+    for (let i = 0; i < vector.length; i++) mean[i] += vector[i] / vectors.length;
+  }
+  return mean;
+}
+
+function distance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/**
+ * Loudness trend of consecutive slots, in LU per second (least-squares slope).
+ */
+function loudnessSlope(loudness: number[]): number {
+  if (loudness.length < 2) return 0;
+
+  const meanX = (loudness.length - 1) / 2;
+  const meanY = mean(loudness);
+  let covariance = 0, variance = 0;
+  for (let i = 0; i < loudness.length; i++) {
+    covariance += (i - meanX) * (loudness[i] - meanY);
+    variance += (i - meanX) ** 2;
+  }
+
+  return covariance / variance / SLOT_DURATION;
+}
+
+/**
+ * Novelty between the `NOVELTY_WINDOW` slots before `index` and those from `index` on.
+ */
+function noveltyAt(slots: Slot[], index: number): number {
+  const before = slots.slice(index - NOVELTY_WINDOW, index).map(slot => slot.vector);
+  const after = slots.slice(index, index + NOVELTY_WINDOW).map(slot => slot.vector);
+  return distance(meanVector(before), meanVector(after));
+}
+
+/**
+ * Labels a section from its loudness and loudness trend.
+ *
+ * @param level - Section loudness relative to the track average, in LU
+ * @param slope - Loudness trend over the section, in LU per second
+ * @returns The section label (never `intro`/`outro`, which depend on the position)
+ */
+export function labelSection(level: number, slope: number): SongSection {
+  // A steady rise wins over the level: build-ups often end louder than the average
+  if (slope >= BUILDUP_SLOPE) return 'buildup';
+  if (level >= DROP_LEVEL) return 'drop';
+  if (level <= BREAKDOWN_LEVEL) return 'breakdown';
+  return level >= 0 ? 'drop' : 'breakdown';
+}
+
+/**
+ * Segments a complete track.
+ *
+ * @param frames - Analysis frames of the track
+ * @param frameRate - Frames per second
+ * @returns Sections, per-slot novelty and slot duration
+ *
+ * @example
+ * ```typescript
+ * const { sections } = analyzeStructure(timeline.frames, timeline.info.frameRate);
+ * sections.forEach(s => console.log(`${s.section} at ${s.start.toFixed(1)}s`));
+ * ```
+ */
+export function analyzeStructure(frames: AudioData[], frameRate: number): StructureAnalysis {
+  const slotFrames = Math.max(1, Math.round(SLOT_DURATION * frameRate));
+  const slotDuration = slotFrames / frameRate;
+  const slots: Slot[] = [];
+
+  for (let start = 0; start < frames.length; start += slotFrames) {
+    const slotFramesData = frames.slice(start, start + slotFrames);
+    slots.push({
+      vector: meanVector(slotFramesData.map(featureVector)),
+      loudness: mean(slotFramesData.map(frame => frame.loudness.momentary)),
+    });
+  }
+
+  const novelty = slots.map((_, index) =>
+      index >= NOVELTY_WINDOW && index + NOVELTY_WINDOW <= slots.length ? noveltyAt(slots, index) : 0
+  );
+  const maxNovelty = Math.max(...novelty, 1e-6);
+  const normalizedNovelty = novelty.map(value => value / maxNovelty);
+
+  // Boundaries: strongest novelty peaks above mean + std/2, at least a section apart
+  const noveltyMean = mean(novelty);
+  const noveltyStd = Math.sqrt(mean(novelty.map(value => (value - noveltyMean) ** 2)));
+  const threshold = noveltyMean + noveltyStd * 0.5;
+  const half = NOVELTY_WINDOW / 2;
+
+  const candidates = novelty
+      .map((value, index) => ({ value, index }))
+      .filter(({ value, index }) => {
+        if (value <= threshold) return false;
+        for (let i = Math.max(0, index - half); i <= Math.min(novelty.length - 1, index + half); i++) {
+          if (novelty[i] > value) return false;
+        }
+        return true;
+      })
+      .sort((a, b) => b.value - a.value);
+
+  const boundaries: number[] = [];
+  for (const { index } of candidates) {
+    const farEnough = index >= MIN_SECTION_SLOTS && slots.length - index >= MIN_SECTION_SLOTS &&
+        boundaries.every(boundary => Math.abs(boundary - index) >= MIN_SECTION_SLOTS);
+    if (farEnough) boundaries.push(index);
+  }
+  boundaries.sort((a, b) => a - b);
+
+  // Labels from loudness relative to the (non-silent) track average
+  const audible = slots.map(slot => slot.loudness).filter(loudness => loudness > LOUDNESS_FLOOR + 1);
+  const trackLoudness = mean(audible);
+  const edges = [0, ...boundaries, slots.length];
+
+  const sections: TrackSection[] = [];
+  const slopes: number[] = [];
+  for (let i = 0; i < edges.length - 1; i++) {
+    const loudness = slots.slice(edges[i], edges[i + 1]).map(slot => slot.loudness);
+    const level = mean(loudness) - trackLoudness;
+    const slope = loudnessSlope(loudness);
+    slopes.push(slope);
+    sections.push({
+      start: edges[i] * slotDuration,
+      end: Math.min(edges[i + 1] * slotDuration, frames.length / frameRate),
+      section: labelSection(level, slope),
+      level,
+    });
+  }
+
+  sections.forEach((section, index) => {
+    const next = sections[index + 1];
+    // A rising section right before a drop is its build-up
+    if (next?.section === 'drop' && section.section !== 'drop' && slopes[index] >= BUILDUP_SLOPE / 2) {
+      section.section = 'buildup';
+    }
+    if (sections.length > 1 && section.level < DROP_LEVEL) {
+      if (index === 0) section.section = 'intro';
+      else if (index === sections.length - 1) section.section = 'outro';
+    }
+  });
+
+  return { sections, novelty: normalizedNovelty, slotDuration };
+}
+
+/**
+ * Live structure tracker. Features are gathered into slots; a boundary is confirmed
+ * once the novelty peak is past, about `NOVELTY_WINDOW` slots (4 s) after it happened.
+ * The first section is reported as `intro`; the label of a new section is refined
+ * while it is shorter than the minimum section length, then kept.
+ */
+export class StructureTracker {
+  private slots: Slot[] = [];
+  private noveltyHistory: number[] = [];
+  private longTermLoudness: number[] = [];
+  private sectionLoudness: number[] = [];
+  private maxNovelty = 1e-6;
+
+  private slotStart = -1;
+  private slotSum: number[] | null = null;
+  private slotLoudness = 0;
+  private slotCount = 0;
+  private lastTime = -Infinity;
+
+  private sectionStart = 0;
+  private state: Omit<StructureFeatures, 'timeInSection'> = {
+    section: 'intro',
+    sectionIndex: 0,
+    level: 0,
+    novelty: 0,
+  };
+
+  /**
+   * Adds one frame and returns the current structure.
+   *
+   * @param data - Features of the frame
+   * @param time - Timestamp of the frame in seconds; going backwards restarts the tracking
+   */
+  process(data: StructureInput, time: number): StructureFeatures {
+    if (time < this.lastTime) this.reset();
+    this.lastTime = time;
+
+    if (this.slotStart < 0) {
+      this.slotStart = time;
+      this.sectionStart = time;
+    }
+
+    const vector = featureVector(data);
+    if (!this.slotSum) this.slotSum = new Array(vector.length).fill(0);
+    vector.forEach((value, i) => { this.slotSum![i] += value; });
+    this.slotLoudness += data.loudness.momentary;
+    this.slotCount++;
+
+    if (time - this.slotStart >= SLOT_DURATION) {
+      this.closeSlot(time);
+    }
+
+    return { ...this.state, timeInSection: time - this.sectionStart };
+  }
+
+  /**
+   * Restarts the tracking (new track, seek, source change).
+   */
+  reset(): void {
+    this.slots = [];
+    this.noveltyHistory = [];
+    this.longTermLoudness = [];
+    this.sectionLoudness = [];
+    this.maxNovelty = 1e-6;
+    this.slotStart = -1;
+    this.slotSum = null;
+    this.slotLoudness = 0;
+    this.slotCount = 0;
+    this.lastTime = -Infinity;
+    this.sectionStart = 0;
+    this.state = { section: 'intro', sectionIndex: 0, level: 0, novelty: 0 };
+  }
+
+  private closeSlot(time: number): void {
+    const slot: Slot = {
+      vector: this.slotSum!.map(sum => sum / this.slotCount),
+      loudness: this.slotLoudness / this.slotCount,
+    };
+    this.slotStart = time;
+    this.slotSum = null;
+    this.slotLoudness = 0;
+    this.slotCount = 0;
+
+    this.slots.push(slot);
+    if (this.slots.length > NOVELTY_WINDOW * 2) this.slots.shift();
+    if (slot.loudness > LOUDNESS_FLOOR + 1) {
+      this.longTermLoudness.push(slot.loudness);
+      if (this.longTermLoudness.length > LONG_TERM_SLOTS) this.longTermLoudness.shift();
+    }
+    this.sectionLoudness.push(slot.loudness);
+
+    if (this.slots.length === NOVELTY_WINDOW * 2) {
+      const novelty = noveltyAt(this.slots, NOVELTY_WINDOW);
+      this.noveltyHistory.push(novelty);
+      if (this.noveltyHistory.length > NOVELTY_HISTORY) this.noveltyHistory.shift();
+      this.maxNovelty = Math.max(this.maxNovelty * 0.999, novelty);
+      this.state.novelty = Math.min(1, novelty / this.maxNovelty);
+      this.detectBoundary(time);
+    }
+
+    const loudness = this.sectionLoudness;
+    this.state.level = mean(loudness) - mean(this.longTermLoudness);
+    if (this.state.sectionIndex > 0 && loudness.length < MIN_SECTION_SLOTS) {
+      this.state.section = labelSection(this.state.level, loudnessSlope(loudness));
+    }
+  }
+
+  /**
+   * Confirms a boundary when the previous novelty value was a peak above the
+   * adaptive threshold (mean + std of the recent novelty).
+   */
+  private detectBoundary(time: number): void {
+    const history = this.noveltyHistory;
+    if (history.length < NOVELTY_WINDOW) return;
+
+    const peak = history[history.length - 2];
+    const isPeak = peak > history[history.length - 3] && peak >= history[history.length - 1];
+    const historyMean = mean(history);
+    const historyStd = Math.sqrt(mean(history.map(value => (value - historyMean) ** 2)));
+
+    // The peak was measured one slot ago, at the centre of the novelty window
+    const slotsSinceBoundary = NOVELTY_WINDOW + 1;
+    const boundaryTime = time - slotsSinceBoundary * SLOT_DURATION;
+
+    if (isPeak && peak > Math.max(MIN_LIVE_NOVELTY, historyMean + historyStd) && boundaryTime - this.sectionStart >= MIN_SECTION_SLOTS * SLOT_DURATION) {
+      this.sectionStart = boundaryTime;
+      this.sectionLoudness = this.slots.slice(-slotsSinceBoundary).map(slot => slot.loudness);
+      this.state.sectionIndex++;
+    }
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * Manual Beat-Grid Override for AuraSync
+ *
+ * Lets the performer correct the tempo and beat phase live when detection locks onto
+ * the wrong tempo or phase: tap tempo, typed BPM, phase nudges, "resync to now" on a
+ * downbeat and a tempo lock. The override sits between tempo detection and
+ * `rhythmicFeatures`, so every BPM-synced scene follows the manual grid unchanged.
+ *
+ * Commands are queued and applied on the next analysed frame, with that frame's
+ * timestamp: the grid stays in the engine's time base whichever thread or capture
+ * path produces the frames. Taps carry their own time in that base, since frames are
+ * too far apart to time them.
+ *
+ * Key Features:
+ * - Tap tempo: mean interval over the last taps, the last tap is a beat
+ * - Manual BPM entry that keeps the current phase
+ * - Phase nudge forward/back, on the detected or the manual grid
+ * - Tempo lock: freezes the detected tempo and lets the grid run free
+ * - Resync: now is a beat (and a downbeat for the meter tracker)
+ * - Octave correction (x2 / ÷2) of the detected tempo, remembered per track
+ * - Corrections handed from one engine to another (main thread and worker)
+ *
+ * @module TempoOverride
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+import type { TempoSource } from '../hooks/useAudioAnalyzer';
+
+/**
+ * A tempo correction from the UI.
+ */
+export type TempoCommand =
+  /** `at`: time of the tap in the frame time base; the next frame's time when omitted. */
+  | { type: 'tap'; at?: number }
+  | { type: 'setBPM'; bpm: number }
+  | { type: 'nudge'; beats: number }
+  | { type: 'resync' }
+  | { type: 'lock'; locked: boolean }
+  /** Detected tempo times `2^octave` (-2 to 2): 1 is double time, -1 half time. */
+  | { type: 'octave'; octave: number }
+  /** Back to detection; the octave correction is kept. */
+  | { type: 'reset' }
+  /** Corrections of another engine (`getState`): the manual grid continues from its phase. */
+  | { type: 'restore'; state: TempoOverrideState };
+
+/**
+ * Corrections in force, to hand them to another engine.
+ */
+export interface TempoOverrideState {
+  manualBPM: number | null;
+  lockedBPM: number | null;
+  /** Phase correction, in beats. */
+  phaseOffset: number;
+  octave: number;
+  /** Phase of the manual grid on the last frame; `null` when the detected phase is followed. */
+  gridPhase: number | null;
+}
+
+/**
+ * Tempo and phase after the override.
+ */
+export interface TempoOverrideResult {
+  bpm: number;
+  beatPhase: number;
+  source: TempoSource;
+  /** Octave correction applied to the detected tempo. */
+  octave: number;
+  /** True on the frame a resync was applied: this frame starts a bar. */
+  resync: boolean;
+}
+
+/** Taps further apart than this start a new tap sequence, in seconds. */
+const TAP_TIMEOUT = 2;
+/** Taps used for the tempo. */
+const MAX_TAPS = 8;
+/** Tempo range accepted from taps and entry. */
+const MIN_BPM = 30;
+const MAX_BPM = 300;
+/** Octave corrections accepted (quarter to quadruple time). */
+const MAX_OCTAVE = 2;
+const STORAGE_PREFIX = 'aurasync:tempo-octave:';
+
+const fraction = (value: number) => value - Math.floor(value);
+
+/**
+ * Loads the octave correction chosen for a track.
+ *
+ * @param trackId - Identifier of the track (e.g. file name and size)
+ * @returns The saved octave, 0 when none was saved
+ */
+export function loadTempoOctave(trackId: string): number {
+  try {
+    if (typeof localStorage === 'undefined') return 0;
+    const octave = Number(localStorage.getItem(STORAGE_PREFIX + trackId));
+    return Number.isInteger(octave) && Math.abs(octave) <= MAX_OCTAVE ? octave : 0;
+  } catch (error) {
+    console.warn('⚠️ Unreadable tempo octave ignored:', error);
+    return 0;
+  }
+}
+
+/**
+ * Saves the octave correction chosen for a track (0 forgets it).
+ *
+ * @param trackId - Identifier of the track
+ * @param octave - Octave correction, as sent in the `octave` command
+ */
+export function saveTempoOctave(trackId: string, octave: number): void {
+  try {
+    if (typeof localStorage === 'undefined') return;
+    if (octave === 0) {
+      localStorage.removeItem(STORAGE_PREFIX + trackId);
+    } else {
+      localStorage.setItem(STORAGE_PREFIX + trackId, String(octave));
+    }
+  } catch (error) {
+    console.warn('⚠️ Tempo octave could not be saved:', error);
+  }
+}
+
+/**
+ * Applies the performer's corrections to the detected tempo and phase.
+ *
+ * @example
+ * ```typescript
+ * const override = new TempoOverride();
+ * override.command({ type: 'tap' }); // from a button or a key
+ * const { bpm, beatPhase } = override.apply(time, detectedBPM, detectedPhase);
+ * ```
+ */
+export class TempoOverride {
+  private pending: TempoCommand[] = [];
+  private taps: number[] = [];
+  /** Manual tempo (tap or entry), overrides detection. */
+  private manualBPM: number | null = null;
+  /** Tempo frozen by the lock. */
+  private lockedBPM: number | null = null;
+  /** Time of a beat of the manual grid; `null` follows the detected phase. */
+  private anchorTime: number | null = null;
+  /** Phase correction, in beats. */
+  private phaseOffset = 0;
+  /** Octave correction of the detected tempo. */
+  private octave = 0;
+  /** Detected beats counted so far, to place half-time beats on every other one. */
+  private detectedBeats = 0;
+  private prevDetectedPhase = 0;
+  /** Phase of the manual grid on the last frame, carried over to a new time base. */
+  private gridPhase = 0;
+  private rebasing = false;
+
+  /**
+   * Queues a command for the next frame.
+   */
+  command(command: TempoCommand): void {
+    this.pending.push(command);
+  }
+
+  /**
+   * Applies the queued commands at `time`, then the override to a frame's detection.
+   *
+   * @param time - Frame time, in seconds
+   * @param rawBPM - Tempo from detection (0 when unknown), before the octave correction
+   * @param rawPhase - Beat phase from detection (0-1)
+   * @param detectedBeats - Detected beats before this one, when the caller knows them (a
+   *   pre-analysed timeline, where seeking breaks the count); counted from the phase otherwise
+   * @returns Tempo and phase to report
+   */
+  apply(time: number, rawBPM: number, rawPhase: number, detectedBeats?: number): TempoOverrideResult {
+    // Announced new time base: the manual grid continues from its last phase
+    if (this.rebasing) {
+      this.rebasing = false;
+      const gridBPM = this.manualBPM ?? this.lockedBPM;
+      if (this.anchorTime !== null && gridBPM !== null) {
+        this.anchorTime = time - this.gridPhase * 60 / gridBPM;
+      } else {
+        this.anchorTime = null;
+      }
+    }
+
+    // Timestamps going backwards mean a new time base: the manual grid is lost
+    if (this.anchorTime !== null && time < this.anchorTime) {
+      this.anchorTime = null;
+      this.taps = [];
+    }
+
+    // Octave correction: the detected grid at double, half... time
+    if (detectedBeats !== undefined) {
+      this.detectedBeats = detectedBeats;
+    } else if (rawBPM > 0 && rawPhase < this.prevDetectedPhase - 0.5) {
+      this.detectedBeats++;
+    }
+    this.prevDetectedPhase = rawPhase;
+    const scale = Math.pow(2, this.octave);
+    const detectedBPM = rawBPM * scale;
+    const detectedPhase = rawBPM > 0 ? fraction((this.detectedBeats + rawPhase) * scale) : rawPhase;
+
+    let resync = false;
+    for (const command of this.pending) {
+      resync = this.execute(command, time, detectedBPM, detectedPhase) || resync;
+    }
+    this.pending = [];
+
+    const bpm = this.manualBPM ?? this.lockedBPM ?? detectedBPM;
+    let beatPhase = detectedPhase;
+    if (this.anchorTime !== null && bpm > 0) {
+      beatPhase = (time - this.anchorTime) * bpm / 60;
+      this.gridPhase = fraction(beatPhase);
+    }
+
+    return {
+      bpm,
+      beatPhase: fraction(beatPhase + this.phaseOffset),
+      source: this.lockedBPM !== null ? 'locked' : this.manualBPM !== null || this.anchorTime !== null ? 'manual' : 'detected',
+      octave: this.octave,
+      resync
+    };
+  }
+
+  /**
+   * Clears every correction, the octave included: detection is used again.
+   */
+  reset(): void {
+    this.clearGrid();
+    this.pending = [];
+    this.octave = 0;
+    this.detectedBeats = 0;
+    this.prevDetectedPhase = 0;
+    this.rebasing = false;
+  }
+
+  /**
+   * Corrections in force, for a `restore` command on another engine.
+   */
+  getState(): TempoOverrideState {
+    return {
+      manualBPM: this.manualBPM,
+      lockedBPM: this.lockedBPM,
+      phaseOffset: this.phaseOffset,
+      octave: this.octave,
+      gridPhase: this.anchorTime !== null ? this.gridPhase : null
+    };
+  }
+
+  /**
+   * Moves the corrections to a new time base (the same source captured another way):
+   * tempo, lock, phase offset and octave are kept and the manual grid continues from its
+   * last phase on the next frame. Detection restarts, so the detected beat count does too.
+   */
+  rebase(): void {
+    this.rebasing = true;
+    this.taps = [];
+    this.detectedBeats = 0;
+    this.prevDetectedPhase = 0;
+  }
+
+  /**
+   * Runs one command.
+   *
+   * @returns Whether the command was a resync
+   */
+  private execute(command: TempoCommand, time: number, detectedBPM: number, detectedPhase: number): boolean {
+    const currentBPM = this.manualBPM ?? this.lockedBPM ?? detectedBPM;
+
+    switch (command.type) {
+      case 'tap': {
+        const at = Math.min(time, command.at ?? time);
+        if (this.taps.length > 0 && at - this.taps[this.taps.length - 1] > TAP_TIMEOUT) this.taps = [];
+        this.taps = [...this.taps, at].slice(-MAX_TAPS);
+
+        if (this.taps.length >= 2) {
+          // Whole span over the intervals: timing errors of the inner taps cancel out
+          const bpm = 60 * (this.taps.length - 1) / (at - this.taps[0]);
+          if (bpm >= MIN_BPM && bpm <= MAX_BPM) this.manualBPM = bpm;
+        }
+        // The tap is a beat
+        this.anchorTime = at;
+        this.phaseOffset = 0;
+        return false;
+      }
+
+      case 'setBPM':
+        if (command.bpm < MIN_BPM || command.bpm > MAX_BPM) return false;
+        this.keepPhase(time, detectedPhase, command.bpm, currentBPM);
+        this.manualBPM = command.bpm;
+        return false;
+
+      case 'nudge':
+        this.phaseOffset = fraction(this.phaseOffset + command.beats);
+        return false;
+
+      case 'resync':
+        this.anchorTime = time;
+        this.phaseOffset = 0;
+        return true;
+
+      case 'lock':
+        if (!command.locked) {
+          // Back to detection, unless the tempo was set by hand
+          this.lockedBPM = null;
+          if (this.manualBPM === null) this.anchorTime = null;
+        } else if (currentBPM > 0) {
+          this.keepPhase(time, detectedPhase, currentBPM, currentBPM);
+          this.lockedBPM = currentBPM;
+        }
+        return false;
+
+      case 'octave': {
+        const octave = Math.max(-MAX_OCTAVE, Math.min(MAX_OCTAVE, Math.round(command.octave)));
+        const scale = Math.pow(2, octave - this.octave);
+        this.octave = octave;
+        // A manual or locked tempo follows the correction too
+        const bpm = currentBPM * scale;
+        if ((this.manualBPM !== null || this.lockedBPM !== null) && bpm >= MIN_BPM && bpm <= MAX_BPM) {
+          this.keepPhase(time, detectedPhase, bpm, currentBPM);
+          if (this.manualBPM !== null) this.manualBPM = bpm;
+          if (this.lockedBPM !== null) this.lockedBPM = bpm;
+        }
+        return false;
+      }
+
+      case 'reset':
+        this.clearGrid();
+        return false;
+
+      case 'restore': {
+        const { state } = command;
+        this.clearGrid();
+        this.manualBPM = state.manualBPM;
+        this.lockedBPM = state.lockedBPM;
+        this.phaseOffset = state.phaseOffset;
+        this.octave = state.octave;
+        // The other engine's frames have their own timestamps: the grid continues from its phase
+        const gridBPM = this.manualBPM ?? this.lockedBPM;
+        if (state.gridPhase !== null && gridBPM !== null) {
+          this.anchorTime = time - state.gridPhase * 60 / gridBPM;
+          this.gridPhase = state.gridPhase;
+        }
+        return false;
+      }
+    }
+  }
+
+  /**
+   * Drops the manual grid, tap history and lock.
+   */
+  private clearGrid(): void {
+    this.taps = [];
+    this.manualBPM = null;
+    this.lockedBPM = null;
+    this.anchorTime = null;
+    this.phaseOffset = 0;
+  }
+
+  /**
+   * Anchors the manual grid so the phase continues from where it is now at a new tempo.
+   */
+  private keepPhase(time: number, detectedPhase: number, bpm: number, currentBPM: number): void {
+    const phase = this.anchorTime !== null && currentBPM > 0
+        ? fraction((time - this.anchorTime) * currentBPM / 60)
+        : detectedPhase;
+    this.anchorTime = time - phase * 60 / bpm;
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * AnalyserNode Utilities for AuraSync
+ *
+ * Glue between the Web Audio `AnalyserNode` and the framework-free `AnalysisEngine`.
+ * Every analysis path (hook, store, offline pre-analysis) configures its analyser and
+ * reads its frames through these helpers, so they all feed the engine identical data.
+ *
+ * @module analyserUtils
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+import type { AudioConfig } from '../types/config';
+import type { AnalysisFrame, StereoFrame } from './AnalysisEngine';
+
+/**
+ * Applies an `AudioConfig` to an analyser.
+ * Invalid values are ignored with a warning instead of letting the node throw.
+ *
+ * @param analyser - The analyser to configure
+ * @param config - FFT size, smoothing and dB range to apply
+ *
+ * @example
+ * ```typescript
+ * const analyser = audioContext.createAnalyser();
+ * configureAnalyser(analyser, { ...DEFAULT_AUDIO_CONFIG, fftSize: 4096 });
+ * ```
+ */
+export function configureAnalyser(analyser: AnalyserNode, config: AudioConfig): void {
+  const { fftSize, smoothingTimeConstant, minDecibels, maxDecibels } = config;
+
+  if (Number.isInteger(Math.log2(fftSize)) && fftSize >= 32 && fftSize <= 32768) {
+    analyser.fftSize = fftSize;
+  } else {
+    console.warn('⚠️ Invalid fftSize ignored:', fftSize);
+  }
+
+  analyser.smoothingTimeConstant = Math.max(0, Math.min(1, smoothingTimeConstant));
+
+  if (minDecibels < maxDecibels) {
+    // Set the bounds in an order that never makes min >= max on the node
+    if (minDecibels >= analyser.maxDecibels) {
+      analyser.maxDecibels = maxDecibels;
+      analyser.minDecibels = minDecibels;
+    } else {
+      analyser.minDecibels = minDecibels;
+      analyser.maxDecibels = maxDecibels;
+    }
+  } else {
+    console.warn('⚠️ Invalid dB range ignored:', minDecibels, maxDecibels);
+  }
+}
+
+/**
+ * Reads the current spectrum and waveform of an analyser as an engine frame.
+ *
+ * With `float` precision the spectrum is read in dB (`getFloatFrequencyData`) and the
+ * waveform as float samples (`getFloatTimeDomainData`); with `byte` precision both are
+ * the quantized 0-255 byte versions. The waveform covers the full FFT window either way,
+ * so switching precision keeps the RMS, peak and transient windows the same.
+ *
+ * @param analyser - The analyser to read
+ * @param precision - `float` or `byte`
+ * @param time - Timestamp of the frame in seconds
+ * @returns A frame ready for `AnalysisEngine.analyze`
+ */
+export function readAnalyserFrame(analyser: AnalyserNode, precision: AudioConfig['precision'], time: number): AnalysisFrame {
+  const sampleRate = analyser.context.sampleRate;
+
+  if (precision === 'float') {
+    const frequencies = new Float32Array(analyser.frequencyBinCount);
+    const waveform = new Float32Array(analyser.fftSize);
+    analyser.getFloatFrequencyData(frequencies);
+    analyser.getFloatTimeDomainData(waveform);
+    return { frequencies, waveform, sampleRate, time };
+  }
+
+  const frequencies = new Uint8Array(analyser.frequencyBinCount);
+  const waveform = new Uint8Array(analyser.fftSize);
+  analyser.getByteFrequencyData(frequencies);
+  analyser.getByteTimeDomainData(waveform);
+  return { frequencies, waveform, sampleRate, time };
+}
+
+/**
+ * Left/right analyser pair fed by a channel splitter.
+ */
+export interface StereoAnalysers {
+  left: AnalyserNode;
+  right: AnalyserNode;
+}
+
+/**
+ * Builds the stereo branch of an analysis graph: the sources are mixed into a
+ * two-channel bus (mono sources are up-mixed to both sides), split, and each
+ * channel gets its own analyser configured like the main one.
+ *
+ * @param context - The audio context owning the sources
+ * @param sources - Nodes to analyse (typically the file and microphone gains)
+ * @param config - Analyser configuration applied to both channels
+ * @returns The left and right analysers
+ */
+export function createStereoAnalysers(context: BaseAudioContext, sources: AudioNode[], config: AudioConfig): StereoAnalysers {
+  const bus = context.createGain();
+  bus.channelCount = 2;
+  bus.channelCountMode = 'explicit';
+  bus.channelInterpretation = 'speakers';
+
+  const splitter = context.createChannelSplitter(2);
+  const left = context.createAnalyser();
+  const right = context.createAnalyser();
+  configureAnalyser(left, config);
+  configureAnalyser(right, config);
+
+  sources.forEach((source) => source.connect(bus));
+  bus.connect(splitter);
+  splitter.connect(left, 0);
+  splitter.connect(right, 1);
+
+  return { left, right };
+}
+
+/**
+ * Reads both channels of a stereo analyser pair, in the same formats as `readAnalyserFrame`.
+ *
+ * @param analysers - The left/right analysers
+ * @param precision - `float` or `byte`
+ * @returns Per-channel data for `AnalysisFrame.stereo`
+ */
+export function readStereoFrame(analysers: StereoAnalysers, precision: AudioConfig['precision']): StereoFrame {
+  const { frequencies: leftFrequencies, waveform: leftWaveform } = readAnalyserFrame(analysers.left, precision, 0);
+  const { frequencies: rightFrequencies, waveform: rightWaveform } = readAnalyserFrame(analysers.right, precision, 0);
+  return {
+    left: { frequencies: leftFrequencies, waveform: leftWaveform },
+    right: { frequencies: rightFrequencies, waveform: rightWaveform },
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Analysis Worker Client for AuraSync
+ *
+ * Runs the `AnalysisEngine` in `audio.worker.ts` and hands its results to the render
+ * loop. On cross-origin isolated pages the results come back through a shared ring
+ * buffer (`sharedAudioBuffer`), read lock-free whenever the renderer wants the latest
+ * frame; elsewhere they fall back to one `postMessage` per result.
+ *
+ * Key Features:
+ * - Frames sent with their buffers transferred, never copied on the way in
+ * - Latest-result reads: intermediate results the renderer had no time for are skipped,
+ *   their one-frame events (transients, beats) carried into the result read
+ * - Frames dropped instead of queued when the worker falls behind
+ *
+ * @module analysisWorkerClient
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+import type { AudioData } from '../hooks/useAudioAnalyzer';
+import type { AudioConfig, BandLayout } from '../types/config';
+import type { AnalysisData, WorkerMessage, WorkerResponse } from '../workers/types';
+import { mergeFrameEvents, type AnalysisFrame } from './AnalysisEngine';
+import type { NoiseProfile } from './NoiseGate';
+import type { TempoCommand, TempoOverrideState } from './TempoOverride';
+import { SharedFrameReader, isSharedMemoryAvailable } from './sharedAudioBuffer';
+
+/** Frames sent but not analysed yet beyond which new frames are dropped. */
+const MAX_FRAMES_IN_FLIGHT = 2;
+/** Time the worker has to answer a tempo state request, in milliseconds. */
+const TEMPO_STATE_TIMEOUT = 500;
+
+/**
+ * Settings forwarded to the worker's engine.
+ */
+export interface WorkerEngineConfig {
+  sampleRate?: number;
+  bandLayout?: BandLayout;
+  audioConfig?: AudioConfig;
+  noiseProfile?: NoiseProfile | null;
+  /** Beat-grid correction, applied on the worker's next frame. */
+  tempoCommand?: TempoCommand;
+}
+
+/**
+ * Main-thread side of the analysis worker.
+ *
+ * @example
+ * ```typescript
+ * const client = new AnalysisWorkerClient();
+ * client.configure({ bandLayout, audioConfig });
+ * client.analyze(readAnalyserFrame(analyser, 'float', now));
+ * const latest = client.read(); // null until a new result is available
+ * ```
+ */
+export class AnalysisWorkerClient {
+  private readonly worker: Worker;
+  private reader: SharedFrameReader | null = null;
+  private latest: AudioData | null = null;
+  private messageId = 0;
+  private framesSent = 0;
+  /** Results received through messages (fallback path), to count frames in flight. */
+  private framesReceived = 0;
+  /** Sequence of the current shared buffer when it replaced the previous one. */
+  private sequenceOffset = 0;
+  private tempoStateRequests: ((state: TempoOverrideState) => void)[] = [];
+
+  constructor() {
+    this.worker = new Worker(new URL('../workers/audio.worker.ts', import.meta.url), { type: 'module' });
+
+    this.worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      switch (e.data.type) {
+        case 'buffer': {
+          // New frame shape: results written so far went to the previous buffer
+          const { buffer, layout } = e.data.data;
+          this.sequenceOffset = this.framesDone;
+          this.reader = new SharedFrameReader(buffer, layout);
+          break;
+        }
+        case 'result':
+          // Results not read yet keep their events (transients, beats) in the next one
+          this.latest = mergeFrameEvents(this.latest, e.data.data);
+          this.framesReceived++;
+          break;
+        case 'error':
+          console.error('❌ Analysis worker error:', e.data.data);
+          this.framesReceived++;
+          break;
+        case 'tempoState':
+          for (const resolve of this.tempoStateRequests) resolve(e.data.data);
+          this.tempoStateRequests = [];
+          break;
+        case 'ready':
+          if (e.data.data?.shared === false && isSharedMemoryAvailable()) {
+            console.warn('⚠️ Analysis worker without shared memory, results are sent as messages');
+          }
+          break;
+      }
+    };
+
+    this.post({ type: 'init', data: { shared: isSharedMemoryAvailable() } });
+    console.log(`🧵 Analysis worker started (${isSharedMemoryAvailable() ? 'SharedArrayBuffer' : 'postMessage'} transport)`);
+  }
+
+  /** Frames analysed by the worker so far, whichever transport returned them. */
+  private get framesDone(): number {
+    return this.framesReceived + (this.reader ? this.sequenceOffset + this.reader.sequence : 0);
+  }
+
+  /**
+   * Forwards engine settings to the worker; omitted fields are left unchanged.
+   */
+  configure(config: WorkerEngineConfig): void {
+    this.post({ type: 'updateConfig', data: config });
+  }
+
+  /**
+   * Sends a frame for analysis. Its arrays are transferred: do not use them afterwards.
+   * The frame is dropped when the worker is already behind.
+   *
+   * @param frame - Frame read from an analyser or captured by the worklet
+   */
+  analyze(frame: AnalysisFrame): void {
+    if (this.framesSent - this.framesDone >= MAX_FRAMES_IN_FLIGHT) return;
+
+    const data: AnalysisData = {
+      frequencies: frame.frequencies.buffer as ArrayBuffer,
+      waveform: frame.waveform.buffer as ArrayBuffer,
+      sampleRate: frame.sampleRate,
+      precision: frame.frequencies instanceof Float32Array ? 'float' : 'byte',
+      time: frame.time,
+    };
+    const transfer: ArrayBuffer[] = [data.frequencies, data.waveform];
+    if (frame.stereo) {
+      const { left, right } = frame.stereo;
+      data.stereo = {
+        left: { frequencies: left.frequencies.buffer as ArrayBuffer, waveform: left.waveform.buffer as ArrayBuffer },
+        right: { frequencies: right.frequencies.buffer as ArrayBuffer, waveform: right.waveform.buffer as ArrayBuffer },
+      };
+      transfer.push(left.frequencies.buffer as ArrayBuffer, left.waveform.buffer as ArrayBuffer,
+          right.frequencies.buffer as ArrayBuffer, right.waveform.buffer as ArrayBuffer);
+    }
+    this.framesSent++;
+    this.post({ type: 'analyze', data }, transfer);
+  }
+
+  /**
+   * Takes the latest result.
+   *
+   * @returns The newest result, or `null` when none arrived since the last call
+   */
+  read(): AudioData | null {
+    if (this.reader) return this.reader.read();
+
+    const latest = this.latest;
+    this.latest = null;
+    return latest;
+  }
+
+  /**
+   * Asks the worker for its manual tempo corrections, to hand them to the main-thread
+   * engine before stopping the worker.
+   *
+   * @returns The corrections, or `null` when the worker does not answer in time
+   */
+  requestTempoState(): Promise<TempoOverrideState | null> {
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => resolve(null), TEMPO_STATE_TIMEOUT);
+      this.tempoStateRequests.push((state) => {
+        clearTimeout(timeout);
+        resolve(state);
+      });
+      this.post({ type: 'getTempoState' });
+    });
+  }
+
+  /**
+   * Stops the worker.
+   */
+  terminate(): void {
+    this.worker.terminate();
+    this.reader = null;
+  }
+
+  private post(message: WorkerMessage, transfer: Transferable[] = []): void {
+    this.worker.postMessage({ ...message, id: this.messageId++ }, transfer);
+  }
+}
@@ -12,7 +12,8 @@
 
 import * as ConfigTypes from '../types/config'
 import type {AudioData} from '../hooks/useAudioAnalyzer'
-import type {AudioLink, ReactivityCurve} from '../types/config'
+import type {AudioLink, BandLayout, GlobalSettings, ReactivityCurve} from '../types/config'
+import {features, getFeatureOutput} from '../features'
 
 /**
  * Applies a reactivity curve to transform linear audio values into more expressive responses.
@@ -59,6 +60,12 @@ export function applyReactivityCurve(value: number, curve: ConfigTypes.Reactivit
  *
  * // Get overall volume
  * const volumeValue = getAudioValue(audioData, 'volume');
+ *
+ * // Get a band of the configured band layout (its dynamic envelope value)
+ * const airValue = getAudioValue(audioData, 'band:air');
+ *
+ * // Get a registered feature output, mapped from its declared range to 0-1
+ * const vocals = getAudioValue(audioData, 'extra:vocalPresence');
  * ```
  */
 export function getAudioValue(audioData: AudioData, link: ConfigTypes.AudioLink): number {
@@ -74,10 +81,98 @@ export function getAudioValue(audioData: AudioData, link: ConfigTypes.AudioLink)
     case 'none':
       return 0
     default:
+      if (link.startsWith('band:')) {
+        return audioData.customBands[link.slice(5)]?.dynamic ?? 0
+      }
+      if (link.startsWith('extra:')) {
+        const key = link.slice(6)
+        const value = audioData.extra[key] ?? 0
+        const output = getFeatureOutput(key)
+        const normalized = output && output.max > output.min
+          ? (value - output.min) / (output.max - output.min)
+          : value
+        return Math.max(0, Math.min(1, normalized))
+      }
       return 0
   }
 }
 
+/**
+ * Lists the audio links a setting can be bound to: the built-in values, one
+ * `band:<id>` entry per band of the configured band layout and one `extra:<key>`
+ * entry per output of the registered feature extractors.
+ *
+ * @param bandLayout - The user-defined band layout
+ * @returns Options for a select control (value + label)
+ *
+ * @example
+ * ```typescript
+ * const options = getAudioLinkOptions(globalConfig.bandLayout);
+ * // [{ value: 'volume', label: 'Volume' }, ..., { value: 'band:sub', label: 'Band: Sub' }, ...]
+ * ```
+ */
+export function getAudioLinkOptions(bandLayout: BandLayout): { value: AudioLink; label: string }[] {
+  return [
+    { value: 'volume', label: 'Volume' },
+    { value: 'bass', label: 'Bass' },
+    { value: 'mids', label: 'Mids' },
+    { value: 'treble', label: 'Treble' },
+    ...bandLayout.bands.map(band => ({ value: `band:${band.id}` as const, label: `Band: ${band.label}` })),
+    ...features.flatMap(feature => feature.outputs.map(output => ({ value: `extra:${output.key}` as const, label: `Feature: ${output.label}` }))),
+    { value: 'none', label: 'None' },
+  ]
+}
+
+/**
+ * Applies the global response settings to every level of an audio frame.
+ * Levels (volume, energy, bands, custom bands, byte spectrum) are multiplied by
+ * `volumeMultiplier`, clamped to 1 and shaped with `reactivityCurve`; events and
+ * musical features (transients, BPM, key...) are left untouched.
+ *
+ * @param audioData - The audio analysis data
+ * @param settings - The global `volumeMultiplier` and `reactivityCurve`
+ * @returns A new `AudioData` with shaped levels
+ *
+ * @example
+ * ```typescript
+ * // Done once in VisualizationRenderer, so every scene gets shaped values
+ * const shaped = applyGlobalResponse(audioData, globalConfig);
+ * ```
+ */
+export function applyGlobalResponse(
+  audioData: AudioData,
+  settings: Pick<GlobalSettings, 'volumeMultiplier' | 'reactivityCurve'>
+): AudioData {
+  const { volumeMultiplier, reactivityCurve } = settings
+  if (volumeMultiplier === 1 && reactivityCurve === 'linear') return audioData
+
+  const shape = (value: number) => applyReactivityCurve(Math.min(1, Math.max(0, value * volumeMultiplier)), reactivityCurve)
+  const shapeBands = (bands: AudioData['bands']) => ({
+    bass: shape(bands.bass),
+    mid: shape(bands.mid),
+    treble: shape(bands.treble),
+  })
+
+  const customBands: AudioData['customBands'] = {}
+  for (const [id, band] of Object.entries(audioData.customBands)) {
+    customBands[id] = { ...band, energy: shape(band.energy), dynamic: shape(band.dynamic) }
+  }
+
+  return {
+    ...audioData,
+    frequencies: audioData.frequencies.map(value => Math.round(shape(value / 255) * 255)),
+    volume: shape(audioData.volume),
+    smoothedVolume: shape(audioData.smoothedVolume),
+    energy: shape(audioData.energy),
+    bands: shapeBands(audioData.bands),
+    dynamicBands: shapeBands(audioData.dynamicBands),
+    customBands,
+    bass: shape(audioData.bass),
+    mids: shape(audioData.mids),
+    treble: shape(audioData.treble),
+  }
+}
+
 /**
  * Calculates audio-reactive scaling with comprehensive configuration options.
  * This function applies audio reactivity to scale values, with curve transformation and volume multipliers.
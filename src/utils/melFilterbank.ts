@@ -11,6 +11,7 @@
  * - Robust ODF calculation using multi-band spectral flux
  * - Median-based aggregation for noise resistance
  * - Half-wave rectification for onset emphasis
+ * - MFCC extraction (log Mel energies + DCT) with delta coefficients
  *
  * Based on the correction guide for BPM detection system and modern music
  * information retrieval techniques.
@@ -142,7 +143,7 @@ export function createMelFilterbank(fftSize: number, melBands: number, sampleRat
  * ```
  */
 export function calculateRobustODF(
-    fftMagnitudes: Uint8Array,
+    fftMagnitudes: ArrayLike<number>,
     prevMelEnergies: Float32Array,
     melFilterbank: number[][],
     melBands: number
@@ -221,3 +222,96 @@ export function calculateMedian(arr: number[]): number {
         ? sorted[mid]
         : (sorted[mid - 1] + sorted[mid]) / 2;
 }
+
+/**
+ * Calculates Mel-frequency cepstral coefficients from a dB spectrum.
+ *
+ * The spectrum is converted to power, summed through the Mel filterbank, taken back
+ * to dB and decorrelated with an orthonormal DCT-II. Coefficient 0 follows the overall
+ * level, coefficient 1 the spectral tilt (positive = more low-frequency energy), and the
+ * higher ones the finer spectral envelope that distinguishes one timbre from another.
+ *
+ * @param spectrumDb - Spectrum in dB (e.g. from `getFloatFrequencyData`)
+ * @param melFilterbank - Pre-computed Mel filterbank matrix
+ * @param coefficients - Number of coefficients to keep (typically 13)
+ * @returns The MFCC vector, in dB units
+ *
+ * @example
+ * ```typescript
+ * const filterbank = createMelFilterbank(2048, 40, 44100);
+ * const spectrumDb = new Float32Array(analyser.frequencyBinCount);
+ * analyser.getFloatFrequencyData(spectrumDb);
+ *
+ * const mfcc = calculateMFCC(spectrumDb, filterbank, 13);
+ * ```
+ */
+export function calculateMFCC(
+    spectrumDb: ArrayLike<number>,
+    melFilterbank: number[][],
+    coefficients: number
+): number[] {
+    const melBands = melFilterbank.length;
+
+    // Mel band energies in dB, floored to avoid log(0) on empty bands
+    const logEnergies = new Array(melBands).fill(0);
+    for (let i = 0; i < melBands; i++) {
+        let energy = 0;
+        for (let j = 0; j < spectrumDb.length; j++) {
+            if (melFilterbank[i][j] > 0) {
+                energy += melFilterbank[i][j] * Math.pow(10, spectrumDb[j] / 10);
+            }
+        }
+        logEnergies[i] = 10 * Math.log10(Math.max(energy, 1e-12));
+    }
+
+    // Orthonormal DCT-II
+    const mfcc = new Array(coefficients).fill(0);
+    for (let k = 0; k < coefficients; k++) {
+        let sum = 0;
+        for (let n = 0; n < melBands; n++) {
+            sum += logEnergies[n] * Math.cos((Math.PI * k * (n + 0.5)) / melBands);
+        }
+        mfcc[k] = sum * Math.sqrt((k === 0 ? 1 : 2) / melBands);
+    }
+
+    return mfcc;
+}
+
+/**
+ * Calculates delta (time derivative) coefficients by linear regression over
+ * consecutive frames.
+ *
+ * Uses the standard regression formula over the whole history window, centred on
+ * its middle frame, so the result lags the newest frame by half the window.
+ *
+ * @param history - Coefficient vectors, oldest first (an odd length such as 5 is typical)
+ * @returns Delta of each coefficient per frame, or zeros while the history is too short
+ *
+ * @example
+ * ```typescript
+ * mfccHistory.push(mfcc);
+ * if (mfccHistory.length > 5) mfccHistory.shift();
+ * const delta = calculateDeltas(mfccHistory);
+ * ```
+ */
+export function calculateDeltas(history: number[][]): number[] {
+    const size = history[history.length - 1]?.length ?? 0;
+    const deltas = new Array(size).fill(0);
+    if (history.length < 3) return deltas;
+
+    const center = (history.length - 1) / 2;
+    let denominator = 0;
+    for (let t = 0; t < history.length; t++) {
+        denominator += (t - center) ** 2;
+    }
+
+    for (let k = 0; k < size; k++) {
+        let numerator = 0;
+        for (let t = 0; t < history.length; t++) {
+            numerator += (t - center) * history[t][k];
+        }
+        deltas[k] = numerator / denominator;
+    }
+
+    return deltas;
+}
@@ -0,0 +1,114 @@
+/**
+ * Meyda Feature Bridge for AuraSync
+ *
+ * Runs selected Meyda feature extractors on the same waveform frames the analysis
+ * engine receives, so experimental features can be tried without writing each DSP
+ * routine by hand. Results are flattened to numbers and exposed in `AudioData.extra`
+ * under the feature name.
+ *
+ * Key Features:
+ * - Features enabled by name from `AudioConfig.extraFeatures`
+ * - Scalar results only: compound results are reduced (e.g. `loudness` → total loudness)
+ * - Failing or unknown features are reported once and then skipped
+ *
+ * @module meydaBridge
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+import Meyda from 'meyda';
+import type { MeydaAudioFeature, MeydaFeaturesObject } from 'meyda';
+
+/**
+ * Meyda features that reduce to a single number, with how to read that number.
+ * `spectralFlux` is left out: it throws in Meyda 5.6, and the engine computes its own flux.
+ */
+const SCALAR_FEATURES: Partial<Record<MeydaAudioFeature, (features: Partial<MeydaFeaturesObject>) => number | undefined>> = {
+  rms: (f) => f.rms,
+  energy: (f) => f.energy,
+  zcr: (f) => f.zcr,
+  loudness: (f) => f.loudness?.total,
+  perceptualSharpness: (f) => f.perceptualSharpness,
+  perceptualSpread: (f) => f.perceptualSpread,
+  spectralCentroid: (f) => f.spectralCentroid,
+  spectralCrest: (f) => f.spectralCrest,
+  spectralFlatness: (f) => f.spectralFlatness,
+  spectralKurtosis: (f) => f.spectralKurtosis,
+  spectralRolloff: (f) => f.spectralRolloff,
+  spectralSkewness: (f) => f.spectralSkewness,
+  spectralSlope: (f) => f.spectralSlope,
+  spectralSpread: (f) => f.spectralSpread,
+};
+
+/** Names of the features the bridge can extract, for configuration UIs. */
+export const MEYDA_FEATURES = Object.keys(SCALAR_FEATURES) as MeydaAudioFeature[];
+
+/**
+ * Extracts the enabled Meyda features from waveform frames.
+ *
+ * @example
+ * ```typescript
+ * const bridge = new MeydaBridge();
+ * bridge.setFeatures(['spectralFlatness', 'zcr']);
+ * const extra = bridge.extract(samples, 44100); // { spectralFlatness: 0.12, zcr: 87 }
+ * ```
+ */
+export class MeydaBridge {
+  private features: MeydaAudioFeature[] = [];
+  private failed = new Set<string>();
+
+  /**
+   * Selects the features to extract. Unknown names are reported and ignored.
+   *
+   * @param names - Meyda feature names (see `MEYDA_FEATURES`)
+   */
+  setFeatures(names: string[]): void {
+    this.features = names.filter((name): name is MeydaAudioFeature => {
+      if (name in SCALAR_FEATURES) return true;
+      console.warn('⚠️ Unsupported Meyda feature ignored:', name);
+      return false;
+    });
+  }
+
+  /**
+   * Runs the enabled features on one frame.
+   *
+   * @param samples - Waveform samples (-1 to 1); the length must be a power of two
+   * @param sampleRate - Sample rate of the audio, in Hz
+   * @returns Feature values by name (empty when no feature is enabled)
+   */
+  extract(samples: Float32Array, sampleRate: number): Record<string, number> {
+    const extra: Record<string, number> = {};
+    const active = this.features.filter(name => !this.failed.has(name));
+    if (active.length === 0) return extra;
+
+    // Meyda keeps its buffer settings globally
+    Meyda.bufferSize = samples.length;
+    Meyda.sampleRate = sampleRate;
+
+    let features: Partial<MeydaFeaturesObject>;
+    try {
+      features = Meyda.extract(active, samples) ?? {};
+    } catch {
+      // Find the failing features, report them once and skip them from now on
+      features = {};
+      for (const name of active) {
+        try {
+          Object.assign(features, Meyda.extract([name], samples));
+        } catch (error) {
+          console.warn(`⚠️ Meyda feature "${name}" disabled:`, error);
+          this.failed.add(name);
+        }
+      }
+    }
+
+    for (const name of active) {
+      if (this.failed.has(name)) continue;
+      const value = SCALAR_FEATURES[name]!(features);
+      extra[name] = value !== undefined && Number.isFinite(value) ? value : 0;
+    }
+
+    return extra;
+  }
+}
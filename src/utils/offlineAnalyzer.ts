@@ -0,0 +1,298 @@
+/**
+ * Offline Track Analysis for AuraSync
+ *
+ * Decodes a complete audio file and runs the full AuraSync analysis pipeline over it
+ * faster than real time, using an `OfflineAudioContext`. The track is rendered through
+ * an `AnalyserNode` configured exactly like the live one; rendering is suspended every
+ * hop so the same `AnalysisEngine` sees the same byte spectra it would see live.
+ *
+ * Once every frame is analysed, tempo, meter, beat grid, downbeats and key are estimated over
+ * the whole track and written back into every frame, beats and beat events included, so
+ * playback gets stable values immediately. Groove is measured again against that final grid.
+ *
+ * The track grid replaces the warm-up estimates of either rhythm backend: with the whole onset
+ * function at hand, the tempo and the beat offset are fitted over the complete track instead of
+ * tracked causally, so `rhythmBackend` only shapes the intermediate per-frame values.
+ *
+ * @module offlineAnalyzer
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+import { AnalysisEngine } from './AnalysisEngine';
+import { BPMDetector } from './BPMDetector';
+import { TimbreAnalyzer } from './timbreAnalyzer';
+import { FeatureTimeline, type TrackInfo } from './FeatureTimeline';
+import { DEFAULT_AUDIO_CONFIG, type AudioConfig, type BandLayout } from '../types/config';
+import { configureAnalyser, createStereoAnalysers, readAnalyserFrame, readStereoFrame } from './analyserUtils';
+import type { AudioData, TimeSignature } from '../hooks/useAudioAnalyzer';
+import { BEATS_PER_BAR } from './MeterTracker';
+import { GrooveAnalyzer } from './GrooveAnalyzer';
+
+/**
+ * Options for `analyzeTrack`.
+ */
+export interface OfflineAnalysisOptions {
+  /** Sample rate to decode and analyse at (default: 44100). */
+  sampleRate?: number;
+  /** Samples between two analysis frames, must be a multiple of 128 (default: 1024). */
+  hopSize?: number;
+  /** Analyser configuration, same as the live one (default: `DEFAULT_AUDIO_CONFIG`). */
+  audioConfig?: AudioConfig;
+  /** Band layout reported in `customBands` (default: `DEFAULT_BAND_LAYOUT`). */
+  bandLayout?: BandLayout;
+  /** Called with the analysis progress (0-1) while frames are rendered. */
+  onProgress?: (progress: number) => void;
+}
+
+const DEFAULT_SAMPLE_RATE = 44100;
+const DEFAULT_HOP_SIZE = 1024; // ~43 frames per second, the ODF rate the engine is tuned for
+
+/**
+ * Finds the beat grid offset that best lines up with the onset function.
+ *
+ * @param odf - Onset detection function, one value per frame
+ * @param frameRate - Frames per second of the ODF
+ * @param bpm - Tempo of the grid
+ * @returns Time of the first beat in seconds
+ */
+function estimateBeatOffset(odf: number[], frameRate: number, bpm: number): number {
+  const period = frameRate * 60 / bpm;
+  let bestOffset = 0;
+  let bestScore = -Infinity;
+
+  for (let offset = 0; offset < period; offset++) {
+    let score = 0;
+    for (let position = offset; position < odf.length; position += period) {
+      score += odf[Math.round(position)] ?? 0;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestOffset = offset;
+    }
+  }
+
+  return bestOffset / frameRate;
+}
+
+/**
+ * Chooses which beat of the bar is the downbeat, assuming 4/4: the beat position
+ * carrying the most bass energy over the whole track.
+ *
+ * @param frames - Analysed frames of the track
+ * @param beats - Beat times of the track grid
+ * @param frameRate - Frames per second
+ * @param beatsPerBar - Beats per bar of the track meter
+ * @returns Index (0 to beatsPerBar - 1) of the first downbeat among the grid beats
+ */
+function estimateDownbeatIndex(frames: AudioData[], beats: number[], frameRate: number, beatsPerBar: number): number {
+  const scores = new Array(beatsPerBar).fill(0);
+  beats.forEach((time, index) => {
+    const frame = frames[Math.min(frames.length - 1, Math.round(time * frameRate))];
+    if (frame) scores[index % beatsPerBar] += frame.bands.bass;
+  });
+  return scores.indexOf(Math.max(...scores));
+}
+
+/**
+ * Estimates the time signature of the whole track: the meter the live tracker reported
+ * with the most confidence over all frames.
+ *
+ * @param frames - Analysed frames of the track
+ * @returns Time signature of the track (4/4 when no meter was found)
+ */
+function estimateTrackMeter(frames: AudioData[]): TimeSignature {
+  const votes: Record<TimeSignature, number> = { '4/4': 0, '3/4': 0, '6/8': 0 };
+  for (const { rhythmicFeatures } of frames) {
+    votes[rhythmicFeatures.timeSignature] += rhythmicFeatures.downbeatConfidence;
+  }
+  const best = (Object.keys(votes) as TimeSignature[]).reduce((a, b) => (votes[b] > votes[a] ? b : a), '4/4');
+  return votes[best] > 0 ? best : '4/4';
+}
+
+/**
+ * Estimates the key of the whole track from its energy-weighted average chroma.
+ *
+ * @param frames - Analysed frames of the track
+ * @returns Detected key and mode
+ */
+function estimateTrackKey(frames: AudioData[]): { key: string; mode: 'major' | 'minor' | 'unknown' } {
+  const chroma = new Array(12).fill(0);
+  for (const frame of frames) {
+    for (let i = 0; i < 12; i++) {
+      chroma[i] += frame.melodicFeatures.pitchClass[i] * frame.energy;
+    }
+  }
+
+  const { key, mode } = new TimbreAnalyzer().detectKey(chroma);
+  return { key, mode };
+}
+
+/**
+ * Decodes an audio file and analyses it frame by frame, faster than real time.
+ *
+ * @param data - Encoded audio file contents (the buffer is detached by decoding)
+ * @param options - Sample rate, hop size and progress callback
+ * @returns Feature timeline of the whole track
+ *
+ * @example
+ * ```typescript
+ * const timeline = await analyzeTrack(await file.arrayBuffer(), {
+ *   onProgress: (p) => console.log(`${Math.round(p * 100)}%`)
+ * });
+ * const audioData = timeline.getFrame(audioElement.currentTime);
+ * ```
+ */
+export async function analyzeTrack(data: ArrayBuffer, options: OfflineAnalysisOptions = {}): Promise<FeatureTimeline> {
+  const sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+  const audioConfig = options.audioConfig ?? DEFAULT_AUDIO_CONFIG;
+  const hopSize = options.hopSize ?? DEFAULT_HOP_SIZE;
+  const frameRate = sampleRate / hopSize;
+
+  // Decoding resamples to the context rate, so a one-sample context is enough here
+  const decodeContext = new OfflineAudioContext(1, 1, sampleRate);
+  const audioBuffer = await decodeContext.decodeAudioData(data);
+
+  const context = new OfflineAudioContext(1, audioBuffer.length, sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = audioBuffer;
+
+  const analyser = context.createAnalyser();
+  configureAnalyser(analyser, audioConfig);
+
+  source.connect(analyser);
+  analyser.connect(context.destination);
+
+  // Per-channel analysers; connected to the destination so the render pulls them
+  const stereo = createStereoAnalysers(context, [source], audioConfig);
+  stereo.left.connect(context.destination);
+  stereo.right.connect(context.destination);
+
+  const engine = new AnalysisEngine();
+  engine.setAudioConfig(audioConfig);
+  if (options.bandLayout) engine.setBandLayout(options.bandLayout);
+  const frames: AudioData[] = [];
+  const frameCount = Math.floor(audioBuffer.length / hopSize);
+
+  // First error of the render: analysis stops, the render runs to its end, then it is thrown
+  let failure: unknown = null;
+  const capture = (time: number) => {
+    if (failure !== null) return;
+    const frame = readAnalyserFrame(analyser, audioConfig.precision, time);
+    frame.stereo = readStereoFrame(stereo, audioConfig.precision);
+    frames.push(engine.analyze(frame));
+    options.onProgress?.(frames.length / frameCount);
+  };
+
+  // Frame i is captured at i / frameRate, with the samples rendered up to that time: frame 0
+  // (nothing played yet) before rendering starts, the others on a suspended render
+  try {
+    capture(0);
+  } catch (error) {
+    failure = error;
+  }
+  for (let i = 1; i < frameCount; i++) {
+    const time = i / frameRate;
+    if (time >= audioBuffer.duration) break;
+
+    context.suspend(time)
+      .then(() => capture(time))
+      .catch((error: unknown) => {
+        if (failure === null) failure = error;
+      })
+      .then(() => context.resume())
+      .catch((error: unknown) => console.error('❌ Offline render could not resume:', error));
+  }
+
+  source.start(0);
+  await context.startRendering();
+  if (failure !== null) throw failure;
+
+  // Track-level tempo, grid and key
+  const odf = frames.map(frame => frame.spectralFeatures.flux);
+  const detector = new BPMDetector();
+  detector.configure(audioConfig.minBPM, audioConfig.maxBPM, audioConfig.tempoGenre);
+  const { bpm, confidence, candidates } = detector.estimateTempo(odf, frameRate);
+  const beatOffset = bpm > 0 ? estimateBeatOffset(odf, frameRate, bpm) : 0;
+  const { key, mode } = estimateTrackKey(frames);
+
+  const info: TrackInfo = {
+    duration: audioBuffer.duration,
+    sampleRate,
+    hopSize,
+    frameRate,
+    bpm: Math.round(bpm * 10) / 10,
+    bpmConfidence: confidence * 100,
+    beatOffset,
+    key,
+    mode
+  };
+
+  const timeSignature = estimateTrackMeter(frames);
+  const beatsPerBar = BEATS_PER_BAR[timeSignature];
+  const { beats } = FeatureTimeline.createBeatGrid(info);
+  const events = FeatureTimeline.createBeatGrid(info, beatsPerBar, estimateDownbeatIndex(frames, beats, frameRate, beatsPerBar));
+  const timeline = new FeatureTimeline(info, frames, events);
+
+  // Replace the warm-up estimates of the live engine with the whole-track values
+  let previousBar = 0;
+  let nextBeat = 0;
+  const grooveAnalyzer = new GrooveAnalyzer();
+  frames.forEach((frame, index) => {
+    const time = index / frameRate;
+    const beatPhase = timeline.getBeatPhase(time);
+    const barPosition = timeline.getBarPosition(time);
+    const downbeat = barPosition.bar > previousBar;
+    previousBar = barPosition.bar;
+
+    // A frame is a beat when a grid beat fell since the previous frame, like live
+    const firstBeat = nextBeat;
+    while (nextBeat < timeline.beats.length && timeline.beats[nextBeat] <= time) nextBeat++;
+    const isBeat = nextBeat > firstBeat;
+
+    // Last grid beats as fixed-length arrays, most recent last, zero-padded in front
+    const eventCount = frame.rhythmicFeatures.beatEventTimes.length;
+    const recent = timeline.beats.slice(Math.max(0, nextBeat - eventCount), nextBeat);
+    const padding = new Array(eventCount - recent.length).fill(0);
+    const strength = Math.round(confidence * 1000) / 1000;
+
+    // Onsets placed on the track grid rather than on the warm-up one
+    const groove = grooveAnalyzer.process({
+      time,
+      bpm: info.bpm,
+      beatPhase,
+      barPhase: barPosition.barPhase,
+      beatsPerBar,
+      onsetStrength: frame.rhythmicFeatures.onsetStrength
+    });
+
+    frames[index] = {
+      ...frame,
+      rhythmicFeatures: {
+        ...frame.rhythmicFeatures,
+        bpm: info.bpm,
+        bpmConfidence: info.bpmConfidence,
+        beatPhase,
+        tempoCandidates: frame.rhythmicFeatures.tempoCandidates.map((_, i) => Math.round((candidates[i]?.bpm ?? 0) * 10) / 10),
+        tempoCandidateConfidences: frame.rhythmicFeatures.tempoCandidateConfidences.map((_, i) => Math.round((candidates[i]?.confidence ?? 0) * 100)),
+        ...barPosition,
+        ...groove,
+        beatsPerBar,
+        timeSignature,
+        downbeat,
+        isBeat,
+        beatEventTimes: [...padding, ...recent],
+        beatEventStrengths: [...padding, ...recent.map(() => strength)]
+      },
+      musicalContext: {
+        ...frame.musicalContext,
+        key,
+        mode
+      }
+    };
+  });
+
+  options.onProgress?.(1);
+  return timeline;
+}
@@ -0,0 +1,273 @@
+/**
+ * Shared-Memory AudioData Transport for AuraSync
+ *
+ * Moves analysis results from the analysis worker to the render loop through a
+ * `SharedArrayBuffer` instead of `postMessage`: the worker writes each `AudioData` into a
+ * ring of fixed-size binary records and the renderer reads the latest one lock-free,
+ * without structured cloning and without a message (or a React update) per result.
+ *
+ * Memory layout (little-endian):
+ * ```
+ * offset 0   sequence (int32): number of records written so far, updated atomically
+ * offset 4   read sequence (int32): last record the reader decoded, stored by the reader
+ * offset 8   SHARED_SLOTS records of `recordSize` bytes, record n in slot n % SHARED_SLOTS:
+ *              number   -> float32
+ *              boolean  -> uint8 (0/1)
+ *              string   -> STRING_BYTES bytes of zero-padded UTF-8
+ *              number[] -> `length` float32
+ *              floats   -> `length` float32
+ *              bytes    -> `length` uint8
+ * ```
+ * Fields come in the order of a layout derived from a template frame, like the binary
+ * timeline format. A layout is fixed for the lifetime of a buffer: when the frame shape
+ * changes (FFT size, band layout, extra features), the writer allocates a new buffer and
+ * sends it with its layout to the reader once.
+ *
+ * The writer fills the slot after the published one, then publishes it; a reader that
+ * sees the sequence move by `SHARED_SLOTS - 1` or more while decoding retries, since its
+ * slot may have been overwritten (seqlock). Records the reader skipped are not lost for
+ * one-frame events: while the published record is unread, the writer carries its
+ * transients and beats into the next one (`unread`).
+ *
+ * Requires a cross-origin isolated page (COOP/COEP headers), see `vite.config.ts`.
+ *
+ * @module sharedAudioBuffer
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+import type { AudioData } from '../hooks/useAudioAnalyzer';
+import { createEmptyAudioData } from './AnalysisEngine';
+import { collectLayout, readPath, writePath, type LayoutField } from './timelineFormat';
+
+/** Records in the ring: one being written, one published, one spare for slow readers. */
+export const SHARED_SLOTS = 3;
+
+/** Bytes reserved for each string field (note names, key, mode, section). */
+const STRING_BYTES = 16;
+const HEADER_BYTES = 8;
+const MAX_READ_ATTEMPTS = 4;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Whether shared memory can be used: `SharedArrayBuffer` only exists on cross-origin
+ * isolated pages (and in their workers).
+ */
+export function isSharedMemoryAvailable(): boolean {
+  return typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true;
+}
+
+/**
+ * Size in bytes of one record.
+ */
+function getRecordSize(layout: LayoutField[]): number {
+  return layout.reduce((size, field) => {
+    switch (field.type) {
+      case 'number': return size + 4;
+      case 'boolean': return size + 1;
+      case 'string': return size + STRING_BYTES;
+      case 'number[]':
+      case 'floats': return size + 4 * (field.length ?? 0);
+      case 'bytes': return size + (field.length ?? 0);
+    }
+  }, 0);
+}
+
+/**
+ * Writes analysis results into a shared ring buffer (worker side).
+ *
+ * @example
+ * ```typescript
+ * let writer: SharedFrameWriter | null = null;
+ * const result = engine.analyze(frame);
+ * if (!writer || !writer.accepts(result)) {
+ *   writer = new SharedFrameWriter(result);
+ *   self.postMessage({ type: 'buffer', data: { buffer: writer.buffer, layout: writer.layout } });
+ * }
+ * writer.write(result);
+ * ```
+ */
+export class SharedFrameWriter {
+  readonly buffer: SharedArrayBuffer;
+  readonly layout: LayoutField[];
+  private readonly signature: string;
+  private readonly recordSize: number;
+  private readonly header: Int32Array;
+  private readonly view: DataView;
+  private readonly bytes: Uint8Array;
+
+  /**
+   * @param template - Frame whose shape (fields and array lengths) the buffer is laid out for
+   */
+  constructor(template: AudioData) {
+    this.layout = collectLayout(template, '', []);
+    this.signature = JSON.stringify(this.layout);
+    this.recordSize = getRecordSize(this.layout);
+    this.buffer = new SharedArrayBuffer(HEADER_BYTES + SHARED_SLOTS * this.recordSize);
+    this.header = new Int32Array(this.buffer, 0, 2);
+    this.view = new DataView(this.buffer);
+    this.bytes = new Uint8Array(this.buffer);
+  }
+
+  /**
+   * Whether a frame has the shape this buffer was laid out for.
+   */
+  accepts(frame: AudioData): boolean {
+    return JSON.stringify(collectLayout(frame, '', [])) === this.signature;
+  }
+
+  /**
+   * Whether the reader has not decoded the last published frame yet.
+   */
+  get unread(): boolean {
+    return Atomics.load(this.header, 1) !== Atomics.load(this.header, 0);
+  }
+
+  /**
+   * Writes a frame into the next slot and publishes it.
+   */
+  write(frame: AudioData): void {
+    const sequence = Atomics.load(this.header, 0) + 1;
+    let offset = HEADER_BYTES + (sequence % SHARED_SLOTS) * this.recordSize;
+
+    for (const field of this.layout) {
+      const value = readPath(frame, field.path);
+      const length = field.length ?? 0;
+
+      switch (field.type) {
+        case 'number':
+          this.view.setFloat32(offset, Number(value) || 0, true);
+          offset += 4;
+          break;
+        case 'boolean':
+          this.view.setUint8(offset, value ? 1 : 0);
+          offset += 1;
+          break;
+        case 'string': {
+          const text = this.bytes.subarray(offset, offset + STRING_BYTES);
+          text.fill(0);
+          text.set(encoder.encode(String(value ?? '')).subarray(0, STRING_BYTES));
+          offset += STRING_BYTES;
+          break;
+        }
+        case 'number[]':
+        case 'floats': {
+          const values = Array.isArray(value) || value instanceof Float32Array ? value : [];
+          for (let j = 0; j < length; j++) this.view.setFloat32(offset + j * 4, Number(values[j]) || 0, true);
+          offset += 4 * length;
+          break;
+        }
+        case 'bytes': {
+          const values = value instanceof Uint8Array ? value.subarray(0, length) : new Uint8Array(0);
+          this.bytes.set(values, offset);
+          offset += length;
+          break;
+        }
+      }
+    }
+
+    Atomics.store(this.header, 0, sequence);
+  }
+}
+
+/**
+ * Reads the latest analysis result from a shared ring buffer (render side).
+ */
+export class SharedFrameReader {
+  private readonly layout: LayoutField[];
+  private readonly recordSize: number;
+  private readonly header: Int32Array;
+  private readonly view: DataView;
+  private readonly bytes: Uint8Array;
+  private lastSequence = 0;
+
+  /**
+   * @param buffer - Buffer allocated by a `SharedFrameWriter`
+   * @param layout - Its `layout`
+   */
+  constructor(buffer: SharedArrayBuffer, layout: LayoutField[]) {
+    this.layout = layout;
+    this.recordSize = getRecordSize(layout);
+    this.header = new Int32Array(buffer, 0, 2);
+    this.view = new DataView(buffer);
+    this.bytes = new Uint8Array(buffer);
+  }
+
+  /** Number of frames the writer has published so far. */
+  get sequence(): number {
+    return Atomics.load(this.header, 0);
+  }
+
+  /**
+   * Decodes the latest published frame.
+   *
+   * @returns The frame, or `null` when nothing new was published since the last read
+   *          (or the writer kept overwriting the slot being read)
+   */
+  read(): AudioData | null {
+    for (let attempt = 0; attempt < MAX_READ_ATTEMPTS; attempt++) {
+      const sequence = Atomics.load(this.header, 0);
+      if (sequence === this.lastSequence) return null;
+
+      const frame = this.decode(HEADER_BYTES + (sequence % SHARED_SLOTS) * this.recordSize);
+
+      // The writer may have reached our slot again while we were decoding it
+      if (Atomics.load(this.header, 0) - sequence < SHARED_SLOTS - 1) {
+        this.lastSequence = sequence;
+        Atomics.store(this.header, 1, sequence);
+        return frame;
+      }
+    }
+    return null;
+  }
+
+  private decode(offset: number): AudioData {
+    const frame = createEmptyAudioData();
+
+    for (const field of this.layout) {
+      const length = field.length ?? 0;
+
+      switch (field.type) {
+        case 'number':
+          writePath(frame, field.path, this.view.getFloat32(offset, true));
+          offset += 4;
+          break;
+        case 'boolean':
+          writePath(frame, field.path, this.view.getUint8(offset) === 1);
+          offset += 1;
+          break;
+        case 'string': {
+          // Copied out first: TextDecoder does not accept views of shared memory
+          const text = this.bytes.slice(offset, offset + STRING_BYTES);
+          const end = text.indexOf(0);
+          writePath(frame, field.path, decoder.decode(end >= 0 ? text.subarray(0, end) : text));
+          offset += STRING_BYTES;
+          break;
+        }
+        case 'number[]': {
+          const values: number[] = [];
+          for (let j = 0; j < length; j++) values.push(this.view.getFloat32(offset + j * 4, true));
+          writePath(frame, field.path, values);
+          offset += 4 * length;
+          break;
+        }
+        case 'floats': {
+          const values = new Float32Array(length);
+          for (let j = 0; j < length; j++) values[j] = this.view.getFloat32(offset + j * 4, true);
+          writePath(frame, field.path, values);
+          offset += 4 * length;
+          break;
+        }
+        case 'bytes':
+          writePath(frame, field.path, this.bytes.slice(offset, offset + length));
+          offset += length;
+          break;
+      }
+    }
+
+    return frame;
+  }
+}
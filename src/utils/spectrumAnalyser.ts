@@ -0,0 +1,140 @@
+/**
+ * Spectrum Analyser for AuraSync
+ *
+ * Computes spectra from raw sample windows the way the Web Audio `AnalyserNode` does,
+ * for frames captured outside of an analyser (AudioWorklet capture). The engine then
+ * sees the same dB spectrum whichever path produced the frame.
+ *
+ * Key Features:
+ * - Blackman window, radix-2 FFT and magnitude scaling of the Web Audio specification
+ * - Same time smoothing (`smoothingTimeConstant`) and dB conversion as the analyser
+ * - Twiddle factors and window precomputed per FFT size
+ *
+ * @module spectrumAnalyser
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+import type { AudioConfig } from '../types/config';
+
+/**
+ * Blackman window used by the `AnalyserNode` (alpha = 0.16).
+ */
+function createBlackmanWindow(size: number): Float32Array {
+  const alpha = 0.16;
+  const a0 = (1 - alpha) / 2;
+  const a1 = 0.5;
+  const a2 = alpha / 2;
+  return Float32Array.from({ length: size }, (_, n) =>
+    a0 - a1 * Math.cos((2 * Math.PI * n) / size) + a2 * Math.cos((4 * Math.PI * n) / size)
+  );
+}
+
+/**
+ * Analyser for sample windows of a fixed FFT size.
+ *
+ * @example
+ * ```typescript
+ * const analyser = new SpectrumAnalyser();
+ * analyser.configure(audioConfig);
+ * const spectrumDb = analyser.process(samples); // samples.length === audioConfig.fftSize
+ * ```
+ */
+export class SpectrumAnalyser {
+  private fftSize = 0;
+  private smoothing = 0.8;
+  private window = new Float32Array(0);
+  private cos = new Float32Array(0);
+  private sin = new Float32Array(0);
+  private real = new Float32Array(0);
+  private imag = new Float32Array(0);
+  /** Smoothed magnitudes of the previous frame, as in the analyser. */
+  private magnitudes = new Float32Array(0);
+
+  /**
+   * Applies the FFT size and smoothing of an analyser configuration.
+   * A new FFT size clears the smoothing history.
+   */
+  configure(config: AudioConfig): void {
+    this.smoothing = Math.max(0, Math.min(1, config.smoothingTimeConstant));
+    if (config.fftSize === this.fftSize) return;
+
+    const size = config.fftSize;
+    this.fftSize = size;
+    this.window = createBlackmanWindow(size);
+    this.cos = Float32Array.from({ length: size / 2 }, (_, i) => Math.cos((-2 * Math.PI * i) / size));
+    this.sin = Float32Array.from({ length: size / 2 }, (_, i) => Math.sin((-2 * Math.PI * i) / size));
+    this.real = new Float32Array(size);
+    this.imag = new Float32Array(size);
+    this.magnitudes = new Float32Array(size / 2);
+  }
+
+  /**
+   * Computes the dB spectrum of a window (`fftSize / 2` bins, like `getFloatFrequencyData`).
+   * Windows of another length are zero-padded or truncated to the FFT size.
+   *
+   * @param samples - Time-domain samples (-1 to 1), oldest first
+   * @returns Spectrum in dB; silent bins are `-Infinity`, as with the analyser
+   */
+  process(samples: Float32Array): Float32Array {
+    const size = this.fftSize;
+    const offset = Math.max(0, samples.length - size);
+
+    for (let i = 0; i < size; i++) {
+      const sample = i + offset < samples.length ? samples[i + offset] : 0;
+      this.real[i] = sample * this.window[i];
+      this.imag[i] = 0;
+    }
+
+    this.fft();
+
+    const spectrum = new Float32Array(size / 2);
+    for (let k = 0; k < size / 2; k++) {
+      const magnitude = Math.hypot(this.real[k], this.imag[k]) / size;
+      this.magnitudes[k] = this.smoothing * this.magnitudes[k] + (1 - this.smoothing) * magnitude;
+      spectrum[k] = 20 * Math.log10(this.magnitudes[k]);
+    }
+
+    return spectrum;
+  }
+
+  /**
+   * In-place iterative radix-2 FFT of `real` / `imag`.
+   */
+  private fft(): void {
+    const size = this.fftSize;
+    const real = this.real;
+    const imag = this.imag;
+
+    // Bit-reversal permutation
+    for (let i = 1, j = 0; i < size; i++) {
+      let bit = size >> 1;
+      for (; j & bit; bit >>= 1) j ^= bit;
+      j ^= bit;
+      if (i < j) {
+        [real[i], real[j]] = [real[j], real[i]];
+        [imag[i], imag[j]] = [imag[j], imag[i]];
+      }
+    }
+
+    for (let length = 2; length <= size; length <<= 1) {
+      const half = length >> 1;
+      const step = size / length;
+      for (let start = 0; start < size; start += length) {
+        for (let k = 0; k < half; k++) {
+          const twiddleReal = this.cos[k * step];
+          const twiddleImag = this.sin[k * step];
+          const a = start + k;
+          const b = a + half;
+          const tReal = real[b] * twiddleReal - imag[b] * twiddleImag;
+          const tImag = real[b] * twiddleImag + imag[b] * twiddleReal;
+          real[b] = real[a] - tReal;
+          imag[b] = imag[a] - tImag;
+          real[a] += tReal;
+          imag[a] += tImag;
+        }
+      }
+    }
+  }
+}
@@ -8,6 +8,7 @@
  *
  * Key Features:
  * - Multi-dimensional timbre profiling (brightness, warmth, richness, clarity, attack)
+ * - MFCC-based spectral tilt and envelope detail for level-independent brightness and richness
  * - Musical context analysis with key detection using Krumhansl-Schmuckler algorithm
  * - Note stability tracking and harmonic tension calculation
  * - Chroma vector analysis for pitch class distribution
@@ -19,7 +20,7 @@
  * @since 1.0.0
  */
 
-import type { MelodicFeatures, SpectralFeatures } from '../hooks/useAudioAnalyzer';
+import type { MelodicFeatures, SpectralFeatures, TimbreVector } from '../hooks/useAudioAnalyzer';
 
 /**
  * Comprehensive timbre profile representing the tonal characteristics of audio.
@@ -75,6 +76,13 @@ const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.6
 // Minor key profile: emphasizes tonic, mediant, and subtonic
 const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
 
+/** MFCC 1 (spectral tilt, dB units) giving a clearly warm or bright balance. */
+const MFCC_TILT_SCALE = 40;
+/** RMS of MFCCs 2+ (envelope detail, dB units) of a harmonically rich spectrum. */
+const MFCC_DETAIL_SCALE = 25;
+/** Smoothing of the MFCC-derived values, so single frames do not flip the profile. */
+const MFCC_SMOOTHING = 0.8;
+
 /**
  * Advanced Timbre Analysis Engine
  *
@@ -90,6 +98,10 @@ export class TimbreAnalyzer {
   private chromaHistory: number[][] = [];
   /** Size of history buffers (approximately 1 second at 30fps) */
   private readonly historySize = 30;
+  /** Smoothed spectral tilt from MFCC 1 (0 = bright, 1 = warm) */
+  private smoothedTilt = 0.5;
+  /** Smoothed envelope detail from MFCCs 2+ (0-1) */
+  private smoothedDetail = 0;
 
   /**
    * Analyzes timbre characteristics from melodic and spectral features.
@@ -98,8 +110,14 @@ export class TimbreAnalyzer {
    * a comprehensive timbre profile that captures the essential tonal
    * characteristics of the audio signal.
    *
+   * With a timbre vector, brightness, warmth and richness also use the MFCCs: the
+   * spectral tilt (MFCC 1) and the envelope detail (MFCCs 2+) are measured on log
+   * energies, so they do not depend on the level and are not skewed by a single
+   * loud partial the way the centroid is.
+   *
    * @param melodic - Melodic features including pitch detection and chroma
    * @param spectral - Spectral features including centroid, spread, and flux
+   * @param timbreVector - Optional MFCCs of the same frame
    * @returns Complete timbre profile with normalized values (0-1)
    *
    * @example
@@ -122,16 +140,30 @@ export class TimbreAnalyzer {
    * }
    * ```
    */
-  public analyzeTimbre(melodic: MelodicFeatures, spectral: SpectralFeatures): TimbreProfile {
+  public analyzeTimbre(melodic: MelodicFeatures, spectral: SpectralFeatures, timbreVector?: TimbreVector): TimbreProfile {
     // Calculate brightness (0-1) - high frequencies emphasis
-    const brightness = spectral.centroid;
+    let brightness = spectral.centroid;
+
+    // Richness based on harmonic content density
+    let richness = melodic.harmonicContent;
+
+    if (timbreVector && timbreVector.mfcc.length > 2) {
+      const [, tiltCoefficient, ...detailCoefficients] = timbreVector.mfcc;
+
+      // Positive MFCC 1 = energy tilted toward the low bands (warm)
+      const tilt = 1 / (1 + Math.exp(-tiltCoefficient / MFCC_TILT_SCALE));
+      const detail = Math.sqrt(detailCoefficients.reduce((sum, c) => sum + c * c, 0) / detailCoefficients.length);
+
+      this.smoothedTilt = this.smoothedTilt * MFCC_SMOOTHING + tilt * (1 - MFCC_SMOOTHING);
+      this.smoothedDetail = this.smoothedDetail * MFCC_SMOOTHING + Math.min(1, detail / MFCC_DETAIL_SCALE) * (1 - MFCC_SMOOTHING);
+
+      brightness = (brightness + (1 - this.smoothedTilt)) / 2;
+      richness = (richness + this.smoothedDetail) / 2;
+    }
 
     // Warmth is inverse of brightness - provides complementary analysis
     const warmth = 1 - brightness;
 
-    // Richness based on harmonic content density
-    const richness = melodic.harmonicContent;
-
     // Clarity is inverse of spectral spread (less spread = more focused = clearer)
     const clarity = Math.max(0, 1 - spectral.spread);
 
@@ -256,19 +288,19 @@ export class TimbreAnalyzer {
    * key profiles for all 12 pitch classes, selecting the key with the highest
    * correlation. It's based on cognitive research into how humans perceive tonality.
    *
+   * Also used directly by the offline track analysis on a whole-track average chroma.
+   *
    * @param chroma - 12-element chroma vector representing pitch class distribution
    * @returns Object containing detected key, mode, and correlation strength
-   * @private
    *
    * @example
    * ```typescript
-   * // Internal usage - called by analyzeMusicalContext
    * const chromaVector = [0.8, 0.1, 0.2, 0.1, 0.6, 0.4, 0.1, 0.7, 0.2, 0.3, 0.1, 0.2];
-   * const result = this.detectKey(chromaVector);
+   * const result = analyzer.detectKey(chromaVector);
    * // result might be { key: 'C', mode: 'major', correlation: 0.85 }
    * ```
    */
-  private detectKey(chroma: number[]): { key: string; mode: 'major' | 'minor' | 'unknown'; correlation: number } {
+  public detectKey(chroma: number[]): { key: string; mode: 'major' | 'minor' | 'unknown'; correlation: number } {
     const keys = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
     let bestKey = 'C';
     let bestMode: 'major' | 'minor' | 'unknown' = 'unknown';
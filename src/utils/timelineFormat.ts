@@ -0,0 +1,562 @@
+/**
+ * Timeline File Format for AuraSync
+ *
+ * Serializes a `FeatureTimeline` so an analysis can be saved, edited and reloaded
+ * without analysing the track again. Two encodings share the same content:
+ *
+ * **JSON** (`.aurasync.json`) - readable, meant for debugging and hand corrections:
+ * ```
+ * {
+ *   "format": "aurasync-timeline",
+ *   "version": 4,
+ *   "metadata": { "title": "...", "createdAt": "2025-01-01T00:00:00.000Z", "generator": "AuraSync" },
+ *   "track": { ...TrackInfo },
+ *   "events": { "beats": [0.12, 0.59, ...], "downbeats": [0.12, 1.99, ...],
+ *               "sections": [{ "start": 0, "end": 15.4, "section": "intro", "level": -4.2 }, ...] },
+ *   "frames": [ { ...AudioData, "frequencies": [0, 12, ...], "spectrumDb": [-90, ...], "waveform": [128, ...] }, ... ]
+ * }
+ * ```
+ *
+ * **Binary** (`.aurasync`) - compact, meant for long tracks. All values little-endian:
+ * ```
+ * offset 0   "ATLB" magic (4 bytes)
+ * offset 4   format version (uint32)
+ * offset 8   header length in bytes (uint32)
+ * offset 12  header, UTF-8 JSON: { metadata, track, events, layout, strings, frameCount }
+ * then       frameCount fixed-size frame records, fields in `layout` order:
+ *              number   -> float32
+ *              boolean  -> uint8 (0/1)
+ *              string   -> uint16 index into `strings`
+ *              number[] -> `length` float32
+ *              floats   -> `length` float32 (dB spectrum)
+ *              bytes    -> `length` uint8 (byte spectrum and waveform)
+ * ```
+ * The layout is derived from the frames themselves and stored in the header, so
+ * fields added to `AudioData` later are written without changing the format, and
+ * readers ignore fields they do not know. Both readers merge each frame over
+ * `createEmptyAudioData()`: fields missing from older files get their default value.
+ *
+ * Versions (bumped whenever the frame or event schema grows):
+ * - 1: byte spectrum and waveform, beat grid
+ * - 2: dB spectrum (`spectrumDb`)
+ * - 3: song sections in `events`
+ * - 4: tempo candidates, beat events, groove and swing fields
+ *
+ * @module timelineFormat
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+import { FeatureTimeline, type TrackInfo, type TimelineEvents } from './FeatureTimeline';
+import { createEmptyAudioData } from './AnalysisEngine';
+import type { AudioData } from '../hooks/useAudioAnalyzer';
+
+/** Current version of the timeline format. */
+export const TIMELINE_FORMAT_VERSION = 4;
+
+/** Identifier of JSON timeline files. */
+export const TIMELINE_FORMAT_NAME = 'aurasync-timeline';
+
+/** Magic bytes at the start of binary timeline files. */
+const BINARY_MAGIC = 'ATLB';
+
+/**
+ * Descriptive metadata stored alongside a timeline.
+ */
+export interface TimelineMetadata {
+  /** Name of the analysed track (usually its file name). */
+  title?: string;
+  /** ISO 8601 date of the export. */
+  createdAt: string;
+  /** Application that wrote the file. */
+  generator: string;
+}
+
+/**
+ * A timeline read from a file, with the metadata it was saved with.
+ */
+export interface TimelineDocument {
+  timeline: FeatureTimeline;
+  metadata: TimelineMetadata;
+}
+
+/** Serialized form of a frame in JSON files: typed arrays become plain arrays. */
+type SerializedFrame = Omit<AudioData, 'frequencies' | 'spectrumDb' | 'waveform'> & {
+  frequencies: number[];
+  spectrumDb: number[];
+  waveform: number[];
+};
+
+/** JSON timeline file. */
+interface TimelineJSON {
+  format: typeof TIMELINE_FORMAT_NAME;
+  version: number;
+  metadata: TimelineMetadata;
+  track: TrackInfo;
+  events: TimelineEvents;
+  frames: SerializedFrame[];
+}
+
+/** One field of a binary frame record (also used by the shared-memory transport). */
+export interface LayoutField {
+  path: string;
+  type: 'number' | 'boolean' | 'string' | 'number[]' | 'floats' | 'bytes';
+  /** Element count of array fields. */
+  length?: number;
+}
+
+/** Header of a binary timeline file. */
+interface BinaryHeader {
+  metadata: TimelineMetadata;
+  track: TrackInfo;
+  events: TimelineEvents;
+  layout: LayoutField[];
+  strings: string[];
+  frameCount: number;
+}
+
+/**
+ * Error raised when a timeline file cannot be read.
+ */
+export class TimelineFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimelineFormatError';
+  }
+}
+
+/**
+ * Builds the metadata written with a timeline.
+ *
+ * @param title - Name of the analysed track
+ */
+function createMetadata(title?: string): TimelineMetadata {
+  return { title, createdAt: new Date().toISOString(), generator: 'AuraSync' };
+}
+
+/**
+ * Checks that a file was written with a format version this reader understands.
+ *
+ * @param version - Version found in the file
+ * @throws {TimelineFormatError} If the version is newer than the supported one
+ */
+function checkVersion(version: number): void {
+  if (!Number.isInteger(version) || version < 1 || version > TIMELINE_FORMAT_VERSION) {
+    throw new TimelineFormatError(`Unsupported timeline format version ${version} (supported: 1-${TIMELINE_FORMAT_VERSION})`);
+  }
+}
+
+/**
+ * Checks the beat events of a file: beat and downbeat times as arrays of numbers, and
+ * sections with a start and an end when present.
+ *
+ * @param events - Events found in the file
+ * @throws {TimelineFormatError} If they do not have the expected shape
+ */
+function checkEvents(events: unknown): void {
+  const isTimes = (value: unknown) => Array.isArray(value) && value.every(time => typeof time === 'number');
+  const { beats, downbeats, sections } = (events ?? {}) as Partial<TimelineEvents>;
+  const validSections = sections === undefined || (Array.isArray(sections) && sections.every(section =>
+      typeof section?.start === 'number' && typeof section?.end === 'number'));
+  if (!events || typeof events !== 'object' || !isTimes(beats) || !isTimes(downbeats) || !validSections) {
+    throw new TimelineFormatError('Timeline file has invalid beat events');
+  }
+}
+
+/**
+ * Copies the fields of a stored frame over a default value, recursively: objects are
+ * merged, arrays and values replace the default.
+ */
+function mergeOverDefaults(defaults: unknown, value: unknown): unknown {
+  if (value === undefined || value === null) return defaults;
+  const isPlainObject = (candidate: unknown): candidate is Record<string, unknown> =>
+      !!candidate && typeof candidate === 'object' && !Array.isArray(candidate) && !ArrayBuffer.isView(candidate);
+  if (!isPlainObject(defaults) || !isPlainObject(value)) return value;
+
+  const merged: Record<string, unknown> = { ...defaults };
+  for (const [key, field] of Object.entries(value)) {
+    merged[key] = mergeOverDefaults(defaults[key], field);
+  }
+  return merged;
+}
+
+// --- JSON ---
+
+/**
+ * Serializes a timeline to the JSON format.
+ *
+ * @param timeline - Timeline to save
+ * @param title - Name of the analysed track
+ * @returns JSON text
+ */
+export function timelineToJSON(timeline: FeatureTimeline, title?: string): string {
+  const document: TimelineJSON = {
+    format: TIMELINE_FORMAT_NAME,
+    version: TIMELINE_FORMAT_VERSION,
+    metadata: createMetadata(title),
+    track: timeline.info,
+    events: { beats: timeline.beats, downbeats: timeline.downbeats, sections: timeline.sections },
+    frames: timeline.frames.map(frame => ({
+      ...frame,
+      frequencies: Array.from(frame.frequencies),
+      spectrumDb: Array.from(frame.spectrumDb),
+      waveform: Array.from(frame.waveform)
+    }))
+  };
+
+  return JSON.stringify(document);
+}
+
+/**
+ * Reads a timeline from the JSON format.
+ *
+ * @param text - JSON text
+ * @returns Timeline and metadata
+ * @throws {TimelineFormatError} If the text is not a supported timeline file
+ */
+export function timelineFromJSON(text: string): TimelineDocument {
+  let document: TimelineJSON;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new TimelineFormatError('Timeline file is not valid JSON');
+  }
+
+  if (document?.format !== TIMELINE_FORMAT_NAME) {
+    throw new TimelineFormatError('Not an AuraSync timeline file');
+  }
+  checkVersion(document.version);
+
+  const { track, events, frames: serialized } = document;
+  if (!track || typeof track !== 'object' || !(track.frameRate > 0) || !(track.duration >= 0)) {
+    throw new TimelineFormatError('Timeline file has no valid track information');
+  }
+  if (!Array.isArray(serialized) || serialized.some(frame => !frame || typeof frame !== 'object')) {
+    throw new TimelineFormatError('Timeline file has no valid frames');
+  }
+  if (events !== undefined) checkEvents(events);
+
+  const frames = serialized.map(frame => ({
+    ...(mergeOverDefaults(createEmptyAudioData(), frame) as AudioData),
+    frequencies: Uint8Array.from(frame.frequencies ?? []),
+    spectrumDb: Float32Array.from(frame.spectrumDb ?? []),
+    waveform: Uint8Array.from(frame.waveform ?? [])
+  }));
+
+  return {
+    timeline: new FeatureTimeline(track, frames, events),
+    metadata: document.metadata
+  };
+}
+
+// --- Binary ---
+
+/**
+ * Walks a frame and lists its leaf fields in a stable order.
+ *
+ * @param value - Object to walk
+ * @param prefix - Path of `value` within the frame
+ * @param layout - Accumulated fields
+ */
+export function collectLayout(value: object, prefix: string, layout: LayoutField[]): LayoutField[] {
+  for (const [key, field] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (field instanceof Uint8Array) {
+      layout.push({ path, type: 'bytes', length: field.length });
+    } else if (field instanceof Float32Array) {
+      layout.push({ path, type: 'floats', length: field.length });
+    } else if (Array.isArray(field)) {
+      layout.push({ path, type: 'number[]', length: field.length });
+    } else if (typeof field === 'number' || typeof field === 'boolean' || typeof field === 'string') {
+      layout.push({ path, type: typeof field as 'number' | 'boolean' | 'string' });
+    } else if (field && typeof field === 'object') {
+      collectLayout(field, path, layout);
+    }
+  }
+  return layout;
+}
+
+/**
+ * Reads a nested field by its dotted path.
+ */
+export function readPath(frame: object, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value as Record<string, unknown> | undefined)?.[key],
+    frame
+  );
+}
+
+/**
+ * Writes a nested field by its dotted path, creating intermediate objects.
+ */
+export function writePath(frame: object, path: string, value: unknown): void {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  let target = frame as Record<string, unknown>;
+
+  for (const key of keys) {
+    if (!target[key] || typeof target[key] !== 'object') target[key] = {};
+    target = target[key] as Record<string, unknown>;
+  }
+  target[last] = value;
+}
+
+/**
+ * Layout covering every frame: fields present in any frame, arrays sized to their
+ * longest occurrence (shorter arrays are zero-padded when written).
+ *
+ * @param frames - Frames to be written
+ */
+function collectTimelineLayout(frames: AudioData[]): LayoutField[] {
+  const fields = new Map<string, LayoutField>();
+  for (const frame of frames) {
+    for (const field of collectLayout(frame, '', [])) {
+      const known = fields.get(field.path);
+      if (!known) {
+        fields.set(field.path, field);
+      } else if (known.type !== field.type) {
+        throw new TimelineFormatError(`Field ${field.path} changes type between frames`);
+      } else if ((field.length ?? 0) > (known.length ?? 0)) {
+        known.length = field.length;
+      }
+    }
+  }
+  return [...fields.values()];
+}
+
+/**
+ * Size in bytes of one frame record.
+ */
+function getRecordSize(layout: LayoutField[]): number {
+  return layout.reduce((size, field) => {
+    switch (field.type) {
+      case 'number': return size + 4;
+      case 'boolean': return size + 1;
+      case 'string': return size + 2;
+      case 'number[]':
+      case 'floats': return size + 4 * (field.length ?? 0);
+      case 'bytes': return size + (field.length ?? 0);
+    }
+  }, 0);
+}
+
+/**
+ * Serializes a timeline to the compact binary format.
+ *
+ * @param timeline - Timeline to save
+ * @param title - Name of the analysed track
+ * @returns Binary file contents
+ */
+export function timelineToBinary(timeline: FeatureTimeline, title?: string): ArrayBuffer {
+  const layout = collectTimelineLayout(timeline.frames);
+  const strings: string[] = [];
+  const stringIndex = new Map<string, number>();
+
+  const internString = (value: string): number => {
+    let index = stringIndex.get(value);
+    if (index === undefined) {
+      index = strings.length;
+      strings.push(value);
+      stringIndex.set(value, index);
+    }
+    return index;
+  };
+
+  // Strings are interned before the header is written, the table lives in the header
+  for (const frame of timeline.frames) {
+    for (const field of layout) {
+      if (field.type === 'string') internString(String(readPath(frame, field.path) ?? ''));
+    }
+  }
+
+  const header: BinaryHeader = {
+    metadata: createMetadata(title),
+    track: timeline.info,
+    events: { beats: timeline.beats, downbeats: timeline.downbeats, sections: timeline.sections },
+    layout,
+    strings,
+    frameCount: timeline.frames.length
+  };
+
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const recordSize = getRecordSize(layout);
+  const dataOffset = 12 + headerBytes.length;
+
+  const buffer = new ArrayBuffer(dataOffset + recordSize * timeline.frames.length);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  for (let i = 0; i < 4; i++) view.setUint8(i, BINARY_MAGIC.charCodeAt(i));
+  view.setUint32(4, TIMELINE_FORMAT_VERSION, true);
+  view.setUint32(8, headerBytes.length, true);
+  bytes.set(headerBytes, 12);
+
+  let offset = dataOffset;
+  for (const frame of timeline.frames) {
+    for (const field of layout) {
+      const value = readPath(frame, field.path);
+      const length = field.length ?? 0;
+
+      switch (field.type) {
+        case 'number':
+          view.setFloat32(offset, Number(value) || 0, true);
+          offset += 4;
+          break;
+        case 'boolean':
+          view.setUint8(offset, value ? 1 : 0);
+          offset += 1;
+          break;
+        case 'string':
+          view.setUint16(offset, internString(String(value ?? '')), true);
+          offset += 2;
+          break;
+        case 'number[]':
+        case 'floats': {
+          const values = Array.isArray(value) || value instanceof Float32Array ? value : [];
+          for (let j = 0; j < length; j++) view.setFloat32(offset + j * 4, Number(values[j]) || 0, true);
+          offset += 4 * length;
+          break;
+        }
+        case 'bytes': {
+          const values = value instanceof Uint8Array ? value.subarray(0, length) : new Uint8Array(0);
+          bytes.set(values, offset);
+          offset += length;
+          break;
+        }
+      }
+    }
+  }
+
+  return buffer;
+}
+
+/**
+ * Reads a timeline from the compact binary format.
+ *
+ * @param buffer - Binary file contents
+ * @returns Timeline and metadata
+ * @throws {TimelineFormatError} If the buffer is not a supported timeline file
+ */
+export function timelineFromBinary(buffer: ArrayBuffer): TimelineDocument {
+  if (buffer.byteLength < 12) {
+    throw new TimelineFormatError('Timeline file is truncated');
+  }
+
+  const view = new DataView(buffer);
+  const magic = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+  if (magic !== BINARY_MAGIC) {
+    throw new TimelineFormatError('Not an AuraSync binary timeline file');
+  }
+  checkVersion(view.getUint32(4, true));
+
+  const headerLength = view.getUint32(8, true);
+  if (buffer.byteLength < 12 + headerLength) {
+    throw new TimelineFormatError('Timeline file is truncated');
+  }
+  let header: BinaryHeader;
+  try {
+    header = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 12, headerLength)));
+  } catch {
+    throw new TimelineFormatError('Timeline file header is not valid JSON');
+  }
+  if (!header?.track || !(header.track.frameRate > 0) || !Array.isArray(header.layout) || !Array.isArray(header.strings) || !Number.isInteger(header.frameCount)) {
+    throw new TimelineFormatError('Timeline file header is incomplete');
+  }
+  checkEvents(header.events);
+  const recordSize = getRecordSize(header.layout);
+  const dataOffset = 12 + headerLength;
+
+  if (buffer.byteLength < dataOffset + recordSize * header.frameCount) {
+    throw new TimelineFormatError('Timeline file is truncated');
+  }
+
+  const frames: AudioData[] = [];
+  let offset = dataOffset;
+
+  for (let i = 0; i < header.frameCount; i++) {
+    // Fields missing from the layout (older files) keep their default value
+    const frame = createEmptyAudioData();
+
+    for (const field of header.layout) {
+      const length = field.length ?? 0;
+
+      switch (field.type) {
+        case 'number':
+          writePath(frame, field.path, view.getFloat32(offset, true));
+          offset += 4;
+          break;
+        case 'boolean':
+          writePath(frame, field.path, view.getUint8(offset) === 1);
+          offset += 1;
+          break;
+        case 'string':
+          writePath(frame, field.path, header.strings[view.getUint16(offset, true)] ?? '');
+          offset += 2;
+          break;
+        case 'number[]': {
+          const values: number[] = [];
+          for (let j = 0; j < length; j++) values.push(view.getFloat32(offset + j * 4, true));
+          writePath(frame, field.path, values);
+          offset += 4 * length;
+          break;
+        }
+        case 'floats': {
+          const values = new Float32Array(length);
+          for (let j = 0; j < length; j++) values[j] = view.getFloat32(offset + j * 4, true);
+          writePath(frame, field.path, values);
+          offset += 4 * length;
+          break;
+        }
+        case 'bytes':
+          writePath(frame, field.path, new Uint8Array(buffer.slice(offset, offset + length)));
+          offset += length;
+          break;
+      }
+    }
+
+    frames.push(frame);
+  }
+
+  return {
+    timeline: new FeatureTimeline(header.track, frames, header.events),
+    metadata: header.metadata
+  };
+}
+
+// --- Files ---
+
+/**
+ * Reads a timeline file in either format, detected from its first bytes.
+ *
+ * @param file - `.aurasync` or `.aurasync.json` file
+ * @returns Timeline and metadata
+ * @throws {TimelineFormatError} If the file is not a supported timeline file
+ */
+export async function importTimeline(file: Blob): Promise<TimelineDocument> {
+  const buffer = await file.arrayBuffer();
+  const head = new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength));
+
+  if (String.fromCharCode(...head) === BINARY_MAGIC) {
+    return timelineFromBinary(buffer);
+  }
+  return timelineFromJSON(new TextDecoder().decode(buffer));
+}
+
+/**
+ * Encodes a timeline as a downloadable file.
+ *
+ * @param timeline - Timeline to save
+ * @param format - `json` for the readable format, `binary` for the compact one
+ * @param title - Name of the analysed track, also used for the file name
+ * @returns File named after the track
+ */
+export function exportTimeline(timeline: FeatureTimeline, format: 'json' | 'binary', title?: string): File {
+  const baseName = (title ?? 'timeline').replace(/\.[^.]+$/, '');
+
+  if (format === 'json') {
+    return new File([timelineToJSON(timeline, title)], `${baseName}.aurasync.json`, { type: 'application/json' });
+  }
+  return new File([timelineToBinary(timeline, title)], `${baseName}.aurasync`, { type: 'application/octet-stream' });
+}
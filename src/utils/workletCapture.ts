@@ -0,0 +1,145 @@
+/**
+ * AudioWorklet Capture for AuraSync
+ *
+ * Feeds the analysis engine from an AudioWorklet instead of polling an `AnalyserNode`
+ * from `requestAnimationFrame`. The worklet delivers one window every `hopSize` samples
+ * with the context time of its last sample, so the engine runs at a constant, known
+ * frame rate (the ODF history gets a true sample rate) and keeps running when the tab
+ * is throttled or the display refresh changes.
+ *
+ * Key Features:
+ * - Fixed hop size with sample-accurate timestamps (context time)
+ * - Stereo capture: mono mix, left and right windows in every frame
+ * - Spectra computed like the `AnalyserNode` (`SpectrumAnalyser`), always in float precision
+ * - Falls back to the analyser path when AudioWorklet is unavailable
+ *
+ * @module workletCapture
+ * @version 1.0.0
+ * @author AuraSync Team
+ * @since 1.0.0
+ */
+
+import captureWorkletUrl from '../workers/capture.worklet.ts?worker&url';
+import type { CaptureFrame } from '../workers/capture.worklet';
+import type { AudioConfig } from '../types/config';
+import type { AnalysisFrame } from './AnalysisEngine';
+import { SpectrumAnalyser } from './spectrumAnalyser';
+
+/** Contexts the worklet module has been added to (it can only be added once each). */
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+/**
+ * Frames of a fixed hop size captured by an AudioWorklet.
+ *
+ * @example
+ * ```typescript
+ * const capture = await WorkletCapture.create(context, [fileGain, micGain], audioConfig,
+ *   (frame) => engine.analyze(frame));
+ * if (!capture) {
+ *   // AudioWorklet unavailable: poll the analyser instead
+ * }
+ * ```
+ */
+export class WorkletCapture {
+  private readonly node: AudioWorkletNode;
+  private readonly sources: AudioNode[];
+  private readonly analysers = { mono: new SpectrumAnalyser(), left: new SpectrumAnalyser(), right: new SpectrumAnalyser() };
+
+  private constructor(node: AudioWorkletNode, sources: AudioNode[], config: AudioConfig, onFrame: (frame: AnalysisFrame) => void) {
+    this.node = node;
+    this.sources = sources;
+    this.configureAnalysers(config);
+
+    node.port.onmessage = (e: MessageEvent<CaptureFrame>) => {
+      onFrame(this.toAnalysisFrame(e.data));
+    };
+  }
+
+  /**
+   * Loads the worklet (once per context) and starts capturing the sources.
+   *
+   * @param context - The audio context owning the sources
+   * @param sources - Nodes to capture (typically the file and microphone gains)
+   * @param config - FFT size (window length), hop size and smoothing
+   * @param onFrame - Called on the main thread with every captured frame
+   * @returns The capture, or `null` when AudioWorklet is not available
+   */
+  static async create(
+      context: AudioContext,
+      sources: AudioNode[],
+      config: AudioConfig,
+      onFrame: (frame: AnalysisFrame) => void
+  ): Promise<WorkletCapture | null> {
+    if (typeof AudioWorkletNode === 'undefined' || !context.audioWorklet) {
+      console.warn('⚠️ AudioWorklet unavailable, falling back to analyser polling');
+      return null;
+    }
+
+    try {
+      if (!loadedContexts.has(context)) {
+        await context.audioWorklet.addModule(captureWorkletUrl);
+        loadedContexts.add(context);
+      }
+
+      const node = new AudioWorkletNode(context, 'aurasync-capture', {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 2,
+        channelCountMode: 'explicit',
+        channelInterpretation: 'speakers',
+        processorOptions: { windowSize: config.fftSize, hopSize: config.hopSize },
+      });
+      sources.forEach(source => source.connect(node));
+
+      console.log(`🎚️ AudioWorklet capture: ${config.hopSize}-sample hop (${(context.sampleRate / config.hopSize).toFixed(1)} frames/s)`);
+      return new WorkletCapture(node, sources, config, onFrame);
+    } catch (error) {
+      console.warn('⚠️ AudioWorklet capture failed, falling back to analyser polling:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Applies a new analyser configuration (window length, hop size, smoothing).
+   */
+  configure(config: AudioConfig): void {
+    this.node.port.postMessage({ windowSize: config.fftSize, hopSize: config.hopSize });
+    this.configureAnalysers(config);
+  }
+
+  /**
+   * Stops capturing; frames still in flight are dropped.
+   */
+  disconnect(): void {
+    this.node.port.onmessage = null;
+    this.sources.forEach(source => source.disconnect(this.node));
+  }
+
+  private configureAnalysers(config: AudioConfig): void {
+    this.analysers.mono.configure(config);
+    this.analysers.left.configure(config);
+    this.analysers.right.configure(config);
+  }
+
+  /**
+   * Builds an engine frame from the captured windows: the mono mix is the average of
+   * both channels, as the analyser down-mixes stereo input.
+   */
+  private toAnalysisFrame({ left, right, time, sampleRate }: CaptureFrame): AnalysisFrame {
+    const waveform = new Float32Array(left.length);
+    for (let i = 0; i < left.length; i++) {
+      waveform[i] = (left[i] + right[i]) / 2;
+    }
+
+    return {
+      frequencies: this.analysers.mono.process(waveform),
+      waveform,
+      sampleRate,
+      time,
+      stereo: {
+        left: { frequencies: this.analysers.left.process(left), waveform: left },
+        right: { frequencies: this.analysers.right.process(right), waveform: right },
+      },
+    };
+  }
+}
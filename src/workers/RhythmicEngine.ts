@@ -1,5 +1,9 @@
 // RhythmicEngine.ts - Advanced Beat Tracking Engine for AuraSync
 // Based on state-of-the-art MIR techniques without external dependencies
+// Rhythm backend of AnalysisEngine when `rhythmBackend` is "beat-tracker"
+
+import { resampleODF, tempoPrior, type ODFSample } from '../utils/BPMDetector';
+import type { TempoGenre } from '../types/config';
 
 export interface TempoCandidate {
     bpm: number;
@@ -124,20 +128,24 @@ class MelFilterBank {
 // Main Rhythmic Engine
 export class RhythmicEngine {
     // Configuration
-    private readonly ODF_SAMPLE_RATE = 100; // Hz for ODF computation
-    private readonly ODF_HISTORY_SIZE = 512; // ~5 seconds at 100Hz
-    private readonly MIN_BPM = 60;
-    private readonly MAX_BPM = 200;
+    private readonly ODF_SAMPLE_RATE = 100; // Hz the timestamped ODF is resampled to
+    private readonly ODF_HISTORY_SIZE = 512; // ~5 seconds at 100Hz, for tempo estimation
+    private readonly TEMPO_INTERVAL = 0.1; // seconds between two tempo estimations
     private readonly BEAT_WINDOW = 10; // seconds for beat tracking
+    private MIN_BPM = 60;
+    private MAX_BPM = 200;
+    private genre: TempoGenre = 'auto';
 
     // Mel filterbank for robust ODF
     private melFilterBank: MelFilterBank;
 
     // State
-    private odfHistory: number[] = [];
+    private odfSamples: ODFSample[] = []; // Timestamped ODF values, frames arrive at any rate
+    private odfHistory: number[] = []; // The same, resampled to ODF_SAMPLE_RATE
     private prevMelEnergies: Float32Array;
     private beatEvents: BeatEvent[] = [];
-    private frameCount = 0;
+    private lastTempoTime = -Infinity;
+    private lastTickTime = -Infinity; // Last beat reported through `isBeat`
 
     // For dynamic programming beat tracking
     private dpWindowSize: number;
@@ -145,6 +153,7 @@ export class RhythmicEngine {
     // Tempo tracking
     private tempoCandidates: TempoCandidate[] = [];
     private primaryBPM = 0;
+    private trackedBPM = 0; // Median interval of the tracked beats
     private beatPhase = 0;
 
     constructor(sampleRate: number = 44100, fftSize: number = 2048) {
@@ -235,6 +244,11 @@ export class RhythmicEngine {
             magnitudes[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i]);
         }
 
+        // Strongest periodicity in the tempo range (the window's DC leakage is out of range)
+        const minBin = Math.max(1, Math.ceil((this.MIN_BPM / 60) * fftSize / this.ODF_SAMPLE_RATE));
+        const maxBin = Math.min(magnitudes.length - 2, Math.floor((this.MAX_BPM / 60) * fftSize / this.ODF_SAMPLE_RATE));
+        const rangeMax = Math.max(...magnitudes.subarray(minBin, maxBin + 1));
+
         // Find peaks in tempo range
         for (let i = 1; i < magnitudes.length - 1; i++) {
             // Convert bin to BPM
@@ -247,7 +261,7 @@ export class RhythmicEngine {
             if (magnitudes[i] > magnitudes[i - 1] && magnitudes[i] > magnitudes[i + 1]) {
                 candidates.push({
                     bpm: bpm,
-                    confidence: magnitudes[i] / Math.max(...magnitudes),
+                    confidence: rangeMax > 0 ? magnitudes[i] / rangeMax : 0,
                     source: 'dft'
                 });
             }
@@ -263,23 +277,26 @@ export class RhythmicEngine {
      * Autocorrelation for tempo validation and octave error resolution
      */
     private validateWithACF(candidates: TempoCandidate[]): TempoCandidate[] {
-        if (this.odfHistory.length < 256) return candidates;
+        // Same ~5 seconds as the tempogram
+        const history = this.odfHistory.slice(-this.ODF_HISTORY_SIZE);
+        if (history.length < 256) return candidates;
 
-        const acf = new Float32Array(this.odfHistory.length);
+        const acf = new Float32Array(history.length);
 
         // Calculate autocorrelation
-        for (let lag = 0; lag < this.odfHistory.length / 2; lag++) {
+        for (let lag = 0; lag < history.length / 2; lag++) {
             let sum = 0;
-            for (let i = 0; i < this.odfHistory.length - lag; i++) {
-                sum += this.odfHistory[i] * this.odfHistory[i + lag];
+            for (let i = 0; i < history.length - lag; i++) {
+                sum += history[i] * history[i + lag];
             }
             acf[lag] = sum;
         }
 
-        // Normalize
-        if (acf[0] > 0) {
+        // Normalize (acf[0] itself is overwritten on the first iteration)
+        const energy = acf[0];
+        if (energy > 0) {
             for (let i = 0; i < acf.length; i++) {
-                acf[i] /= acf[0];
+                acf[i] /= energy;
             }
         }
 
@@ -327,16 +344,23 @@ export class RhythmicEngine {
     /**
      * Dynamic Programming Beat Tracking (Ellis algorithm)
      */
-    private trackBeats(odfWindow: number[], targetPeriod: number, alpha: number = 0.7): number[] {
+    private trackBeats(odfWindow: number[], targetPeriod: number, alpha: number = 100): number[] {
         const N = odfWindow.length;
         const scores = new Float32Array(N);
         const backpointers = new Int32Array(N);
 
-        // Penalty function for tempo deviation
-        const penalty = (delta: number, target: number): number => {
-            const logRatio = Math.log(delta / target);
-            return -logRatio * logRatio;
-        };
+        // Standardised onsets: the tempo penalty weighs the same whatever the ODF scale, and
+        // positions without an onset score below zero, so extra beats are not rewarded
+        const mean = odfWindow.reduce((a, b) => a + b, 0) / N;
+        const std = Math.sqrt(odfWindow.reduce((sum, value) => sum + (value - mean) * (value - mean), 0) / N);
+        const onsets = std > 0 ? odfWindow.map(value => (value - mean) / std) : odfWindow.map(() => 0);
+
+        // Penalty function for tempo deviation, per interval in samples
+        const penalties = new Float32Array(Math.floor(2 * targetPeriod) + 2);
+        for (let delta = 1; delta < penalties.length; delta++) {
+            const logRatio = Math.log(delta / targetPeriod);
+            penalties[delta] = -logRatio * logRatio;
+        }
 
         // Forward pass
         for (let t = 1; t < N; t++) {
@@ -349,7 +373,7 @@ export class RhythmicEngine {
 
             for (let prevT = minPrev; prevT <= maxPrev && prevT < t; prevT++) {
                 const interval = t - prevT;
-                const score = scores[prevT] + alpha * penalty(interval, targetPeriod);
+                const score = scores[prevT] + alpha * penalties[interval];
 
                 if (score > bestScore) {
                     bestScore = score;
@@ -358,21 +382,34 @@ export class RhythmicEngine {
             }
 
             // Local score (onset strength)
-            scores[t] = odfWindow[t] + (bestPrev >= 0 ? bestScore : 0);
+            scores[t] = onsets[t] + (bestPrev >= 0 ? bestScore : 0);
             backpointers[t] = bestPrev;
         }
 
-        // Backward pass - trace back from best ending point
+        // Backward pass - trace back from best ending point. Online, the positions after
+        // the last beat score almost as high as it (the penalty grows slowly), so the
+        // path ends on the best-scoring clear onset peak when there is one
         let bestEnd = 0;
         let maxScore = -Infinity;
+        const tailStart = Math.max(1, N - Math.ceil(targetPeriod));
 
-        for (let t = N - Math.floor(targetPeriod * 1.5); t < N; t++) {
-            if (scores[t] > maxScore) {
+        for (let t = tailStart; t < N; t++) {
+            const isPeak = onsets[t] >= onsets[t - 1] && (t === N - 1 || onsets[t] >= onsets[t + 1]);
+            if (isPeak && onsets[t] >= 1 && scores[t] > maxScore) {
                 maxScore = scores[t];
                 bestEnd = t;
             }
         }
 
+        if (maxScore === -Infinity) {
+            for (let t = tailStart; t < N; t++) {
+                if (scores[t] > maxScore) {
+                    maxScore = scores[t];
+                    bestEnd = t;
+                }
+            }
+        }
+
         // Collect beat times
         const beatIndices: number[] = [];
         let current = bestEnd;
@@ -389,8 +426,6 @@ export class RhythmicEngine {
      * Main analysis function to be called from the worker
      */
     public analyze(frequencies: Uint8Array, currentTime: number): RhythmicOutput {
-        this.frameCount++;
-
         // Convert frequency data to magnitude spectrum
         const magnitudes = new Float32Array(frequencies.length);
         for (let i = 0; i < frequencies.length; i++) {
@@ -398,33 +433,61 @@ export class RhythmicEngine {
         }
 
         // Calculate robust ODF
-        const odfValue = this.calculateRobustODF(magnitudes);
+        return this.process(this.calculateRobustODF(magnitudes), currentTime);
+    }
+
+    /**
+     * Tracks tempo and beats from an onset detection function value computed elsewhere
+     * (AnalysisEngine's Mel spectral flux). Frames may arrive at any rate: the ODF is
+     * kept with its timestamps and resampled to 100 Hz.
+     *
+     * @param odfValue - Onset strength of the frame
+     * @param currentTime - Frame time in seconds; going backwards restarts the tracking
+     */
+    public process(odfValue: number, currentTime: number): RhythmicOutput {
+        // Timestamps going backwards mean a new time base (source or capture change)
+        const lastSample = this.odfSamples[this.odfSamples.length - 1];
+        if (lastSample && currentTime < lastSample.time) {
+            this.reset();
+        }
 
         // Update ODF history
-        this.odfHistory.push(odfValue);
-        if (this.odfHistory.length > this.ODF_HISTORY_SIZE) {
-            this.odfHistory.shift();
+        this.odfSamples.push({ time: currentTime, value: odfValue });
+        const historyStart = currentTime - (this.dpWindowSize + 1) / this.ODF_SAMPLE_RATE;
+        while (this.odfSamples.length > 0 && this.odfSamples[0].time < historyStart) {
+            this.odfSamples.shift();
         }
+        this.odfHistory = resampleODF(this.odfSamples, this.ODF_SAMPLE_RATE, currentTime, this.dpWindowSize);
+
+        // Tempo detection every TEMPO_INTERVAL
+        if (currentTime - this.lastTempoTime >= this.TEMPO_INTERVAL && this.odfHistory.length > 256) {
+            this.lastTempoTime = currentTime;
 
-        // Tempo detection every 10 frames
-        if (this.frameCount % 10 === 0 && this.odfHistory.length > 256) {
             // Get tempo candidates from DFT
             const dftCandidates = this.calculateTempogram();
 
             // Validate with ACF
             this.tempoCandidates = this.validateWithACF(dftCandidates);
 
-            // Select primary tempo
+            this.tempoCandidates = this.tempoCandidates
+                .map(candidate => ({ ...candidate, confidence: candidate.confidence * tempoPrior(candidate.bpm, this.genre) }))
+                .sort((a, b) => b.confidence - a.confidence);
+
+            // Select primary tempo, staying on the current one while it remains a close second
             if (this.tempoCandidates.length > 0) {
-                this.primaryBPM = this.tempoCandidates[0].bpm;
+                const best = this.tempoCandidates[0];
+                const current = this.tempoCandidates.find(candidate =>
+                    Math.abs(candidate.bpm - this.primaryBPM) <= this.primaryBPM * 0.08
+                );
+                this.primaryBPM = current && current.confidence >= best.confidence * 0.7 ? current.bpm : best.bpm;
             }
         }
 
         // Beat tracking
         let isBeat = false;
 
-        if (this.primaryBPM > 0 && this.odfHistory.length >= this.dpWindowSize) {
-            // Extract recent ODF window
+        if (this.primaryBPM > 0 && this.odfHistory.length > 256) {
+            // Extract recent ODF window (up to BEAT_WINDOW seconds)
             const odfWindow = this.odfHistory.slice(-this.dpWindowSize);
 
             // Target beat period in samples
@@ -433,8 +496,9 @@ export class RhythmicEngine {
             // Run beat tracking
             const beatIndices = this.trackBeats(odfWindow, targetPeriod);
 
-            // Convert to beat events
-            const windowStartTime = currentTime - (this.dpWindowSize / this.ODF_SAMPLE_RATE);
+            // Convert to beat events (the last ODF sample is at currentTime)
+            const windowStartTime = currentTime - ((odfWindow.length - 1) / this.ODF_SAMPLE_RATE);
+            const peak = Math.max(...odfWindow);
 
             // Clear old beats and add new ones
             this.beatEvents = [];
@@ -442,36 +506,34 @@ export class RhythmicEngine {
                 const beatTime = windowStartTime + (idx / this.ODF_SAMPLE_RATE);
                 this.beatEvents.push({
                     time: beatTime,
-                    strength: odfWindow[idx]
+                    strength: peak > 0 ? odfWindow[idx] / peak : 0
                 });
             }
 
-            // Check if current frame is a beat
-            const beatTolerance = 0.05; // 50ms tolerance
-            for (const beat of this.beatEvents) {
-                if (Math.abs(beat.time - currentTime) < beatTolerance) {
-                    isBeat = true;
-                    break;
-                }
+            // The tempogram bins are ~12 BPM wide: the tempo is read from the tracked beats
+            const recentBeats = this.beatEvents.slice(-9);
+            const intervals: number[] = [];
+            for (let i = 1; i < recentBeats.length; i++) {
+                intervals.push(recentBeats[i].time - recentBeats[i - 1].time);
+            }
+            if (intervals.length >= 4) {
+                intervals.sort((a, b) => a - b);
+                this.trackedBPM = 60 / intervals[Math.floor(intervals.length / 2)];
             }
 
-            // Calculate beat phase
-            if (this.beatEvents.length > 1) {
-                // Find the two beats we're between
-                let prevBeat = this.beatEvents[0];
-                let nextBeat = this.beatEvents[1];
-
-                for (let i = 0; i < this.beatEvents.length - 1; i++) {
-                    if (this.beatEvents[i].time <= currentTime && this.beatEvents[i + 1].time > currentTime) {
-                        prevBeat = this.beatEvents[i];
-                        nextBeat = this.beatEvents[i + 1];
-                        break;
-                    }
-                }
+            // A beat well after the last reported one: this frame ticks. The margin keeps a
+            // path switching to the off-beats from ticking twice per beat
+            const period = 60 / (this.trackedBPM || this.primaryBPM);
+            const lastBeat = this.beatEvents[this.beatEvents.length - 1];
+            if (lastBeat && lastBeat.time > this.lastTickTime + period * 0.75) {
+                isBeat = true;
+                this.lastTickTime = lastBeat.time;
+            }
 
-                const beatInterval = nextBeat.time - prevBeat.time;
-                const timeSinceBeat = currentTime - prevBeat.time;
-                this.beatPhase = Math.max(0, Math.min(1, timeSinceBeat / beatInterval));
+            // Calculate beat phase: every tracked beat is in the past
+            if (lastBeat) {
+                const beats = (currentTime - lastBeat.time) / period;
+                this.beatPhase = beats - Math.floor(beats);
             }
         }
 
@@ -498,7 +560,7 @@ export class RhythmicEngine {
 
         return {
             tempoCandidates: this.tempoCandidates,
-            primaryBPM: this.primaryBPM,
+            primaryBPM: this.trackedBPM || this.primaryBPM,
             bpmConfidence: this.tempoCandidates.length > 0 ? this.tempoCandidates[0].confidence * 100 : 0,
             beatEvents: this.beatEvents.slice(-8), // Return last 8 beats
             beatPhase: this.beatPhase,
@@ -508,6 +570,34 @@ export class RhythmicEngine {
         };
     }
 
+    /**
+     * Sets the tempo range of the tempogram candidates and the genre prior that ranks
+     * them (the half and double time of a pulse are otherwise near ties).
+     */
+    public configure(minBPM: number, maxBPM: number, genre: TempoGenre): void {
+        if (minBPM > 0 && maxBPM > minBPM) {
+            this.MIN_BPM = minBPM;
+            this.MAX_BPM = maxBPM;
+        }
+        this.genre = genre;
+    }
+
+    /**
+     * Clears the ODF history, tempo and beats, keeping the tempo range.
+     */
+    public reset(): void {
+        this.odfSamples = [];
+        this.odfHistory = [];
+        this.prevMelEnergies.fill(0);
+        this.beatEvents = [];
+        this.lastTempoTime = -Infinity;
+        this.lastTickTime = -Infinity;
+        this.tempoCandidates = [];
+        this.primaryBPM = 0;
+        this.trackedBPM = 0;
+        this.beatPhase = 0;
+    }
+
     /**
      * Find peaks in an array
      */
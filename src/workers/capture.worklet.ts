@@ -0,0 +1,92 @@
+// capture.worklet.ts - Fixed-hop audio capture for AuraSync
+// Runs on the audio rendering thread: keeps the last `windowSize` samples of each
+// channel and posts a copy every `hopSize` samples, stamped with the context time of
+// its last sample. Frames therefore arrive at a constant rate, independent of the
+// display refresh and of tab throttling.
+
+// AudioWorkletGlobalScope is not part of the DOM typings
+declare const sampleRate: number;
+declare const currentFrame: number;
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: { processorOptions?: CaptureOptions });
+}
+declare function registerProcessor(name: string, processor: typeof AudioWorkletProcessor): void;
+
+export interface CaptureOptions {
+    windowSize: number;
+    hopSize: number;
+}
+
+export interface CaptureFrame {
+    left: Float32Array;
+    right: Float32Array;
+    /** Context time of the sample following the window, in seconds. */
+    time: number;
+    sampleRate: number;
+}
+
+class CaptureProcessor extends AudioWorkletProcessor {
+    private windowSize = 2048;
+    private hopSize = 1024;
+    private left = new Float32Array(this.windowSize);
+    private right = new Float32Array(this.windowSize);
+    private writeIndex = 0;
+    private sinceHop = 0;
+
+    constructor(options?: { processorOptions?: CaptureOptions }) {
+        super(options);
+        if (options?.processorOptions) this.configure(options.processorOptions);
+        this.port.onmessage = (e: MessageEvent<CaptureOptions>) => this.configure(e.data);
+    }
+
+    private configure({ windowSize, hopSize }: CaptureOptions): void {
+        this.windowSize = windowSize;
+        this.hopSize = hopSize;
+        this.left = new Float32Array(windowSize);
+        this.right = new Float32Array(windowSize);
+        this.writeIndex = 0;
+        this.sinceHop = 0;
+    }
+
+    process(inputs: Float32Array[][]): boolean {
+        const input = inputs[0];
+        // No source connected yet: nothing to capture, but stay alive
+        if (!input || input.length === 0) return true;
+
+        const left = input[0];
+        const right = input[1] ?? input[0];
+
+        for (let i = 0; i < left.length; i++) {
+            this.left[this.writeIndex] = left[i];
+            this.right[this.writeIndex] = right[i];
+            this.writeIndex = (this.writeIndex + 1) % this.windowSize;
+
+            if (++this.sinceHop >= this.hopSize) {
+                this.sinceHop = 0;
+                this.post((currentFrame + i + 1) / sampleRate);
+            }
+        }
+
+        return true;
+    }
+
+    private post(time: number): void {
+        // Unroll the ring buffer, oldest sample first
+        const frame: CaptureFrame = {
+            left: new Float32Array(this.windowSize),
+            right: new Float32Array(this.windowSize),
+            time,
+            sampleRate,
+        };
+        const tail = this.windowSize - this.writeIndex;
+        frame.left.set(this.left.subarray(this.writeIndex));
+        frame.left.set(this.left.subarray(0, this.writeIndex), tail);
+        frame.right.set(this.right.subarray(this.writeIndex));
+        frame.right.set(this.right.subarray(0, this.writeIndex), tail);
+
+        this.port.postMessage(frame, [frame.left.buffer, frame.right.buffer]);
+    }
+}
+
+registerProcessor('aurasync-capture', CaptureProcessor);
@@ -1,18 +1,52 @@
+import type { LayoutField } from '../utils/timelineFormat';
+import type { AudioData } from '../hooks/useAudioAnalyzer';
+import type { WorkerEngineConfig } from '../utils/analysisWorkerClient';
+import type { TempoOverrideState } from '../utils/TempoOverride';
+
 // Shared types between worker and main thread
-export interface WorkerMessage {
-    type: 'analyze' | 'init' | 'updateConfig';
-    data?: any;
-    id?: number;
+export type WorkerMessage = (
+    | { type: 'init'; data?: InitData }
+    | { type: 'analyze'; data: AnalysisData }
+    | { type: 'updateConfig'; data: WorkerEngineConfig }
+    // Asks for the manual tempo corrections, before the analysis leaves the worker
+    | { type: 'getTempoState' }
+) & { id?: number };
+
+export type WorkerResponse = (
+    | { type: 'result'; data: AudioData }
+    // Answer to 'init' (with the transport) and to 'updateConfig'
+    | { type: 'ready'; data?: { shared: boolean } }
+    | { type: 'error'; data: string }
+    | { type: 'buffer'; data: SharedBufferData }
+    // Answer to 'getTempoState'
+    | { type: 'tempoState'; data: TempoOverrideState }
+) & { id?: number };
+
+export interface InitData {
+    // Ask for the shared-memory transport (used only when the worker supports it)
+    shared?: boolean;
 }
 
-export interface WorkerResponse {
-    type: 'result' | 'ready' | 'error';
-    data?: any;
-    id?: number;
+// Spectrum and waveform buffers of one channel, same precision as the frame
+export interface ChannelBuffers {
+    frequencies: ArrayBuffer;
+    waveform: ArrayBuffer;
 }
 
 export interface AnalysisData {
     frequencies: ArrayBuffer;
     waveform: ArrayBuffer;
     sampleRate: number;
-}
\ No newline at end of file
+    // Float frames carry dB spectra and -1..1 samples (default: byte frames)
+    precision?: 'byte' | 'float';
+    // Timestamp of the frame in seconds (default: time of arrival in the worker)
+    time?: number;
+    // Per-channel data of the left/right analysers; omitted for mono analysis
+    stereo?: { left: ChannelBuffers; right: ChannelBuffers };
+}
+
+// Sent once per shared buffer: results are then read from it instead of 'result' messages
+export interface SharedBufferData {
+    buffer: SharedArrayBuffer;
+    layout: LayoutField[];
+}